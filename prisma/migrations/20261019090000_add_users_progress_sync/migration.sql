@@ -0,0 +1,60 @@
+-- CreateTable
+CREATE TABLE "users" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "licenseKey" TEXT NOT NULL,
+    "email" TEXT,
+    "lastSyncAt" DATETIME,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL
+);
+
+-- RedefineTables
+PRAGMA defer_foreign_keys=ON;
+PRAGMA foreign_keys=OFF;
+CREATE TABLE "new_study_sessions" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "clientId" TEXT,
+    "userId" TEXT,
+    "startTime" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "endTime" DATETIME,
+    "mode" TEXT NOT NULL,
+    "totalCards" INTEGER NOT NULL DEFAULT 0,
+    "correctAnswers" INTEGER NOT NULL DEFAULT 0,
+    "completedAt" DATETIME,
+    "chapterFilter" TEXT NOT NULL DEFAULT '[]',
+    "categoryFilter" TEXT NOT NULL DEFAULT '[]',
+    "difficultyFilter" TEXT NOT NULL DEFAULT '[]',
+    CONSTRAINT "study_sessions_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+INSERT INTO "new_study_sessions" ("categoryFilter", "chapterFilter", "completedAt", "correctAnswers", "difficultyFilter", "endTime", "id", "mode", "startTime", "totalCards") SELECT "categoryFilter", "chapterFilter", "completedAt", "correctAnswers", "difficultyFilter", "endTime", "id", "mode", "startTime", "totalCards" FROM "study_sessions";
+DROP TABLE "study_sessions";
+ALTER TABLE "new_study_sessions" RENAME TO "study_sessions";
+CREATE UNIQUE INDEX "study_sessions_userId_clientId_key" ON "study_sessions"("userId", "clientId");
+-- Progress rows were never written before users existed, so none are carried over
+CREATE TABLE "new_user_progress" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "userId" TEXT NOT NULL,
+    "flashcardId" TEXT NOT NULL,
+    "totalSeen" INTEGER NOT NULL DEFAULT 0,
+    "totalCorrect" INTEGER NOT NULL DEFAULT 0,
+    "consecutiveCorrect" INTEGER NOT NULL DEFAULT 0,
+    "lastSeen" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "nextReview" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "easeFactor" REAL NOT NULL DEFAULT 2.5,
+    "interval" INTEGER NOT NULL DEFAULT 1,
+    "repetitions" INTEGER NOT NULL DEFAULT 0,
+    "averageResponseTime" INTEGER,
+    "difficultyRating" INTEGER NOT NULL DEFAULT 3,
+    "masteryLevel" INTEGER NOT NULL DEFAULT 0,
+    "updatedAt" DATETIME NOT NULL,
+    CONSTRAINT "user_progress_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "user_progress_flashcardId_fkey" FOREIGN KEY ("flashcardId") REFERENCES "flashcards" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+DROP TABLE "user_progress";
+ALTER TABLE "new_user_progress" RENAME TO "user_progress";
+CREATE UNIQUE INDEX "user_progress_userId_flashcardId_key" ON "user_progress"("userId", "flashcardId");
+PRAGMA foreign_keys=ON;
+PRAGMA defer_foreign_keys=OFF;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "users_licenseKey_key" ON "users"("licenseKey");
@@ -0,0 +1,30 @@
+-- RedefineTables
+PRAGMA defer_foreign_keys=ON;
+PRAGMA foreign_keys=OFF;
+CREATE TABLE "new_user_settings" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "userId" TEXT,
+    "dailyGoal" INTEGER NOT NULL DEFAULT 20,
+    "reminderEnabled" BOOLEAN NOT NULL DEFAULT true,
+    "reminderTime" TEXT NOT NULL DEFAULT '19:00',
+    "autoPlayAudio" BOOLEAN NOT NULL DEFAULT false,
+    "showDifficulty" BOOLEAN NOT NULL DEFAULT true,
+    "showProgress" BOOLEAN NOT NULL DEFAULT true,
+    "preferredStudyMode" TEXT NOT NULL DEFAULT 'review',
+    "darkMode" BOOLEAN NOT NULL DEFAULT false,
+    "animationEnabled" BOOLEAN NOT NULL DEFAULT true,
+    "newCardsPerDay" INTEGER NOT NULL DEFAULT 10,
+    "maxReviewsPerDay" INTEGER NOT NULL DEFAULT 50,
+    "graduatingInterval" INTEGER NOT NULL DEFAULT 4,
+    "easyBonus" REAL NOT NULL DEFAULT 1.3,
+    "hardFactor" REAL NOT NULL DEFAULT 1.2,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL,
+    CONSTRAINT "user_settings_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+INSERT INTO "new_user_settings" ("animationEnabled", "autoPlayAudio", "createdAt", "dailyGoal", "darkMode", "easyBonus", "graduatingInterval", "hardFactor", "id", "maxReviewsPerDay", "newCardsPerDay", "preferredStudyMode", "reminderEnabled", "reminderTime", "showDifficulty", "showProgress", "updatedAt") SELECT "animationEnabled", "autoPlayAudio", "createdAt", "dailyGoal", "darkMode", "easyBonus", "graduatingInterval", "hardFactor", "id", "maxReviewsPerDay", "newCardsPerDay", "preferredStudyMode", "reminderEnabled", "reminderTime", "showDifficulty", "showProgress", "updatedAt" FROM "user_settings";
+DROP TABLE "user_settings";
+ALTER TABLE "new_user_settings" RENAME TO "user_settings";
+CREATE UNIQUE INDEX "user_settings_userId_key" ON "user_settings"("userId");
+PRAGMA foreign_keys=ON;
+PRAGMA defer_foreign_keys=OFF;
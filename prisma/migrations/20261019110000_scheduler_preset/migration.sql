@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "user_settings" ADD COLUMN "schedulerPreset" TEXT NOT NULL DEFAULT 'standard';
@@ -0,0 +1,13 @@
+-- AlterTable
+ALTER TABLE "user_progress" ADD COLUMN "stability" REAL;
+ALTER TABLE "user_progress" ADD COLUMN "memoryDifficulty" REAL;
+
+-- AlterTable
+ALTER TABLE "user_settings" ADD COLUMN "schedulerAlgorithm" TEXT NOT NULL DEFAULT 'sm2';
+
+-- Seed FSRS state from SM-2 history (see seedFsrsState in src/lib/fsrs.ts):
+-- at 90% retention the FSRS interval equals stability, and ease 3.0-1.3 maps onto difficulty 1-10
+UPDATE "user_progress"
+SET "stability" = MAX("interval", 0.1),
+    "memoryDifficulty" = MIN(10, MAX(1, 1 + (3.0 - "easeFactor") * 9 / 1.7))
+WHERE "repetitions" > 0;
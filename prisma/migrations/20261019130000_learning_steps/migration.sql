@@ -0,0 +1,6 @@
+-- AlterTable
+ALTER TABLE "user_progress" ADD COLUMN "state" TEXT NOT NULL DEFAULT 'new';
+ALTER TABLE "user_progress" ADD COLUMN "learningStep" INTEGER NOT NULL DEFAULT 0;
+
+-- Cards reviewed before learning steps existed are already on day-based intervals
+UPDATE "user_progress" SET "state" = 'review' WHERE "totalSeen" > 0;
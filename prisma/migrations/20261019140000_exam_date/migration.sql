@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "user_settings" ADD COLUMN "examDate" DATETIME;
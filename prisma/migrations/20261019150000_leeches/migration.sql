@@ -0,0 +1,8 @@
+-- AlterTable
+ALTER TABLE "user_progress" ADD COLUMN "lapses" INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE "user_progress" ADD COLUMN "leech" BOOLEAN NOT NULL DEFAULT false;
+ALTER TABLE "user_progress" ADD COLUMN "suspended" BOOLEAN NOT NULL DEFAULT false;
+
+-- AlterTable
+ALTER TABLE "user_settings" ADD COLUMN "leechThreshold" INTEGER NOT NULL DEFAULT 8;
+ALTER TABLE "user_settings" ADD COLUMN "leechAction" TEXT NOT NULL DEFAULT 'suspend';
@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "user_progress" ADD COLUMN "buriedUntil" DATETIME;
+ALTER TABLE "user_progress" ADD COLUMN "flagColor" TEXT;
@@ -0,0 +1,24 @@
+-- CreateTable
+CREATE TABLE "flashcard_revisions" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "flashcardId" TEXT NOT NULL,
+    "revision" INTEGER NOT NULL,
+    "action" TEXT NOT NULL,
+    "authorId" TEXT,
+    "question" TEXT NOT NULL,
+    "answer" TEXT NOT NULL,
+    "difficulty" TEXT NOT NULL,
+    "type" TEXT NOT NULL,
+    "tags" TEXT NOT NULL,
+    "chapterNumber" INTEGER,
+    "categoryId" INTEGER,
+    "isActive" BOOLEAN NOT NULL,
+    "changedFields" TEXT NOT NULL DEFAULT '[]',
+    "resetScheduling" BOOLEAN NOT NULL DEFAULT false,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "flashcard_revisions_flashcardId_fkey" FOREIGN KEY ("flashcardId") REFERENCES "flashcards" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "flashcard_revisions_authorId_fkey" FOREIGN KEY ("authorId") REFERENCES "users" ("id") ON DELETE SET NULL ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "flashcard_revisions_flashcardId_revision_key" ON "flashcard_revisions"("flashcardId", "revision");
@@ -0,0 +1,65 @@
+-- RedefineTables
+PRAGMA defer_foreign_keys=ON;
+PRAGMA foreign_keys=OFF;
+CREATE TABLE "new_flashcards" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "question" TEXT NOT NULL,
+    "answer" TEXT NOT NULL,
+    "difficulty" TEXT NOT NULL DEFAULT 'Basic',
+    "certificationLevel" TEXT NOT NULL DEFAULT 'EMT',
+    "type" TEXT NOT NULL DEFAULT 'definition',
+    "tags" TEXT NOT NULL DEFAULT '',
+    "status" TEXT NOT NULL DEFAULT 'published',
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL,
+    "chapterNumber" INTEGER,
+    "categoryId" INTEGER,
+    CONSTRAINT "flashcards_chapterNumber_fkey" FOREIGN KEY ("chapterNumber") REFERENCES "chapters" ("number") ON DELETE SET NULL ON UPDATE CASCADE,
+    CONSTRAINT "flashcards_categoryId_fkey" FOREIGN KEY ("categoryId") REFERENCES "categories" ("id") ON DELETE SET NULL ON UPDATE CASCADE
+);
+-- Cards already in the deck were live, so they start out published; inactive ones were retired
+INSERT INTO "new_flashcards" ("answer", "categoryId", "certificationLevel", "chapterNumber", "createdAt", "difficulty", "id", "question", "status", "tags", "type", "updatedAt") SELECT "answer", "categoryId", "certificationLevel", "chapterNumber", "createdAt", "difficulty", "id", "question", CASE WHEN "isActive" THEN 'published' ELSE 'retired' END, "tags", "type", "updatedAt" FROM "flashcards";
+DROP TABLE "flashcards";
+ALTER TABLE "new_flashcards" RENAME TO "flashcards";
+CREATE TABLE "new_flashcard_revisions" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "flashcardId" TEXT NOT NULL,
+    "revision" INTEGER NOT NULL,
+    "action" TEXT NOT NULL,
+    "authorId" TEXT,
+    "question" TEXT NOT NULL,
+    "answer" TEXT NOT NULL,
+    "difficulty" TEXT NOT NULL,
+    "type" TEXT NOT NULL,
+    "tags" TEXT NOT NULL,
+    "chapterNumber" INTEGER,
+    "categoryId" INTEGER,
+    "status" TEXT NOT NULL,
+    "changedFields" TEXT NOT NULL DEFAULT '[]',
+    "resetScheduling" BOOLEAN NOT NULL DEFAULT false,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "flashcard_revisions_flashcardId_fkey" FOREIGN KEY ("flashcardId") REFERENCES "flashcards" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "flashcard_revisions_authorId_fkey" FOREIGN KEY ("authorId") REFERENCES "users" ("id") ON DELETE SET NULL ON UPDATE CASCADE
+);
+INSERT INTO "new_flashcard_revisions" ("action", "answer", "authorId", "categoryId", "changedFields", "chapterNumber", "createdAt", "difficulty", "flashcardId", "id", "question", "resetScheduling", "revision", "status", "tags", "type") SELECT "action", "answer", "authorId", "categoryId", REPLACE("changedFields", '"isActive"', '"status"'), "chapterNumber", "createdAt", "difficulty", "flashcardId", "id", "question", "resetScheduling", "revision", CASE WHEN "isActive" THEN 'published' ELSE 'retired' END, "tags", "type" FROM "flashcard_revisions";
+DROP TABLE "flashcard_revisions";
+ALTER TABLE "new_flashcard_revisions" RENAME TO "flashcard_revisions";
+CREATE UNIQUE INDEX "flashcard_revisions_flashcardId_revision_key" ON "flashcard_revisions"("flashcardId", "revision");
+PRAGMA foreign_keys=ON;
+PRAGMA defer_foreign_keys=OFF;
+
+-- CreateTable
+CREATE TABLE "flashcard_reviews" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "flashcardId" TEXT NOT NULL,
+    "revision" INTEGER NOT NULL,
+    "reviewerId" TEXT,
+    "decision" TEXT NOT NULL,
+    "comment" TEXT,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "flashcard_reviews_flashcardId_fkey" FOREIGN KEY ("flashcardId") REFERENCES "flashcards" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "flashcard_reviews_reviewerId_fkey" FOREIGN KEY ("reviewerId") REFERENCES "users" ("id") ON DELETE SET NULL ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE INDEX "flashcard_reviews_flashcardId_revision_idx" ON "flashcard_reviews"("flashcardId", "revision");
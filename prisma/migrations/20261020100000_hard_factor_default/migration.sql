@@ -0,0 +1,39 @@
+-- Hard divides the interval, so 1.25 keeps the original x0.8 Hard interval
+-- RedefineTables
+PRAGMA defer_foreign_keys=ON;
+PRAGMA foreign_keys=OFF;
+CREATE TABLE "new_user_settings" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "userId" TEXT,
+    "dailyGoal" INTEGER NOT NULL DEFAULT 20,
+    "reminderEnabled" BOOLEAN NOT NULL DEFAULT true,
+    "reminderTime" TEXT NOT NULL DEFAULT '19:00',
+    "autoPlayAudio" BOOLEAN NOT NULL DEFAULT false,
+    "showDifficulty" BOOLEAN NOT NULL DEFAULT true,
+    "showProgress" BOOLEAN NOT NULL DEFAULT true,
+    "preferredStudyMode" TEXT NOT NULL DEFAULT 'review',
+    "darkMode" BOOLEAN NOT NULL DEFAULT false,
+    "animationEnabled" BOOLEAN NOT NULL DEFAULT true,
+    "newCardsPerDay" INTEGER NOT NULL DEFAULT 10,
+    "maxReviewsPerDay" INTEGER NOT NULL DEFAULT 50,
+    "graduatingInterval" INTEGER NOT NULL DEFAULT 4,
+    "easyBonus" REAL NOT NULL DEFAULT 1.3,
+    "hardFactor" REAL NOT NULL DEFAULT 1.25,
+    "schedulerPreset" TEXT NOT NULL DEFAULT 'standard',
+    "schedulerAlgorithm" TEXT NOT NULL DEFAULT 'sm2',
+    "examDate" DATETIME,
+    "leechThreshold" INTEGER NOT NULL DEFAULT 8,
+    "leechAction" TEXT NOT NULL DEFAULT 'suspend',
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL,
+    CONSTRAINT "user_settings_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+INSERT INTO "new_user_settings" ("id", "userId", "dailyGoal", "reminderEnabled", "reminderTime", "autoPlayAudio", "showDifficulty", "showProgress", "preferredStudyMode", "darkMode", "animationEnabled", "newCardsPerDay", "maxReviewsPerDay", "graduatingInterval", "easyBonus", "hardFactor", "schedulerPreset", "schedulerAlgorithm", "examDate", "leechThreshold", "leechAction", "createdAt", "updatedAt") SELECT "id", "userId", "dailyGoal", "reminderEnabled", "reminderTime", "autoPlayAudio", "showDifficulty", "showProgress", "preferredStudyMode", "darkMode", "animationEnabled", "newCardsPerDay", "maxReviewsPerDay", "graduatingInterval", "easyBonus", "hardFactor", "schedulerPreset", "schedulerAlgorithm", "examDate", "leechThreshold", "leechAction", "createdAt", "updatedAt" FROM "user_settings";
+DROP TABLE "user_settings";
+ALTER TABLE "new_user_settings" RENAME TO "user_settings";
+CREATE UNIQUE INDEX "user_settings_userId_key" ON "user_settings"("userId");
+PRAGMA foreign_keys=ON;
+PRAGMA defer_foreign_keys=OFF;
+
+-- Settings still on the old 1.2 default move to the new one
+UPDATE "user_settings" SET "hardFactor" = 1.25 WHERE "hardFactor" = 1.2;
@@ -0,0 +1,27 @@
+-- Incremental pulls go by when the server stored a session, since a device can upload it long after it started.
+-- Existing sessions are stamped with the migration time, so each device pulls them once more.
+-- RedefineTables
+PRAGMA defer_foreign_keys=ON;
+PRAGMA foreign_keys=OFF;
+CREATE TABLE "new_study_sessions" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "clientId" TEXT,
+    "userId" TEXT,
+    "startTime" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "endTime" DATETIME,
+    "mode" TEXT NOT NULL,
+    "totalCards" INTEGER NOT NULL DEFAULT 0,
+    "correctAnswers" INTEGER NOT NULL DEFAULT 0,
+    "completedAt" DATETIME,
+    "chapterFilter" TEXT NOT NULL DEFAULT '[]',
+    "categoryFilter" TEXT NOT NULL DEFAULT '[]',
+    "difficultyFilter" TEXT NOT NULL DEFAULT '[]',
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "study_sessions_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+INSERT INTO "new_study_sessions" ("categoryFilter", "chapterFilter", "clientId", "completedAt", "correctAnswers", "difficultyFilter", "endTime", "id", "mode", "startTime", "totalCards", "userId") SELECT "categoryFilter", "chapterFilter", "clientId", "completedAt", "correctAnswers", "difficultyFilter", "endTime", "id", "mode", "startTime", "totalCards", "userId" FROM "study_sessions";
+DROP TABLE "study_sessions";
+ALTER TABLE "new_study_sessions" RENAME TO "study_sessions";
+CREATE UNIQUE INDEX "study_sessions_userId_clientId_key" ON "study_sessions"("userId", "clientId");
+PRAGMA foreign_keys=ON;
+PRAGMA defer_foreign_keys=OFF;
@@ -0,0 +1,45 @@
+#!/usr/bin/env tsx
+
+/**
+ * Grant or revoke card sign-off: npm run user:role -- <license key or email> <student|reviewer|instructor>
+ * Users are created as students the first time their license key reaches the API.
+ */
+
+import { PrismaClient } from '@prisma/client'
+import { isUserRole, USER_ROLES } from '../src/lib/content-review'
+
+const prisma = new PrismaClient()
+
+async function setUserRole() {
+  const [who, role] = process.argv.slice(2)
+  if (!who || !isUserRole(role)) {
+    console.error(`Usage: npm run user:role -- <license key or email> <${Object.keys(USER_ROLES).join('|')}>`)
+    process.exitCode = 1
+    return
+  }
+
+  try {
+    const users = await prisma.user.findMany({ where: { OR: [{ licenseKey: who }, { email: who }] } })
+    if (users.length === 0) {
+      console.error(`❌ No user with license key or email ${who}. They need to sign in once first.`)
+      process.exitCode = 1
+      return
+    }
+    if (users.length > 1) {
+      console.error(`❌ ${users.length} users share the email ${who}; use the license key instead.`)
+      process.exitCode = 1
+      return
+    }
+
+    await prisma.user.update({ where: { id: users[0].id }, data: { role } })
+    console.log(`✅ ${users[0].email ?? users[0].licenseKey} is now a ${USER_ROLES[role].name.toLowerCase()}`)
+
+  } catch (error) {
+    console.error('❌ Error setting user role:', error)
+    process.exitCode = 1
+  } finally {
+    await prisma.$disconnect()
+  }
+}
+
+setUserRole()
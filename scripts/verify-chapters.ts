@@ -20,7 +20,7 @@ type ChapterWithFlashcards = {
     certificationLevel: string
     type: string
     tags: string
-    isActive: boolean
+    status: string
     createdAt: Date
     updatedAt: Date
     chapterNumber: number | null
@@ -37,7 +37,7 @@ async function verifyChapters() {
       include: {
         flashcards: {
           where: {
-            isActive: true
+            status: 'published'
           }
         }
       },
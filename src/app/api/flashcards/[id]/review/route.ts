@@ -0,0 +1,79 @@
+import { NextRequest, NextResponse } from 'next/server'
+import ReviewService, { isReviewAction } from '@/lib/review-service'
+import ProgressSyncService from '@/lib/progress-sync-service'
+import { LICENSE_KEY_HEADER } from '@/lib/license'
+
+interface RouteContext {
+  params: Promise<{ id: string }>
+}
+
+// Where the card is in review, how many sign-offs it needs, and every decision so far.
+// Unpublished cards are hidden without a license, as in GET /api/flashcards/[id].
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  try {
+    const { id } = await params
+    const state = await ReviewService.getReviewState(id)
+    const hidden = state?.status !== 'published' &&
+      !(await ProgressSyncService.getUserForLicense(request.headers.get(LICENSE_KEY_HEADER)))
+    if (!state || hidden) {
+      return NextResponse.json({ success: false, error: `Flashcard not found: ${id}` }, { status: 404 })
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: state
+    })
+
+  } catch (error) {
+    console.error('Error fetching flashcard review:', error)
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Failed to fetch flashcard review'
+      },
+      { status: 500 }
+    )
+  }
+}
+
+// Body { action, comment? }: submit, approve, request_changes, withdraw or reopen
+export async function POST(request: NextRequest, { params }: RouteContext) {
+  try {
+    const { id } = await params
+    const body = await request.json().catch(() => null)
+    if (!body || !isReviewAction(body.action) || (body.comment != null && typeof body.comment !== 'string')) {
+      return NextResponse.json(
+        { success: false, error: 'Expected { action: "submit" | "approve" | "request_changes" | "withdraw" | "reopen", comment?: string }' },
+        { status: 400 }
+      )
+    }
+
+    const user = await ProgressSyncService.getUserForLicense(request.headers.get(LICENSE_KEY_HEADER))
+    if (!user) {
+      return NextResponse.json(
+        { success: false, error: 'A valid license key is required to review flashcards' },
+        { status: 401 }
+      )
+    }
+
+    const result = await ReviewService.applyAction(id, body.action, user.id, body.comment?.trim() || null)
+    if ('error' in result) {
+      return NextResponse.json({ success: false, error: result.error }, { status: result.status })
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: result.state
+    })
+
+  } catch (error) {
+    console.error('Error updating flashcard review:', error)
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Failed to update flashcard review'
+      },
+      { status: 500 }
+    )
+  }
+}
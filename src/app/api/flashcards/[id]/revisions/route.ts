@@ -0,0 +1,99 @@
+import { NextRequest, NextResponse } from 'next/server'
+import FlashcardService, { serializeFlashcard } from '@/lib/flashcard-service'
+import RevisionService from '@/lib/revision-service'
+import ProgressSyncService from '@/lib/progress-sync-service'
+import { LICENSE_KEY_HEADER } from '@/lib/license'
+import { canAuthor, canResetScheduling } from '@/lib/content-review'
+
+interface RouteContext {
+  params: Promise<{ id: string }>
+}
+
+// Every recorded revision of a card, newest first, with what each one changed.
+// History includes unpublished content, so it is only shown to licensed users.
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  try {
+    const { id } = await params
+    const user = await ProgressSyncService.getUserForLicense(request.headers.get(LICENSE_KEY_HEADER))
+    if (!user) {
+      return NextResponse.json(
+        { success: false, error: 'A valid license key is required to view flashcard history', data: [], count: 0 },
+        { status: 401 }
+      )
+    }
+
+    const history = await RevisionService.getHistory(id)
+
+    return NextResponse.json({
+      success: true,
+      data: history,
+      count: history.length
+    })
+
+  } catch (error) {
+    console.error('Error fetching flashcard history:', error)
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Failed to fetch flashcard history',
+        data: [],
+        count: 0
+      },
+      { status: 500 }
+    )
+  }
+}
+
+// Revert: body { revision, resetScheduling? } restores that revision's content
+export async function POST(request: NextRequest, { params }: RouteContext) {
+  try {
+    const { id } = await params
+    const body = await request.json().catch(() => null)
+    if (!body || !Number.isInteger(body.revision)) {
+      return NextResponse.json(
+        { success: false, error: 'Expected { revision: number, resetScheduling?: boolean }' },
+        { status: 400 }
+      )
+    }
+
+    const user = await ProgressSyncService.getUserForLicense(request.headers.get(LICENSE_KEY_HEADER))
+    if (!user) {
+      return NextResponse.json(
+        { success: false, error: 'A valid license key is required to edit flashcards' },
+        { status: 401 }
+      )
+    }
+    if (!canAuthor(user.role)) {
+      return NextResponse.json({ success: false, error: 'Only instructors can edit flashcards' }, { status: 403 })
+    }
+    if (body.resetScheduling === true && !canResetScheduling(user.role)) {
+      return NextResponse.json({ success: false, error: 'Only instructors can reset learner scheduling' }, { status: 403 })
+    }
+
+    const card = await FlashcardService.revertFlashcard(id, body.revision, {
+      authorId: user.id,
+      resetScheduling: body.resetScheduling === true
+    })
+    if (!card) {
+      return NextResponse.json(
+        { success: false, error: `Revision ${body.revision} of flashcard ${id} not found` },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: serializeFlashcard(card)
+    })
+
+  } catch (error) {
+    console.error('Error reverting flashcard:', error)
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Failed to revert flashcard'
+      },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,182 @@
+import { NextRequest, NextResponse } from 'next/server'
+import FlashcardService, {
+  parseFlashcardInput,
+  serializeFlashcard,
+  toFlashcardInput,
+  type FlashcardChangeOptions
+} from '@/lib/flashcard-service'
+import ProgressSyncService from '@/lib/progress-sync-service'
+import { LICENSE_KEY_HEADER } from '@/lib/license'
+import { canAuthor, canResetScheduling } from '@/lib/content-review'
+
+interface RouteContext {
+  params: Promise<{ id: string }>
+}
+
+const UNAUTHORIZED = { success: false, error: 'A valid license key is required to edit flashcards' }
+const FORBIDDEN = { success: false, error: 'Only instructors can edit flashcards' }
+const RESET_FORBIDDEN = { success: false, error: 'Only instructors can reset learner scheduling' }
+
+function notFound(id: string) {
+  return NextResponse.json({ success: false, error: `Flashcard not found: ${id}` }, { status: 404 })
+}
+
+// Validate the full card, then save it; shared by PUT and PATCH
+async function saveFlashcard(id: string, body: unknown, options: FlashcardChangeOptions) {
+  const parsed = parseFlashcardInput(body, id)
+  if ('error' in parsed) {
+    return NextResponse.json({ success: false, error: parsed.error }, { status: 400 })
+  }
+
+  const { input } = parsed
+  if (input.categoryId !== null && !(await FlashcardService.categoryExists(input.categoryId))) {
+    return NextResponse.json({ success: false, error: `Unknown category: ${input.categoryId}` }, { status: 400 })
+  }
+
+  const card = await FlashcardService.updateFlashcard(input, options)
+  if (!card) return notFound(id)
+
+  return NextResponse.json({
+    success: true,
+    data: serializeFlashcard(card)
+  })
+}
+
+// Students only see published cards; drafts and retired cards need a license
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  try {
+    const { id } = await params
+    const card = await FlashcardService.getFlashcardById(id)
+    if (!card) return notFound(id)
+    if (card.status !== 'published') {
+      const user = await ProgressSyncService.getUserForLicense(request.headers.get(LICENSE_KEY_HEADER))
+      if (!user) return notFound(id)
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: serializeFlashcard(card)
+    })
+
+  } catch (error) {
+    console.error('Error fetching flashcard:', error)
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Failed to fetch flashcard'
+      },
+      { status: 500 }
+    )
+  }
+}
+
+// `resetScheduling: true` in the body also resets every learner's schedule for the card;
+// null when the user may not ask for that
+function changeOptions(user: { id: string; role: string }, body: unknown): FlashcardChangeOptions | null {
+  const resetScheduling = (body as { resetScheduling?: unknown } | null)?.resetScheduling === true
+  if (resetScheduling && !canResetScheduling(user.role)) return null
+
+  return { authorId: user.id, resetScheduling }
+}
+
+// Replace every editable field of a card
+export async function PUT(request: NextRequest, { params }: RouteContext) {
+  try {
+    const { id } = await params
+    const user = await ProgressSyncService.getUserForLicense(request.headers.get(LICENSE_KEY_HEADER))
+    if (!user) {
+      return NextResponse.json(UNAUTHORIZED, { status: 401 })
+    }
+    if (!canAuthor(user.role)) {
+      return NextResponse.json(FORBIDDEN, { status: 403 })
+    }
+
+    const body = await request.json().catch(() => null)
+    const options = changeOptions(user, body)
+    if (!options) {
+      return NextResponse.json(RESET_FORBIDDEN, { status: 403 })
+    }
+
+    return await saveFlashcard(id, body, options)
+
+  } catch (error) {
+    console.error('Error updating flashcard:', error)
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Failed to update flashcard'
+      },
+      { status: 500 }
+    )
+  }
+}
+
+// Change only the fields present in the body
+export async function PATCH(request: NextRequest, { params }: RouteContext) {
+  try {
+    const { id } = await params
+    const user = await ProgressSyncService.getUserForLicense(request.headers.get(LICENSE_KEY_HEADER))
+    if (!user) {
+      return NextResponse.json(UNAUTHORIZED, { status: 401 })
+    }
+    if (!canAuthor(user.role)) {
+      return NextResponse.json(FORBIDDEN, { status: 403 })
+    }
+
+    const body = await request.json().catch(() => null)
+    if (!body || typeof body !== 'object') {
+      return NextResponse.json({ success: false, error: 'Expected a flashcard object' }, { status: 400 })
+    }
+
+    const options = changeOptions(user, body)
+    if (!options) {
+      return NextResponse.json(RESET_FORBIDDEN, { status: 403 })
+    }
+
+    const existing = await FlashcardService.getFlashcardById(id)
+    if (!existing) return notFound(id)
+
+    return await saveFlashcard(id, { ...toFlashcardInput(existing), ...body }, options)
+
+  } catch (error) {
+    console.error('Error updating flashcard:', error)
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Failed to update flashcard'
+      },
+      { status: 500 }
+    )
+  }
+}
+
+// Retire a card; it stops being served but progress on it is kept
+export async function DELETE(request: NextRequest, { params }: RouteContext) {
+  try {
+    const { id } = await params
+    const user = await ProgressSyncService.getUserForLicense(request.headers.get(LICENSE_KEY_HEADER))
+    if (!user) {
+      return NextResponse.json(UNAUTHORIZED, { status: 401 })
+    }
+    if (!canAuthor(user.role)) {
+      return NextResponse.json(FORBIDDEN, { status: 403 })
+    }
+
+    if (!(await FlashcardService.deleteFlashcard(id, user.id))) return notFound(id)
+
+    return NextResponse.json({
+      success: true,
+      data: { id }
+    })
+
+  } catch (error) {
+    console.error('Error deleting flashcard:', error)
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Failed to delete flashcard'
+      },
+      { status: 500 }
+    )
+  }
+}
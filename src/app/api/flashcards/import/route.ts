@@ -0,0 +1,102 @@
+import { NextRequest, NextResponse } from 'next/server'
+import FlashcardService from '@/lib/flashcard-service'
+import ProgressSyncService from '@/lib/progress-sync-service'
+import { LICENSE_KEY_HEADER } from '@/lib/license'
+import { canAuthor } from '@/lib/content-review'
+import { buildImportReport, parseImportOptions, transformFromAnki, transformFromCSV } from '@/data/flashcard-transformer'
+
+const MAX_IMPORT_BYTES = 50 * 1024 * 1024
+
+// Multipart body: `file` (.apkg, .csv, .tsv or .txt), `options` (JSON DeckImportOptions)
+// and `commit`. Without commit=true this is a dry run that only returns the report;
+// with it, the new cards are created as drafts for review.
+export async function POST(request: NextRequest) {
+  try {
+    const user = await ProgressSyncService.getUserForLicense(request.headers.get(LICENSE_KEY_HEADER))
+    if (!user) {
+      return NextResponse.json(
+        { success: false, error: 'A valid license key is required to import flashcards' },
+        { status: 401 }
+      )
+    }
+    if (!canAuthor(user.role)) {
+      return NextResponse.json({ success: false, error: 'Only instructors can import flashcards' }, { status: 403 })
+    }
+
+    const form = await request.formData().catch(() => null)
+    const file = form?.get('file')
+    if (!form || !(file instanceof File)) {
+      return NextResponse.json({ success: false, error: 'Expected a deck file in the "file" field' }, { status: 400 })
+    }
+    if (file.size > MAX_IMPORT_BYTES) {
+      return NextResponse.json({ success: false, error: 'Deck files are limited to 50 MB' }, { status: 413 })
+    }
+
+    let parsed
+    try {
+      parsed = parseImportOptions(JSON.parse(String(form.get('options') || '{}')))
+    } catch {
+      return NextResponse.json({ success: false, error: 'Invalid import options' }, { status: 400 })
+    }
+    if ('error' in parsed) {
+      return NextResponse.json({ success: false, error: parsed.error }, { status: 400 })
+    }
+    const { options } = parsed
+
+    const name = file.name.toLowerCase()
+    let cards
+    try {
+      if (name.endsWith('.apkg')) {
+        cards = await transformFromAnki(await file.arrayBuffer(), options)
+      } else if (/\.(csv|tsv|txt)$/.test(name)) {
+        cards = transformFromCSV(await file.text(), {
+          ...options,
+          delimiter: options.delimiter || (name.endsWith('.tsv') ? '\t' : undefined)
+        })
+      } else {
+        return NextResponse.json(
+          { success: false, error: 'Unsupported file type; use .apkg, .csv, .tsv or .txt' },
+          { status: 400 }
+        )
+      }
+    } catch (error) {
+      return NextResponse.json(
+        { success: false, error: error instanceof Error ? error.message : 'Could not read the deck file' },
+        { status: 400 }
+      )
+    }
+
+    const report = buildImportReport(cards, await FlashcardService.getCardKeys())
+    let created = 0
+    if (form.get('commit') === 'true') {
+      // One transaction, so a failure leaves nothing half imported
+      try {
+        created = (await FlashcardService.createFlashcards(
+          report.cards.map(card => ({ ...card, categoryId: null })),
+          user.id
+        )).length
+      } catch (error) {
+        console.error('Error creating imported flashcards:', error)
+        return NextResponse.json(
+          { success: false, error: 'The import failed and no cards were created. Preview the file again and retry.' },
+          { status: 500 }
+        )
+      }
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: { ...report, created }
+    })
+
+  } catch (error) {
+    console.error('Error importing flashcards:', error)
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Failed to import flashcards'
+      },
+      { status: 500 }
+    )
+  }
+}
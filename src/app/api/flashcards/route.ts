@@ -1,16 +1,38 @@
 import { NextRequest, NextResponse } from 'next/server'
-import FlashcardService from '@/lib/flashcard-service'
+import { randomUUID } from 'crypto'
+import FlashcardService, { parseFlashcardInput, serializeFlashcard } from '@/lib/flashcard-service'
+import ProgressSyncService from '@/lib/progress-sync-service'
+import { LICENSE_KEY_HEADER } from '@/lib/license'
+import { canAuthor, isCardStatus } from '@/lib/content-review'
 
+// Students get published cards only; `status=draft,in_review` lists unpublished
+// cards for the editor and needs a license
 export async function GET(request: NextRequest) {
   try {
     const { searchParams } = new URL(request.url)
     const category = searchParams.get('category')
     const chapter = searchParams.get('chapter')
     const limit = searchParams.get('limit')
+    const status = searchParams.get('status')
     
     let flashcards
     
-    if (category) {
+    if (status) {
+      const statuses = status.split(',')
+      if (!statuses.every(isCardStatus)) {
+        return NextResponse.json({ success: false, error: `Invalid status: ${status}` }, { status: 400 })
+      }
+      if (statuses.some(s => s !== 'published')) {
+        const user = await ProgressSyncService.getUserForLicense(request.headers.get(LICENSE_KEY_HEADER))
+        if (!user) {
+          return NextResponse.json(
+            { success: false, error: 'A valid license key is required to list unpublished flashcards' },
+            { status: 401 }
+          )
+        }
+      }
+      flashcards = await FlashcardService.getFlashcardsByStatus(statuses, chapter ? parseInt(chapter) : undefined)
+    } else if (category) {
       flashcards = await FlashcardService.getFlashcardsByCategory(parseInt(category))
     } else if (chapter) {
       flashcards = await FlashcardService.getFlashcardsByChapter(parseInt(chapter))
@@ -25,17 +47,7 @@ export async function GET(request: NextRequest) {
     }
     
     // Transform to match the expected interface
-    const transformedCards = flashcards.map(card => ({
-      id: card.id,
-      question: card.question,
-      answer: card.answer,
-      difficulty: card.difficulty,
-      type: card.type,
-      tags: JSON.parse(card.tags || '[]'),
-      chapterNumber: card.chapter?.number || 0,
-      chapterTitle: card.chapter?.title || 'Unknown Chapter',
-      category: card.category?.name || 'General'
-    }))
+    const transformedCards = flashcards.map(serializeFlashcard)
     
     return NextResponse.json({
       success: true,
@@ -55,4 +67,55 @@ export async function GET(request: NextRequest) {
       { status: 500 }
     )
   }
-}
\ No newline at end of file
+}
+
+// Create a card; the id is generated unless the body supplies one
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json().catch(() => null)
+    const id = typeof body?.id === 'string' && body.id.trim() ? body.id.trim() : randomUUID()
+    const parsed = parseFlashcardInput(body, id)
+    if ('error' in parsed) {
+      return NextResponse.json({ success: false, error: parsed.error }, { status: 400 })
+    }
+
+    const user = await ProgressSyncService.getUserForLicense(request.headers.get(LICENSE_KEY_HEADER))
+    if (!user) {
+      return NextResponse.json(
+        { success: false, error: 'A valid license key is required to edit flashcards' },
+        { status: 401 }
+      )
+    }
+    if (!canAuthor(user.role)) {
+      return NextResponse.json({ success: false, error: 'Only instructors can edit flashcards' }, { status: 403 })
+    }
+
+    const { input } = parsed
+    if (input.categoryId !== null && !(await FlashcardService.categoryExists(input.categoryId))) {
+      return NextResponse.json({ success: false, error: `Unknown category: ${input.categoryId}` }, { status: 400 })
+    }
+    if (await FlashcardService.getFlashcardById(input.id)) {
+      return NextResponse.json({ success: false, error: `A flashcard with id ${input.id} already exists` }, { status: 409 })
+    }
+
+    const card = await FlashcardService.createFlashcard(input, user.id)
+
+    return NextResponse.json(
+      {
+        success: true,
+        data: serializeFlashcard(card)
+      },
+      { status: 201 }
+    )
+
+  } catch (error) {
+    console.error('Error creating flashcard:', error)
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Failed to create flashcard'
+      },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,58 @@
+import { NextRequest, NextResponse } from 'next/server'
+import ProgressSyncService from '@/lib/progress-sync-service'
+import SettingsService from '@/lib/settings-service'
+import { LICENSE_KEY_HEADER } from '@/lib/license'
+import { FORECAST_RANGES } from '@/lib/review-forecast'
+
+// Project daily review load for the license in the request header
+export async function GET(request: NextRequest) {
+  try {
+    const user = await ProgressSyncService.getUserForLicense(request.headers.get(LICENSE_KEY_HEADER))
+    if (!user) {
+      return NextResponse.json(
+        { success: false, error: 'A valid license key is required to forecast reviews' },
+        { status: 401 }
+      )
+    }
+
+    const { searchParams } = new URL(request.url)
+    const days = parseInt(searchParams.get('days') ?? String(FORECAST_RANGES[0]))
+    const newCardsPerDay = parseInt(searchParams.get('newCardsPerDay') ?? '0')
+
+    if (!FORECAST_RANGES.includes(days as typeof FORECAST_RANGES[number])) {
+      return NextResponse.json(
+        { success: false, error: `days must be one of ${FORECAST_RANGES.join(', ')}` },
+        { status: 400 }
+      )
+    }
+    if (!Number.isInteger(newCardsPerDay) || newCardsPerDay < 0) {
+      return NextResponse.json(
+        { success: false, error: 'newCardsPerDay must be a whole number of cards' },
+        { status: 400 }
+      )
+    }
+
+    const settings = await SettingsService.getSettings(user.id)
+    const forecast = await ProgressSyncService.getReviewForecast(user.id, {
+      days,
+      newCardsPerDay,
+      graduatingInterval: settings?.graduatingInterval
+    })
+
+    return NextResponse.json({
+      success: true,
+      data: forecast,
+      count: forecast.length
+    })
+
+  } catch (error) {
+    console.error('Error building review forecast:', error)
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Failed to build review forecast'
+      },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,36 @@
+import { NextRequest, NextResponse } from 'next/server'
+import ProgressSyncService from '@/lib/progress-sync-service'
+import { LICENSE_KEY_HEADER } from '@/lib/license'
+
+// Pull the stored progress for the license in the request header
+export async function GET(request: NextRequest) {
+  try {
+    const user = await ProgressSyncService.getUserForLicense(request.headers.get(LICENSE_KEY_HEADER))
+    if (!user) {
+      return NextResponse.json(
+        { success: false, error: 'A valid license key is required to sync progress' },
+        { status: 401 }
+      )
+    }
+
+    const { searchParams } = new URL(request.url)
+    const since = searchParams.get('since')
+    const progress = await ProgressSyncService.getProgress(user.id, since ? parseInt(since) : undefined)
+
+    return NextResponse.json({
+      success: true,
+      data: progress,
+      count: progress.cards.length
+    })
+
+  } catch (error) {
+    console.error('Error fetching progress:', error)
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Failed to fetch progress'
+      },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,42 @@
+import { NextRequest, NextResponse } from 'next/server'
+import ProgressSyncService, { parseProgressSnapshot } from '@/lib/progress-sync-service'
+import { LICENSE_KEY_HEADER } from '@/lib/license'
+
+// Push a device's local progress and receive whatever it is missing
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json().catch(() => null)
+    const parsed = parseProgressSnapshot(body)
+    if ('error' in parsed) {
+      return NextResponse.json({ success: false, error: parsed.error }, { status: 400 })
+    }
+
+    const user = await ProgressSyncService.getUserForLicense(
+      request.headers.get(LICENSE_KEY_HEADER),
+      typeof body.email === 'string' ? body.email : undefined
+    )
+    if (!user) {
+      return NextResponse.json(
+        { success: false, error: 'A valid license key is required to sync progress' },
+        { status: 401 }
+      )
+    }
+
+    const result = await ProgressSyncService.syncProgress(user.id, parsed.snapshot)
+
+    return NextResponse.json({
+      success: true,
+      data: result
+    })
+
+  } catch (error) {
+    console.error('Error syncing progress:', error)
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Failed to sync progress'
+      },
+      { status: 500 }
+    )
+  }
+}
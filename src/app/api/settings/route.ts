@@ -0,0 +1,66 @@
+import { NextRequest, NextResponse } from 'next/server'
+import ProgressSyncService from '@/lib/progress-sync-service'
+import SettingsService from '@/lib/settings-service'
+import { LICENSE_KEY_HEADER } from '@/lib/license'
+
+const UNAUTHORIZED = { success: false, error: 'A valid license key is required to sync settings' }
+
+export async function GET(request: NextRequest) {
+  try {
+    const user = await ProgressSyncService.getUserForLicense(request.headers.get(LICENSE_KEY_HEADER))
+    if (!user) {
+      return NextResponse.json(UNAUTHORIZED, { status: 401 })
+    }
+
+    const settings = await SettingsService.getSettings(user.id)
+
+    return NextResponse.json({
+      success: true,
+      data: settings
+    })
+
+  } catch (error) {
+    console.error('Error fetching settings:', error)
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Failed to fetch settings'
+      },
+      { status: 500 }
+    )
+  }
+}
+
+export async function PUT(request: NextRequest) {
+  try {
+    const body = await request.json().catch(() => null)
+    if (!body || typeof body !== 'object') {
+      return NextResponse.json(
+        { success: false, error: 'Expected a settings object' },
+        { status: 400 }
+      )
+    }
+
+    const user = await ProgressSyncService.getUserForLicense(request.headers.get(LICENSE_KEY_HEADER))
+    if (!user) {
+      return NextResponse.json(UNAUTHORIZED, { status: 401 })
+    }
+
+    const settings = await SettingsService.saveSettings(user.id, body)
+
+    return NextResponse.json({
+      success: true,
+      data: settings
+    })
+
+  } catch (error) {
+    console.error('Error saving settings:', error)
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Failed to save settings'
+      },
+      { status: 500 }
+    )
+  }
+}
@@ -18,7 +18,10 @@ import {
   Brain,
   Heart,
   Stethoscope,
-  Truck
+  Truck,
+  Star,
+  PenSquare,
+  Download
 } from 'lucide-react'
 import { cn } from '@/lib/utils'
 
@@ -206,6 +209,20 @@ export default function BrowsePage() {
             Explore our comprehensive collection of EMT-B study materials organized by chapters and topics. 
             Find the content that matches your learning needs.
           </p>
+          <div className="flex justify-center gap-3 mt-6">
+            <Button variant="outline" onClick={() => router.push('/favorites')}>
+              <Star className="h-4 w-4 mr-2" />
+              Starred Cards
+            </Button>
+            <Button variant="outline" onClick={() => router.push('/editor')}>
+              <PenSquare className="h-4 w-4 mr-2" />
+              Card Editor
+            </Button>
+            <Button variant="outline" onClick={() => router.push('/export')}>
+              <Download className="h-4 w-4 mr-2" />
+              Export Deck
+            </Button>
+          </div>
         </div>
 
         {/* Search and Filters */}
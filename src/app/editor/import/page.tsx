@@ -0,0 +1,322 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { useRouter } from 'next/navigation'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { Input } from '@/components/ui/input'
+import { MedicalDisclaimerBanner } from '@/components/ui/medical-disclaimer-banner'
+import { ArrowLeft, CheckCircle, Copy, FileUp, Upload, XCircle } from 'lucide-react'
+import {
+  fetchAuthoringOptions,
+  importDeck,
+  type AuthoringOptions,
+  type DeckImportOptions,
+  type DeckImportResult
+} from '@/lib/card-authoring'
+import { cn } from '@/lib/utils'
+
+const FIELD_CLASS = 'w-full px-3 py-2 rounded-md bg-white/5 border border-white/10 text-white text-sm'
+
+const MAPPED_COLUMNS = [
+  { field: 'question', label: 'Question column' },
+  { field: 'answer', label: 'Answer column' },
+  { field: 'tags', label: 'Tags column' }
+] as const
+
+type MappedField = typeof MAPPED_COLUMNS[number]['field']
+
+const PREVIEW_LIMIT = 20
+
+// Column numbers are entered 1-based; anything else is a header or Anki field name
+function toColumnMapping(columns: Record<MappedField, string>): DeckImportOptions['columns'] {
+  const mapping: DeckImportOptions['columns'] = {}
+  for (const { field } of MAPPED_COLUMNS) {
+    const value = columns[field].trim()
+    if (value) mapping[field] = /^\d+$/.test(value) ? Number(value) - 1 : value
+  }
+  return mapping
+}
+
+export default function ImportDeckPage() {
+  const router = useRouter()
+  const [options, setOptions] = useState<AuthoringOptions>({ categories: [], chapters: [] })
+  const [file, setFile] = useState<File | null>(null)
+  const [chapterNumber, setChapterNumber] = useState<number | null>(null)
+  const [columns, setColumns] = useState<Record<MappedField, string>>({ question: '', answer: '', tags: '' })
+  const [tagsText, setTagsText] = useState('')
+  const [result, setResult] = useState<DeckImportResult | null>(null)
+  const [busy, setBusy] = useState(false)
+  const [status, setStatus] = useState<{ message: string; error: boolean } | null>(null)
+
+  useEffect(() => {
+    let cancelled = false
+
+    fetchAuthoringOptions()
+      .then(loaded => {
+        if (!cancelled) setOptions(loaded)
+      })
+      .catch(error => console.error('Failed to load chapters:', error))
+
+    return () => {
+      cancelled = true
+    }
+  }, [])
+
+  const chapter = options.chapters.find(c => c.number === chapterNumber)
+
+  // Any change to the file or settings makes the last preview stale
+  const resetPreview = () => {
+    setResult(null)
+    setStatus(null)
+  }
+
+  const runImport = async (commit: boolean) => {
+    if (!file) return
+    setBusy(true)
+    try {
+      const imported = await importDeck(file, {
+        columns: toColumnMapping(columns),
+        chapterNumber: chapterNumber ?? undefined,
+        chapterTitle: chapter?.title,
+        defaultTags: tagsText.split(',').map(tag => tag.trim().toLowerCase()).filter(Boolean)
+      }, commit)
+      setResult(imported)
+      setStatus(commit
+        ? { message: `Created ${imported.created} draft cards. Submit them for review in the editor to publish them.`, error: false }
+        : null)
+    } catch (error) {
+      setStatus({ message: error instanceof Error ? error.message : 'Failed to import deck', error: true })
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-900 via-slate-800 to-slate-900">
+      <div className="max-w-5xl mx-auto px-4 py-8">
+        {/* Medical Disclaimer */}
+        <MedicalDisclaimerBanner variant="compact" className="mb-8 rounded-xl" />
+
+        {/* Header */}
+        <div className="text-center mb-12">
+          <div className="inline-flex items-center gap-2 rounded-full border border-white/15 bg-white/5 px-4 py-1 text-xs uppercase tracking-wider text-muted-foreground mb-4">
+            <Upload className="h-3 w-3" />
+            <span className="text-primary">Deck Import</span>
+          </div>
+          <h1 className="text-4xl font-bold bg-gradient-to-r from-white to-white/80 bg-clip-text text-transparent mb-4">
+            Import a Deck
+          </h1>
+          <p className="text-muted-foreground text-lg max-w-2xl mx-auto">
+            Bring in cards from an Anki package or a CSV/TSV export. Files are read on this server, and
+            imported cards start as drafts.
+          </p>
+          <div className="flex justify-center gap-3 mt-6">
+            <Button variant="outline" onClick={() => router.push('/editor')}>
+              <ArrowLeft className="h-4 w-4 mr-2" />
+              Card Editor
+            </Button>
+          </div>
+        </div>
+
+        {/* Settings */}
+        <Card className="glass-card mb-6">
+          <CardHeader>
+            <CardTitle>Deck File</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <label className="block space-y-1">
+              <span className="text-sm font-medium">File</span>
+              <input
+                type="file"
+                accept=".apkg,.csv,.tsv,.txt"
+                onChange={(e) => {
+                  setFile(e.target.files?.[0] ?? null)
+                  resetPreview()
+                }}
+                className={cn(FIELD_CLASS, "file:mr-3 file:rounded file:border-0 file:bg-primary/20 file:px-3 file:py-1 file:text-primary")}
+              />
+              <span className="text-xs text-muted-foreground">
+                Anki: export with &quot;Support older Anki versions&quot; checked. CSV/TSV: a header row is optional;
+                without one, columns are read as question, answer, tags.
+              </span>
+            </label>
+
+            <div className="grid gap-4 sm:grid-cols-2">
+              <label className="block space-y-1">
+                <span className="text-sm font-medium">Chapter</span>
+                <select
+                  value={chapterNumber ?? ''}
+                  onChange={(e: React.ChangeEvent<HTMLSelectElement>) => {
+                    setChapterNumber(e.target.value ? Number(e.target.value) : null)
+                    resetPreview()
+                  }}
+                  className={cn(FIELD_CLASS, "h-10")}
+                >
+                  <option value="" className="bg-slate-800 text-white">From the file only</option>
+                  {options.chapters.map(c => (
+                    <option key={c.number} value={c.number} className="bg-slate-800 text-white">
+                      {c.number}. {c.title}
+                    </option>
+                  ))}
+                </select>
+                <span className="text-xs text-muted-foreground">Used for cards that do not name a chapter.</span>
+              </label>
+
+              <label className="block space-y-1">
+                <span className="text-sm font-medium">Extra tags</span>
+                <Input
+                  value={tagsText}
+                  onChange={(e) => {
+                    setTagsText(e.target.value)
+                    resetPreview()
+                  }}
+                  placeholder="imported, pharmacology"
+                  className="bg-white/5 border-white/10"
+                />
+                <span className="text-xs text-muted-foreground">Comma separated; added to every card.</span>
+              </label>
+            </div>
+
+            <div className="grid gap-4 sm:grid-cols-3">
+              {MAPPED_COLUMNS.map(({ field, label }) => (
+                <label key={field} className="block space-y-1">
+                  <span className="text-sm font-medium">{label}</span>
+                  <Input
+                    value={columns[field]}
+                    onChange={(e) => {
+                      setColumns(prev => ({ ...prev, [field]: e.target.value }))
+                      resetPreview()
+                    }}
+                    placeholder="Auto"
+                    className="bg-white/5 border-white/10"
+                  />
+                </label>
+              ))}
+            </div>
+            <p className="text-xs text-muted-foreground">
+              Columns are matched by header or Anki field name when left on Auto. Enter a name or a column number to override.
+            </p>
+
+            {status && (
+              <p className={cn("text-sm", status.error ? "text-red-300" : "text-emerald-300")}>{status.message}</p>
+            )}
+
+            <div className="flex justify-end gap-3 pt-2">
+              <Button variant="outline" onClick={() => runImport(false)} disabled={!file || busy}>
+                <FileUp className="h-4 w-4 mr-2" />
+                {busy && !result ? 'Reading...' : 'Preview'}
+              </Button>
+              <Button
+                onClick={() => runImport(true)}
+                disabled={!result || result.created > 0 || result.cards.length === 0 || busy}
+              >
+                <Upload className="h-4 w-4 mr-2" />
+                Import {result?.cards.length ?? 0} Cards as Drafts
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+
+        {/* Report */}
+        {result && (
+          <div className="space-y-6">
+            <div className="grid gap-4 sm:grid-cols-3">
+              <Card className="glass-card">
+                <CardContent className="p-6 flex items-center gap-3">
+                  <CheckCircle className="h-8 w-8 text-emerald-400" />
+                  <div>
+                    <p className="text-2xl font-bold">{result.cards.length}</p>
+                    <p className="text-sm text-muted-foreground">New cards of {result.total}</p>
+                  </div>
+                </CardContent>
+              </Card>
+              <Card className="glass-card">
+                <CardContent className="p-6 flex items-center gap-3">
+                  <Copy className="h-8 w-8 text-yellow-400" />
+                  <div>
+                    <p className="text-2xl font-bold">{result.duplicates.length}</p>
+                    <p className="text-sm text-muted-foreground">Duplicates skipped</p>
+                  </div>
+                </CardContent>
+              </Card>
+              <Card className="glass-card">
+                <CardContent className="p-6 flex items-center gap-3">
+                  <XCircle className="h-8 w-8 text-red-400" />
+                  <div>
+                    <p className="text-2xl font-bold">{result.rejects.length}</p>
+                    <p className="text-sm text-muted-foreground">Rejected</p>
+                  </div>
+                </CardContent>
+              </Card>
+            </div>
+
+            {result.cards.length > 0 && (
+              <Card className="glass-card">
+                <CardHeader>
+                  <CardTitle>New Cards</CardTitle>
+                </CardHeader>
+                <CardContent className="space-y-2">
+                  {result.cards.slice(0, PREVIEW_LIMIT).map(card => (
+                    <div key={card.id} className="rounded-lg border border-white/10 bg-white/5 p-3 text-sm">
+                      <p className="font-medium whitespace-pre-wrap">{card.question}</p>
+                      <p className="text-muted-foreground whitespace-pre-wrap mt-1">{card.answer}</p>
+                      <div className="flex flex-wrap gap-1 mt-2">
+                        <Badge variant="outline" className="bg-white/5 border-white/20 text-xs">Ch. {card.chapterNumber}</Badge>
+                        {card.tags.map(tag => (
+                          <Badge key={tag} variant="outline" className="bg-white/5 border-white/20 text-xs">{tag}</Badge>
+                        ))}
+                      </div>
+                    </div>
+                  ))}
+                  {result.cards.length > PREVIEW_LIMIT && (
+                    <p className="text-xs text-muted-foreground text-center pt-2">
+                      and {result.cards.length - PREVIEW_LIMIT} more
+                    </p>
+                  )}
+                </CardContent>
+              </Card>
+            )}
+
+            {result.duplicates.length > 0 && (
+              <Card className="glass-card">
+                <CardHeader>
+                  <CardTitle>Duplicates</CardTitle>
+                </CardHeader>
+                <CardContent className="space-y-2 max-h-96 overflow-y-auto">
+                  {result.duplicates.map(duplicate => (
+                    <div key={duplicate.row} className="flex items-start justify-between gap-3 text-sm border-b border-white/5 pb-2">
+                      <span className="line-clamp-2">
+                        <span className="text-muted-foreground">Row {duplicate.row}:</span> {duplicate.question}
+                      </span>
+                      <span className="text-xs text-muted-foreground whitespace-nowrap">
+                        same {duplicate.match} as <span className="font-mono">{duplicate.duplicateOf}</span>
+                      </span>
+                    </div>
+                  ))}
+                </CardContent>
+              </Card>
+            )}
+
+            {result.rejects.length > 0 && (
+              <Card className="glass-card">
+                <CardHeader>
+                  <CardTitle>Rejected</CardTitle>
+                </CardHeader>
+                <CardContent className="space-y-2 max-h-96 overflow-y-auto">
+                  {result.rejects.map(reject => (
+                    <div key={reject.row} className="flex items-start justify-between gap-3 text-sm border-b border-white/5 pb-2">
+                      <span className="text-muted-foreground">Row {reject.row}</span>
+                      <span className="text-red-300 text-right">{reject.reason}</span>
+                    </div>
+                  ))}
+                </CardContent>
+              </Card>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,721 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { useRouter } from 'next/navigation'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { Input } from '@/components/ui/input'
+import { MedicalDisclaimerBanner } from '@/components/ui/medical-disclaimer-banner'
+import { PenSquare, Plus, Save, Upload, Archive, History, RotateCcw, ShieldCheck, Send, CheckCircle, MessageSquare, Undo2 } from 'lucide-react'
+import {
+  applyReviewAction,
+  fetchAuthoredCards,
+  fetchAuthoringOptions,
+  fetchCardHistory,
+  fetchReviewState,
+  retireAuthoredCard,
+  revertAuthoredCard,
+  saveAuthoredCard,
+  type AuthoredCard,
+  type AuthoringOptions,
+  type CardDraft,
+  type ReviewAction,
+  type ReviewState,
+  type RevisionEntry
+} from '@/lib/card-authoring'
+import { CARD_STATUSES, isCardStatus, type CardStatus } from '@/lib/content-review'
+import { CARD_TYPES, DIFFICULTY_LEVELS } from '@/lib/types'
+import { cn } from '@/lib/utils'
+
+const DIFFICULTIES = Object.values(DIFFICULTY_LEVELS)
+const TYPES = Object.values(CARD_TYPES)
+
+const FIELD_CLASS = 'w-full px-3 py-2 rounded-md bg-white/5 border border-white/10 text-white text-sm'
+
+const STATUS_CLASS: Record<CardStatus, string> = {
+  draft: 'bg-white/5 border-white/20 text-muted-foreground',
+  in_review: 'bg-yellow-500/10 border-yellow-500/30 text-yellow-300',
+  published: 'bg-emerald-500/10 border-emerald-500/30 text-emerald-300',
+  retired: 'bg-red-500/10 border-red-500/30 text-red-300'
+}
+
+// With no status filter the list shows every card that is not retired
+function listedStatuses(filter: CardStatus | null): CardStatus[] {
+  return filter ? [filter] : ['draft', 'in_review', 'published']
+}
+
+function emptyDraft(chapter?: { number: number; title: string }): CardDraft {
+  return {
+    question: '',
+    answer: '',
+    difficulty: 'Basic',
+    type: 'definition',
+    tags: [],
+    chapterNumber: chapter?.number ?? 1,
+    chapterTitle: chapter?.title ?? '',
+    categoryId: null
+  }
+}
+
+function toDraft(card: AuthoredCard): CardDraft {
+  return {
+    question: card.question,
+    answer: card.answer,
+    difficulty: card.difficulty,
+    type: card.type,
+    tags: card.tags,
+    chapterNumber: card.chapterNumber,
+    chapterTitle: card.chapterTitle,
+    categoryId: card.categoryId
+  }
+}
+
+function parseTags(text: string): string[] {
+  return text.split(',').map(tag => tag.trim().toLowerCase()).filter(Boolean)
+}
+
+const FIELD_LABELS: Record<RevisionEntry['changes'][number]['field'], string> = {
+  question: 'Question',
+  answer: 'Answer',
+  tags: 'Tags',
+  difficulty: 'Difficulty',
+  type: 'Type',
+  chapterNumber: 'Chapter',
+  categoryId: 'Category',
+  status: 'Status'
+}
+
+export default function EditorPage() {
+  const router = useRouter()
+  const [options, setOptions] = useState<AuthoringOptions>({ categories: [], chapters: [] })
+  const [chapterFilter, setChapterFilter] = useState<number | null>(null)
+  const [statusFilter, setStatusFilter] = useState<CardStatus | null>(null)
+  const [cards, setCards] = useState<AuthoredCard[]>([])
+  const [loading, setLoading] = useState(true)
+  const [selectedId, setSelectedId] = useState<string | null>(null)
+  const [draft, setDraft] = useState<CardDraft>(() => emptyDraft())
+  const [tagsText, setTagsText] = useState('')
+  const [saving, setSaving] = useState(false)
+  const [status, setStatus] = useState<{ message: string; error: boolean } | null>(null)
+  const [resetScheduling, setResetScheduling] = useState(false)
+  const [storedHistory, setStoredHistory] = useState<{ cardId: string; entries: RevisionEntry[] } | null>(null)
+  const [historyVersion, setHistoryVersion] = useState(0)
+  const [storedReview, setStoredReview] = useState<{ cardId: string; state: ReviewState } | null>(null)
+  const [reviewComment, setReviewComment] = useState('')
+
+  // Only show the history and review that belong to the selected card
+  const history = selectedId && storedHistory?.cardId === selectedId ? storedHistory.entries : []
+  const review = selectedId && storedReview?.cardId === selectedId ? storedReview.state : null
+
+  useEffect(() => {
+    let cancelled = false
+
+    fetchAuthoringOptions()
+      .then(loaded => {
+        if (!cancelled) setOptions(loaded)
+      })
+      .catch(error => console.error('Failed to load chapters and categories:', error))
+
+    return () => {
+      cancelled = true
+    }
+  }, [])
+
+  useEffect(() => {
+    let cancelled = false
+
+    fetchAuthoredCards(listedStatuses(statusFilter), chapterFilter ?? undefined)
+      .then(loaded => {
+        if (!cancelled) setCards(loaded)
+      })
+      .catch(error => {
+        console.error('Failed to load flashcards:', error)
+        if (!cancelled) setStatus({ message: error instanceof Error ? error.message : 'Failed to load flashcards', error: true })
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false)
+      })
+
+    return () => {
+      cancelled = true
+    }
+  }, [chapterFilter, statusFilter])
+
+  useEffect(() => {
+    if (!selectedId) return
+    let cancelled = false
+
+    fetchCardHistory(selectedId)
+      .then(entries => {
+        if (!cancelled) setStoredHistory({ cardId: selectedId, entries })
+      })
+      .catch(error => console.error('Failed to load card history:', error))
+
+    fetchReviewState(selectedId)
+      .then(state => {
+        if (!cancelled) setStoredReview({ cardId: selectedId, state })
+      })
+      .catch(error => console.error('Failed to load card review:', error))
+
+    return () => {
+      cancelled = true
+    }
+  }, [selectedId, historyVersion])
+
+  const updateDraft = <K extends keyof CardDraft>(key: K, value: CardDraft[K]) => {
+    setDraft(prev => ({ ...prev, [key]: value }))
+  }
+
+  const selectChapter = (value: string) => {
+    const chapter = options.chapters.find(c => c.number === Number(value))
+    setDraft(prev => ({
+      ...prev,
+      chapterNumber: Number(value),
+      chapterTitle: chapter?.title ?? prev.chapterTitle
+    }))
+  }
+
+  const editCard = (card: AuthoredCard) => {
+    setSelectedId(card.id)
+    setDraft(toDraft(card))
+    setTagsText(card.tags.join(', '))
+    setResetScheduling(false)
+    setReviewComment('')
+    setStatus(card.category ? { message: `Editing a ${card.category} card`, error: false } : null)
+  }
+
+  const startNewCard = () => {
+    setSelectedId(null)
+    setDraft(emptyDraft(options.chapters.find(c => c.number === chapterFilter)))
+    setTagsText('')
+    setResetScheduling(false)
+    setStatus(null)
+  }
+
+  const handleSave = async () => {
+    setSaving(true)
+    const previousStatus = cards.find(card => card.id === selectedId)?.status
+    try {
+      const saved = await saveAuthoredCard({ ...draft, tags: parseTags(tagsText) }, selectedId ?? undefined, resetScheduling)
+      setCards(prev => selectedId
+        ? prev.map(card => card.id === saved.id ? saved : card)
+        : [...prev, saved])
+      setSelectedId(saved.id)
+      setHistoryVersion(prev => prev + 1)
+      setResetScheduling(false)
+      setStatus({
+        message: !selectedId
+          ? 'Card created as a draft. Submit it for review to publish it.'
+          : saved.status !== previousStatus
+            ? 'Card updated and returned to draft for review'
+            : 'Card updated',
+        error: false
+      })
+    } catch (error) {
+      setStatus({ message: error instanceof Error ? error.message : 'Failed to save card', error: true })
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleRetire = async () => {
+    if (!selectedId) return
+    setSaving(true)
+    try {
+      await retireAuthoredCard(selectedId)
+      setCards(prev => prev
+        .map(card => card.id === selectedId ? { ...card, status: 'retired' as const } : card)
+        .filter(card => listedStatuses(statusFilter).includes(card.status)))
+      startNewCard()
+      setStatus({ message: 'Card retired', error: false })
+    } catch (error) {
+      setStatus({ message: error instanceof Error ? error.message : 'Failed to retire card', error: true })
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleRevert = async (revision: number) => {
+    if (!selectedId) return
+    setSaving(true)
+    try {
+      const reverted = await revertAuthoredCard(selectedId, revision, resetScheduling)
+      setCards(prev => prev.map(card => card.id === reverted.id ? reverted : card))
+      editCard(reverted)
+      setHistoryVersion(prev => prev + 1)
+      setStatus({ message: `Reverted to revision ${revision}`, error: false })
+    } catch (error) {
+      setStatus({ message: error instanceof Error ? error.message : 'Failed to revert card', error: true })
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleReviewAction = async (action: ReviewAction, successMessage: string) => {
+    if (!selectedId) return
+    setSaving(true)
+    try {
+      const state = await applyReviewAction(selectedId, action, reviewComment || undefined)
+      setCards(prev => prev
+        .map(card => card.id === selectedId ? { ...card, status: state.status } : card)
+        .filter(card => listedStatuses(statusFilter).includes(card.status)))
+      setStoredReview({ cardId: selectedId, state })
+      setHistoryVersion(prev => prev + 1)
+      setReviewComment('')
+      setStatus({ message: successMessage, error: false })
+    } catch (error) {
+      setStatus({ message: error instanceof Error ? error.message : 'Failed to update review', error: true })
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const formatChangeValue = (field: RevisionEntry['changes'][number]['field'], value: string) => {
+    if (field === 'categoryId') {
+      return options.categories.find(category => String(category.id) === value)?.name ?? (value || 'None')
+    }
+    if (field === 'status' && isCardStatus(value)) return CARD_STATUSES[value].name
+    return value || '—'
+  }
+
+  const isNewChapter = !options.chapters.some(c => c.number === draft.chapterNumber)
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-900 via-slate-800 to-slate-900">
+      <div className="max-w-6xl mx-auto px-4 py-8">
+        {/* Medical Disclaimer */}
+        <MedicalDisclaimerBanner variant="compact" className="mb-8 rounded-xl" />
+
+        {/* Header */}
+        <div className="text-center mb-12">
+          <div className="inline-flex items-center gap-2 rounded-full border border-white/15 bg-white/5 px-4 py-1 text-xs uppercase tracking-wider text-muted-foreground mb-4">
+            <PenSquare className="h-3 w-3" />
+            <span className="text-primary">Card Editor</span>
+          </div>
+          <h1 className="text-4xl font-bold bg-gradient-to-r from-white to-white/80 bg-clip-text text-transparent mb-4">
+            Author Flashcards
+          </h1>
+          <p className="text-muted-foreground text-lg max-w-2xl mx-auto">
+            Create new cards and revise existing ones. Changes are saved to the shared deck.
+          </p>
+          <div className="flex justify-center gap-3 mt-6">
+            <Button variant="outline" onClick={() => router.push('/editor/import')}>
+              <Upload className="h-4 w-4 mr-2" />
+              Import Deck
+            </Button>
+          </div>
+        </div>
+
+        <div className="grid gap-6 lg:grid-cols-[2fr_3fr]">
+          {/* Card List */}
+          <Card className="glass-card">
+            <CardHeader className="space-y-4">
+              <CardTitle className="flex items-center justify-between gap-3">
+                <span>Cards</span>
+                <Button size="sm" variant="outline" onClick={startNewCard}>
+                  <Plus className="h-4 w-4 mr-2" />
+                  New Card
+                </Button>
+              </CardTitle>
+              <select
+                value={chapterFilter ?? ''}
+                onChange={(e: React.ChangeEvent<HTMLSelectElement>) => {
+                  setLoading(true)
+                  setChapterFilter(e.target.value ? Number(e.target.value) : null)
+                }}
+                className={cn(FIELD_CLASS, "h-10")}
+              >
+                <option value="" className="bg-slate-800 text-white">All Chapters</option>
+                {options.chapters.map(chapter => (
+                  <option key={chapter.number} value={chapter.number} className="bg-slate-800 text-white">
+                    {chapter.number}. {chapter.title}
+                  </option>
+                ))}
+              </select>
+              <select
+                value={statusFilter ?? ''}
+                onChange={(e: React.ChangeEvent<HTMLSelectElement>) => {
+                  setLoading(true)
+                  setStatusFilter(isCardStatus(e.target.value) ? e.target.value : null)
+                }}
+                className={cn(FIELD_CLASS, "h-10")}
+              >
+                <option value="" className="bg-slate-800 text-white">All except retired</option>
+                {(Object.keys(CARD_STATUSES) as CardStatus[]).map(cardStatus => (
+                  <option key={cardStatus} value={cardStatus} className="bg-slate-800 text-white">
+                    {CARD_STATUSES[cardStatus].name}
+                  </option>
+                ))}
+              </select>
+            </CardHeader>
+            <CardContent className="space-y-2 max-h-[60vh] overflow-y-auto">
+              {loading ? (
+                <div className="text-center py-8">
+                  <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary mx-auto"></div>
+                </div>
+              ) : cards.length === 0 ? (
+                <p className="text-sm text-muted-foreground text-center py-8">No matching cards yet.</p>
+              ) : (
+                cards.map(card => (
+                  <button
+                    key={card.id}
+                    type="button"
+                    onClick={() => editCard(card)}
+                    className={cn(
+                      "w-full text-left rounded-lg border px-3 py-2 transition-colors",
+                      selectedId === card.id ? "border-primary bg-primary/10" : "border-white/10 bg-white/5 hover:bg-white/10"
+                    )}
+                  >
+                    <p className="text-sm font-medium line-clamp-2">{card.question}</p>
+                    <div className="flex items-center justify-between gap-2 mt-1">
+                      <p className="text-xs text-muted-foreground">
+                        Ch. {card.chapterNumber} · {card.difficulty} · {card.type}
+                      </p>
+                      <Badge variant="outline" className={cn("text-xs", STATUS_CLASS[card.status])}>
+                        {CARD_STATUSES[card.status].name}
+                      </Badge>
+                    </div>
+                  </button>
+                ))
+              )}
+            </CardContent>
+          </Card>
+
+          {/* Editor */}
+          <Card className="glass-card">
+            <CardHeader>
+              <CardTitle className="flex items-center justify-between gap-3">
+                <span>{selectedId ? 'Edit Card' : 'New Card'}</span>
+                {selectedId && (
+                  <Badge variant="outline" className="bg-white/5 border-white/20 font-mono text-xs">
+                    {selectedId}
+                  </Badge>
+                )}
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <label className="block space-y-1">
+                <span className="text-sm font-medium">Question</span>
+                <textarea
+                  value={draft.question}
+                  onChange={(e) => updateDraft('question', e.target.value)}
+                  rows={3}
+                  className={FIELD_CLASS}
+                />
+              </label>
+
+              <label className="block space-y-1">
+                <span className="text-sm font-medium">Answer</span>
+                <textarea
+                  value={draft.answer}
+                  onChange={(e) => updateDraft('answer', e.target.value)}
+                  rows={4}
+                  className={FIELD_CLASS}
+                />
+              </label>
+
+              <div className="grid gap-4 sm:grid-cols-2">
+                <label className="block space-y-1">
+                  <span className="text-sm font-medium">Chapter</span>
+                  <select
+                    value={isNewChapter ? 'new' : draft.chapterNumber}
+                    onChange={(e: React.ChangeEvent<HTMLSelectElement>) => e.target.value === 'new'
+                      ? setDraft(prev => ({ ...prev, chapterNumber: Math.max(0, ...options.chapters.map(c => c.number)) + 1, chapterTitle: '' }))
+                      : selectChapter(e.target.value)}
+                    className={cn(FIELD_CLASS, "h-10")}
+                  >
+                    {options.chapters.map(chapter => (
+                      <option key={chapter.number} value={chapter.number} className="bg-slate-800 text-white">
+                        {chapter.number}. {chapter.title}
+                      </option>
+                    ))}
+                    <option value="new" className="bg-slate-800 text-white">New chapter...</option>
+                  </select>
+                </label>
+
+                <label className="block space-y-1">
+                  <span className="text-sm font-medium">Category</span>
+                  <select
+                    value={draft.categoryId ?? ''}
+                    onChange={(e: React.ChangeEvent<HTMLSelectElement>) => updateDraft('categoryId', e.target.value ? Number(e.target.value) : null)}
+                    className={cn(FIELD_CLASS, "h-10")}
+                  >
+                    <option value="" className="bg-slate-800 text-white">No category</option>
+                    {options.categories.map(category => (
+                      <option key={category.id} value={category.id} className="bg-slate-800 text-white">
+                        {category.name}
+                      </option>
+                    ))}
+                  </select>
+                </label>
+              </div>
+
+              {isNewChapter && (
+                <div className="grid gap-4 sm:grid-cols-[8rem_1fr]">
+                  <label className="block space-y-1">
+                    <span className="text-sm font-medium">Number</span>
+                    <Input
+                      type="number"
+                      min={1}
+                      value={draft.chapterNumber}
+                      onChange={(e) => updateDraft('chapterNumber', Number(e.target.value))}
+                      className="bg-white/5 border-white/10"
+                    />
+                  </label>
+                  <label className="block space-y-1">
+                    <span className="text-sm font-medium">Chapter title</span>
+                    <Input
+                      value={draft.chapterTitle}
+                      onChange={(e) => updateDraft('chapterTitle', e.target.value)}
+                      className="bg-white/5 border-white/10"
+                    />
+                  </label>
+                </div>
+              )}
+
+              <div className="space-y-1">
+                <span className="text-sm font-medium">Difficulty</span>
+                <div className="flex rounded-lg border border-white/10 overflow-hidden text-xs w-fit">
+                  {DIFFICULTIES.map(difficulty => (
+                    <button
+                      key={difficulty}
+                      type="button"
+                      onClick={() => updateDraft('difficulty', difficulty)}
+                      className={cn(
+                        "px-3 py-1.5 transition-colors",
+                        draft.difficulty === difficulty ? "bg-primary/20 text-primary" : "bg-white/5 text-muted-foreground hover:bg-white/10"
+                      )}
+                    >
+                      {difficulty}
+                    </button>
+                  ))}
+                </div>
+              </div>
+
+              <div className="space-y-1">
+                <span className="text-sm font-medium">Type</span>
+                <div className="flex flex-wrap rounded-lg border border-white/10 overflow-hidden text-xs w-fit">
+                  {TYPES.map(type => (
+                    <button
+                      key={type}
+                      type="button"
+                      onClick={() => updateDraft('type', type)}
+                      className={cn(
+                        "px-3 py-1.5 capitalize transition-colors",
+                        draft.type === type ? "bg-primary/20 text-primary" : "bg-white/5 text-muted-foreground hover:bg-white/10"
+                      )}
+                    >
+                      {type}
+                    </button>
+                  ))}
+                </div>
+              </div>
+
+              <label className="block space-y-1">
+                <span className="text-sm font-medium">Tags</span>
+                <Input
+                  value={tagsText}
+                  onChange={(e) => setTagsText(e.target.value)}
+                  placeholder="airway, assessment, protocol"
+                  className="bg-white/5 border-white/10"
+                />
+                <span className="text-xs text-muted-foreground">Comma separated. The first tag is the card&apos;s main topic.</span>
+              </label>
+
+              {selectedId && (
+                <label className="flex items-start gap-2 text-sm">
+                  <input
+                    type="checkbox"
+                    checked={resetScheduling}
+                    onChange={(e) => setResetScheduling(e.target.checked)}
+                    className="mt-0.5 accent-primary"
+                  />
+                  <span>
+                    Reset learners&apos; scheduling
+                    <span className="block text-xs text-muted-foreground">
+                      Use for substantive changes, such as a guideline update. Everyone studies the card again as new.
+                    </span>
+                  </span>
+                </label>
+              )}
+
+              {status && (
+                <p className={cn("text-sm", status.error ? "text-red-300" : "text-emerald-300")}>{status.message}</p>
+              )}
+
+              <div className="flex justify-between gap-3 pt-2">
+                {selectedId ? (
+                  <Button variant="ghost" onClick={handleRetire} disabled={saving}>
+                    <Archive className="h-4 w-4 mr-2" />
+                    Retire
+                  </Button>
+                ) : <span />}
+                <Button onClick={handleSave} disabled={saving}>
+                  <Save className="h-4 w-4 mr-2" />
+                  {saving ? 'Saving...' : 'Save Card'}
+                </Button>
+              </div>
+            </CardContent>
+          </Card>
+        </div>
+
+        {/* Review */}
+        {selectedId && review && (
+          <Card className="glass-card mt-6">
+            <CardHeader>
+              <CardTitle className="flex items-center justify-between gap-3">
+                <span className="flex items-center gap-2">
+                  <ShieldCheck className="h-5 w-5" />
+                  Review
+                </span>
+                <Badge variant="outline" className={cn("text-xs", STATUS_CLASS[review.status])}>
+                  {CARD_STATUSES[review.status].name}
+                </Badge>
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <p className="text-sm text-muted-foreground">
+                {CARD_STATUSES[review.status].description}.
+                {review.requiredApprovals > 1 && ' Protocol and medication content needs sign-off from two reviewers before publishing.'}
+                {review.status === 'published' && ' Saving a content change returns the card to draft until it is reviewed again.'}
+              </p>
+
+              {review.status === 'in_review' && (
+                <>
+                  <p className="text-sm">
+                    {review.approvals.length} of {review.requiredApprovals} sign-off{review.requiredApprovals > 1 ? 's' : ''} on revision r{review.revision}
+                    {review.approvals.length > 0 && (
+                      <span className="text-muted-foreground">
+                        {' '}({review.approvals.map(approval => approval.reviewer ?? 'Unknown reviewer').join(', ')})
+                      </span>
+                    )}
+                  </p>
+                  <label className="block space-y-1">
+                    <span className="text-sm font-medium">Comment</span>
+                    <textarea
+                      value={reviewComment}
+                      onChange={(e) => setReviewComment(e.target.value)}
+                      rows={2}
+                      placeholder="Required when requesting changes"
+                      className={FIELD_CLASS}
+                    />
+                  </label>
+                </>
+              )}
+
+              <div className="flex flex-wrap gap-3">
+                {review.status === 'draft' && (
+                  <Button onClick={() => handleReviewAction('submit', 'Submitted for review')} disabled={saving}>
+                    <Send className="h-4 w-4 mr-2" />
+                    Submit for Review
+                  </Button>
+                )}
+                {review.status === 'in_review' && (
+                  <>
+                    <Button onClick={() => handleReviewAction('approve', 'Sign-off recorded')} disabled={saving}>
+                      <CheckCircle className="h-4 w-4 mr-2" />
+                      Approve
+                    </Button>
+                    <Button variant="outline" onClick={() => handleReviewAction('request_changes', 'Returned to draft with your comments')} disabled={saving}>
+                      <MessageSquare className="h-4 w-4 mr-2" />
+                      Request Changes
+                    </Button>
+                    <Button variant="ghost" onClick={() => handleReviewAction('withdraw', 'Withdrawn from review')} disabled={saving}>
+                      <Undo2 className="h-4 w-4 mr-2" />
+                      Withdraw
+                    </Button>
+                  </>
+                )}
+                {review.status === 'retired' && (
+                  <Button variant="outline" onClick={() => handleReviewAction('reopen', 'Reopened as a draft')} disabled={saving}>
+                    <RotateCcw className="h-4 w-4 mr-2" />
+                    Reopen as Draft
+                  </Button>
+                )}
+              </div>
+
+              {review.reviews.length > 0 && (
+                <div className="space-y-2">
+                  {review.reviews.map((entry, index) => (
+                    <div key={index} className="rounded-lg border border-white/10 bg-white/5 p-3 text-sm">
+                      <div className="flex flex-wrap items-center gap-2">
+                        <Badge
+                          variant="outline"
+                          className={cn("text-xs", entry.decision === 'approved' ? STATUS_CLASS.published : STATUS_CLASS.in_review)}
+                        >
+                          {entry.decision === 'approved' ? 'Approved' : 'Changes requested'}
+                        </Badge>
+                        <span className="text-muted-foreground">
+                          r{entry.revision} · {entry.reviewer ?? 'Unknown reviewer'} · {new Date(entry.createdAt).toLocaleString()}
+                        </span>
+                      </div>
+                      {entry.comment && <p className="mt-2 whitespace-pre-wrap">{entry.comment}</p>}
+                    </div>
+                  ))}
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        )}
+
+        {/* Revision History */}
+        {selectedId && (
+          <Card className="glass-card mt-6">
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <History className="h-5 w-5" />
+                History
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              {history.length === 0 ? (
+                <p className="text-sm text-muted-foreground">No revisions recorded yet. The first save records the card&apos;s original text.</p>
+              ) : (
+                history.map((entry, index) => (
+                  <div key={entry.revision} className="rounded-lg border border-white/10 bg-white/5 p-3 space-y-2">
+                    <div className="flex flex-wrap items-center justify-between gap-2">
+                      <div className="flex flex-wrap items-center gap-2 text-sm">
+                        <Badge variant="outline" className="bg-white/5 border-white/20 font-mono text-xs">
+                          r{entry.revision}
+                        </Badge>
+                        <span className="font-medium capitalize">{entry.action}</span>
+                        <span className="text-muted-foreground">
+                          {entry.author ?? 'Unknown author'} · {new Date(entry.createdAt).toLocaleString()}
+                        </span>
+                        {entry.resetScheduling && (
+                          <Badge variant="outline" className="bg-yellow-500/10 border-yellow-500/30 text-yellow-300 text-xs">
+                            Scheduling reset
+                          </Badge>
+                        )}
+                      </div>
+                      {index > 0 && (
+                        <Button size="sm" variant="ghost" onClick={() => handleRevert(entry.revision)} disabled={saving}>
+                          <RotateCcw className="h-4 w-4 mr-2" />
+                          Revert to this
+                        </Button>
+                      )}
+                    </div>
+                    {entry.changes.length > 0 && (
+                      <dl className="space-y-1 text-xs">
+                        {entry.changes.map(change => (
+                          <div key={change.field} className="grid gap-2 sm:grid-cols-[6rem_1fr]">
+                            <dt className="text-muted-foreground">{FIELD_LABELS[change.field]}</dt>
+                            <dd className="space-y-0.5">
+                              <p className="text-red-300 line-through whitespace-pre-wrap">{formatChangeValue(change.field, change.before)}</p>
+                              <p className="text-emerald-300 whitespace-pre-wrap">{formatChangeValue(change.field, change.after)}</p>
+                            </dd>
+                          </div>
+                        ))}
+                      </dl>
+                    )}
+                  </div>
+                ))
+              )}
+            </CardContent>
+          </Card>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,309 @@
+'use client'
+
+import { useEffect, useMemo, useState } from 'react'
+import { createPortal } from 'react-dom'
+import { useRouter } from 'next/navigation'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { MedicalDisclaimerBanner } from '@/components/ui/medical-disclaimer-banner'
+import { ArrowLeft, Download, Lock, Printer } from 'lucide-react'
+import { getAllLocalFlashcards } from '@/lib/local-flashcards'
+import { progressStorage } from '@/lib/progress-storage'
+import { validateLicense } from '@/lib/license'
+import {
+  assertCanExport,
+  cardFront,
+  downloadFile,
+  EMPTY_EXPORT_FILTER,
+  EXPORT_FEATURE,
+  EXPORT_FORMATS,
+  exportFilename,
+  filterExportCards,
+  toAnkiPackage,
+  toCSV,
+  toPrintSheets,
+  type ExportFilter,
+  type ExportFormat,
+  type ExportProgress
+} from '@/lib/deck-export'
+import type { FlashcardData } from '@/components/flashcard/Flashcard'
+import { cn } from '@/lib/utils'
+
+const CHIP_CLASS = 'px-3 py-1.5 rounded-md text-sm transition-colors'
+const CHIP_ON = 'bg-primary/20 text-primary'
+const CHIP_OFF = 'bg-white/5 text-muted-foreground hover:bg-white/10'
+
+const DECK_NAME = 'ChapterFlashEMT'
+
+// Add the value when missing, remove it when present
+function toggle<T>(values: T[], value: T): T[] {
+  return values.includes(value) ? values.filter(v => v !== value) : [...values, value]
+}
+
+function PrintCard({ card, side }: { card: FlashcardData | null; side: 'front' | 'back' }) {
+  if (!card) return <div className="print-card" />
+  return (
+    <div className="print-card">
+      <p className="print-card-text">{side === 'front' ? cardFront(card) : card.answer}</p>
+      {side === 'front' && card.chapterNumber !== undefined && (
+        <p className="print-card-meta">Ch. {card.chapterNumber} · {card.difficulty}</p>
+      )}
+    </div>
+  )
+}
+
+export default function ExportPage() {
+  const router = useRouter()
+  const deck = useMemo(() => getAllLocalFlashcards(), [])
+  const [progress, setProgress] = useState<ExportProgress | null>(null)
+  const [licenseEmail, setLicenseEmail] = useState<string | null>(null)
+  const [canExport, setCanExport] = useState<boolean | null>(null)
+  const [filter, setFilter] = useState<ExportFilter>(EMPTY_EXPORT_FILTER)
+  const [tagsText, setTagsText] = useState('')
+  const [format, setFormat] = useState<ExportFormat>('csv')
+  const [busy, setBusy] = useState(false)
+  const [status, setStatus] = useState<{ message: string; error: boolean } | null>(null)
+
+  useEffect(() => {
+    let cancelled = false
+
+    Promise.all([progressStorage.getStarredCards(), progressStorage.getAllCardProgress()])
+      .then(([starred, allProgress]) => {
+        if (cancelled) return
+        setProgress({
+          starredIds: new Set(starred.map(({ cardId }) => cardId)),
+          progressById: new Map(allProgress.map(p => [p.cardId, p]))
+        })
+      })
+      .catch(error => console.error('Failed to load progress:', error))
+
+    validateLicense()
+      .then(result => {
+        if (cancelled) return
+        setCanExport(result.valid && !!result.license?.features.includes(EXPORT_FEATURE))
+        setLicenseEmail(result.license?.email ?? null)
+      })
+      .catch(() => {
+        if (!cancelled) setCanExport(false)
+      })
+
+    return () => {
+      cancelled = true
+    }
+  }, [deck])
+
+  const chapters = useMemo(() => {
+    const titles = new Map<number, string>()
+    deck.forEach(card => {
+      if (card.chapterNumber !== undefined) titles.set(card.chapterNumber, card.chapterTitle ?? '')
+    })
+    return [...titles].sort(([a], [b]) => a - b).map(([number, title]) => ({ number, title }))
+  }, [deck])
+
+  const difficulties = useMemo(() => [...new Set(deck.map(card => card.difficulty))], [deck])
+
+  const cards = useMemo(
+    () => progress ? filterExportCards(deck, filter, progress) : [],
+    [deck, filter, progress]
+  )
+
+  const sheets = useMemo(() => format === 'print' ? toPrintSheets(cards) : [], [cards, format])
+
+  const runExport = async () => {
+    setStatus(null)
+    setBusy(true)
+    try {
+      assertCanExport()
+      if (format === 'print') {
+        window.print()
+        return
+      }
+      if (format === 'anki') {
+        downloadFile(await toAnkiPackage(cards, DECK_NAME), 'application/octet-stream', exportFilename('anki'))
+      } else {
+        downloadFile(toCSV(cards), 'text/csv;charset=utf-8', exportFilename('csv'))
+      }
+      setStatus({ message: `Exported ${cards.length} cards.`, error: false })
+    } catch (error) {
+      setStatus({ message: error instanceof Error ? error.message : 'Failed to export deck', error: true })
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-900 via-slate-800 to-slate-900">
+      <div className="max-w-4xl mx-auto px-4 py-8">
+        {/* Medical Disclaimer */}
+        <MedicalDisclaimerBanner variant="compact" className="mb-8 rounded-xl" />
+
+        {/* Header */}
+        <div className="text-center mb-12">
+          <div className="inline-flex items-center gap-2 rounded-full border border-white/15 bg-white/5 px-4 py-1 text-xs uppercase tracking-wider text-muted-foreground mb-4">
+            <Download className="h-3 w-3" />
+            <span className="text-primary">Deck Export</span>
+          </div>
+          <h1 className="text-4xl font-bold bg-gradient-to-r from-white to-white/80 bg-clip-text text-transparent mb-4">
+            Export a Deck
+          </h1>
+          <p className="text-muted-foreground text-lg max-w-2xl mx-auto">
+            Take any part of the deck with you as a spreadsheet, an Anki package, or printed flashcards.
+          </p>
+          <div className="flex justify-center gap-3 mt-6">
+            <Button variant="outline" onClick={() => router.push('/browse')}>
+              <ArrowLeft className="h-4 w-4 mr-2" />
+              Browse Chapters
+            </Button>
+          </div>
+        </div>
+
+        {canExport === false ? (
+          <Card className="glass-card">
+            <CardContent className="p-8 text-center">
+              <Lock className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
+              <h2 className="text-xl font-semibold mb-2">Export is not included in your license</h2>
+              <p className="text-muted-foreground">Activate a license with data export to download or print decks.</p>
+            </CardContent>
+          </Card>
+        ) : (
+          <>
+            {/* Filters */}
+            <Card className="glass-card mb-6">
+              <CardHeader>
+                <CardTitle>Cards</CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-5">
+                <div className="space-y-2">
+                  <div className="flex items-center justify-between">
+                    <span className="text-sm font-medium">Chapters</span>
+                    {filter.chapters.length > 0 && (
+                      <button
+                        className="text-xs text-muted-foreground hover:text-white"
+                        onClick={() => setFilter(prev => ({ ...prev, chapters: [] }))}
+                      >
+                        All chapters
+                      </button>
+                    )}
+                  </div>
+                  <div className="flex flex-wrap gap-2">
+                    {chapters.map(chapter => (
+                      <button
+                        key={chapter.number}
+                        title={chapter.title}
+                        onClick={() => setFilter(prev => ({ ...prev, chapters: toggle(prev.chapters, chapter.number) }))}
+                        className={cn(CHIP_CLASS, filter.chapters.includes(chapter.number) ? CHIP_ON : CHIP_OFF)}
+                      >
+                        {chapter.number}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+
+                <div className="space-y-2">
+                  <span className="text-sm font-medium">Difficulty</span>
+                  <div className="flex flex-wrap gap-2">
+                    {difficulties.map(difficulty => (
+                      <button
+                        key={difficulty}
+                        onClick={() => setFilter(prev => ({ ...prev, difficulties: toggle(prev.difficulties, difficulty) }))}
+                        className={cn(CHIP_CLASS, filter.difficulties.includes(difficulty) ? CHIP_ON : CHIP_OFF)}
+                      >
+                        {difficulty}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+
+                <label className="block space-y-1">
+                  <span className="text-sm font-medium">Tags</span>
+                  <Input
+                    value={tagsText}
+                    onChange={(e) => {
+                      setTagsText(e.target.value)
+                      setFilter(prev => ({
+                        ...prev,
+                        tags: e.target.value.split(',').map(tag => tag.trim()).filter(Boolean)
+                      }))
+                    }}
+                    placeholder="cardiology, pediatric"
+                    className="bg-white/5 border-white/10"
+                  />
+                  <span className="text-xs text-muted-foreground">Comma separated; cards with any of these tags.</span>
+                </label>
+
+                <div className="flex flex-wrap gap-2">
+                  <button
+                    onClick={() => setFilter(prev => ({ ...prev, starredOnly: !prev.starredOnly }))}
+                    className={cn(CHIP_CLASS, filter.starredOnly ? CHIP_ON : CHIP_OFF)}
+                  >
+                    Starred only
+                  </button>
+                  <button
+                    onClick={() => setFilter(prev => ({ ...prev, weakAreasOnly: !prev.weakAreasOnly }))}
+                    className={cn(CHIP_CLASS, filter.weakAreasOnly ? CHIP_ON : CHIP_OFF)}
+                  >
+                    Weak areas only
+                  </button>
+                </div>
+              </CardContent>
+            </Card>
+
+            {/* Format */}
+            <Card className="glass-card">
+              <CardHeader>
+                <CardTitle>Format</CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <div className="flex flex-wrap gap-2">
+                  {(Object.keys(EXPORT_FORMATS) as ExportFormat[]).map(id => (
+                    <button
+                      key={id}
+                      onClick={() => {
+                        setFormat(id)
+                        setStatus(null)
+                      }}
+                      className={cn(CHIP_CLASS, format === id ? CHIP_ON : CHIP_OFF)}
+                    >
+                      {EXPORT_FORMATS[id].name}
+                    </button>
+                  ))}
+                </div>
+                <p className="text-sm text-muted-foreground">{EXPORT_FORMATS[format].description}</p>
+
+                {status && (
+                  <p className={cn("text-sm", status.error ? "text-red-300" : "text-emerald-300")}>{status.message}</p>
+                )}
+
+                <div className="flex items-center justify-between gap-3 pt-2">
+                  <span className="text-sm text-muted-foreground">
+                    {progress ? `${cards.length} of ${deck.length} cards match` : 'Loading your progress...'}
+                  </span>
+                  <Button onClick={runExport} disabled={!progress || !canExport || cards.length === 0 || busy}>
+                    {format === 'print' ? <Printer className="h-4 w-4 mr-2" /> : <Download className="h-4 w-4 mr-2" />}
+                    {format === 'print' ? `Print ${sheets.length} Sheets` : `Export ${cards.length} Cards`}
+                  </Button>
+                </div>
+              </CardContent>
+            </Card>
+          </>
+        )}
+      </div>
+
+      {/* Only the sheets are printed; see .print-sheets in globals.css */}
+      {progress && canExport && format === 'print' && createPortal(
+        <div className="print-sheets">
+          {sheets.flatMap((sheet, index) => (['front', 'back'] as const).map(side => (
+            <div key={`${index}-${side}`} className="print-page">
+              {(side === 'front' ? sheet.fronts : sheet.backs).map((card, slot) => (
+                <PrintCard key={slot} card={card} side={side} />
+              ))}
+              {licenseEmail && <p className="print-page-footer">Licensed to {licenseEmail}</p>}
+            </div>
+          )))}
+        </div>,
+        document.body
+      )}
+    </div>
+  )
+}
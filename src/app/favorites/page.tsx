@@ -0,0 +1,139 @@
+'use client'
+
+import { useEffect, useMemo, useState } from 'react'
+import Link from 'next/link'
+import { Card, CardContent } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { Progress } from '@/components/ui/progress'
+import { MedicalDisclaimerBanner } from '@/components/ui/medical-disclaimer-banner'
+import { Star, Play } from 'lucide-react'
+import { getAllLocalFlashcards } from '@/lib/local-flashcards'
+import { progressStorage, type CardProgress } from '@/lib/progress-storage'
+import type { FlashcardData } from '@/components/flashcard/Flashcard'
+
+interface FavoriteCard {
+  card: FlashcardData
+  progress: CardProgress | null
+}
+
+export default function FavoritesPage() {
+  const deck = useMemo(() => getAllLocalFlashcards(), [])
+  const [favorites, setFavorites] = useState<FavoriteCard[]>([])
+  const [loading, setLoading] = useState(true)
+
+  useEffect(() => {
+    let cancelled = false
+    const cardsById = new Map(deck.map(card => [card.id, card]))
+
+    Promise.all([progressStorage.getStarredCards(), progressStorage.getAllCardProgress()])
+      .then(([starred, allProgress]) => {
+        if (cancelled) return
+        const progressById = new Map(allProgress.map(progress => [progress.cardId, progress]))
+        setFavorites(starred.flatMap(({ cardId }) => {
+          const card = cardsById.get(cardId)
+          return card ? [{ card, progress: progressById.get(cardId) ?? null }] : []
+        }))
+      })
+      .catch(error => console.error('Failed to load favorites:', error))
+      .finally(() => {
+        if (!cancelled) setLoading(false)
+      })
+
+    return () => {
+      cancelled = true
+    }
+  }, [deck])
+
+  const handleUnstar = async (cardId: string) => {
+    try {
+      await progressStorage.unstarCard(cardId)
+      setFavorites(prev => prev.filter(favorite => favorite.card.id !== cardId))
+    } catch (error) {
+      console.error('Failed to update favorites:', error)
+    }
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-900 via-slate-800 to-slate-900">
+      <div className="max-w-4xl mx-auto px-4 py-8">
+        {/* Medical Disclaimer */}
+        <MedicalDisclaimerBanner variant="compact" className="mb-8 rounded-xl" />
+
+        {/* Header */}
+        <div className="text-center mb-12">
+          <div className="inline-flex items-center gap-2 rounded-full border border-white/15 bg-white/5 px-4 py-1 text-xs uppercase tracking-wider text-muted-foreground mb-4">
+            <Star className="h-3 w-3" />
+            <span className="text-primary">Favorites</span>
+          </div>
+          <h1 className="text-4xl font-bold bg-gradient-to-r from-white to-white/80 bg-clip-text text-transparent mb-4">
+            Starred Cards
+          </h1>
+          <p className="text-muted-foreground text-lg max-w-2xl mx-auto">
+            Cards you starred while studying. Review them together from the Favorites mode.
+          </p>
+          {favorites.length > 0 && (
+            <Link href="/study">
+              <Button className="mt-6">
+                <Play className="h-4 w-4 mr-2" />
+                Study Favorites
+              </Button>
+            </Link>
+          )}
+        </div>
+
+        {loading ? (
+          <div className="text-center py-12">
+            <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary mx-auto mb-4"></div>
+            <p className="text-muted-foreground">Loading favorites...</p>
+          </div>
+        ) : favorites.length === 0 ? (
+          <Card className="glass-card">
+            <CardContent className="p-8 text-center">
+              <Star className="h-12 w-12 text-yellow-300 mx-auto mb-4" />
+              <h2 className="text-xl font-semibold mb-2">No starred cards yet</h2>
+              <p className="text-muted-foreground">Tap the star on any card during a study session to save it here.</p>
+            </CardContent>
+          </Card>
+        ) : (
+          <div className="space-y-3">
+            {favorites.map(({ card, progress }) => (
+              <Card key={card.id} className="glass-card">
+                <CardContent className="p-4">
+                  <div className="flex items-start justify-between gap-4">
+                    <div className="space-y-2 min-w-0 flex-1">
+                      <div className="flex flex-wrap gap-2">
+                        <Badge variant="secondary" className="text-xs bg-white/10 border-white/20 text-white">
+                          {card.chapterNumber ? `Ch. ${card.chapterNumber}` : 'Other'}
+                        </Badge>
+                        {card.chapterTitle && (
+                          <span className="text-xs text-muted-foreground">{card.chapterTitle}</span>
+                        )}
+                      </div>
+                      <p className="font-medium">{card.question}</p>
+                      <p className="text-sm text-muted-foreground line-clamp-2">{card.answer}</p>
+                      <div className="flex items-center gap-3 pt-1">
+                        <Progress value={progress?.masteryLevel ?? 0} className="h-1.5 max-w-48" />
+                        <span className="text-xs text-muted-foreground">
+                          {progress ? `${Math.round(progress.masteryLevel)}% mastery` : 'Not studied yet'}
+                        </span>
+                      </div>
+                    </div>
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      onClick={() => handleUnstar(card.id)}
+                      title="Remove from favorites"
+                    >
+                      <Star className="h-4 w-4 fill-yellow-300 text-yellow-300" />
+                    </Button>
+                  </div>
+                </CardContent>
+              </Card>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
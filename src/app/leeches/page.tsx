@@ -0,0 +1,146 @@
+'use client'
+
+import { useEffect, useMemo, useState } from 'react'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { MedicalDisclaimerBanner } from '@/components/ui/medical-disclaimer-banner'
+import { Bug, PlayCircle, RotateCcw, CheckCircle2 } from 'lucide-react'
+import { getAllLocalFlashcards } from '@/lib/local-flashcards'
+import { getLeechGroups, reactivateCard, resetCard } from '@/lib/review-queue'
+import type { LeechGroup } from '@/lib/leeches'
+import { useUserSettings } from '@/hooks/useUserSettings'
+
+export default function LeechesPage() {
+  const settings = useUserSettings()
+  const deck = useMemo(() => getAllLocalFlashcards(), [])
+  const [groups, setGroups] = useState<LeechGroup[]>([])
+  const [loading, setLoading] = useState(true)
+  const [busyCardId, setBusyCardId] = useState<string | null>(null)
+  const leechCount = groups.reduce((sum, group) => sum + group.cards.length, 0)
+
+  useEffect(() => {
+    let cancelled = false
+
+    getLeechGroups(deck)
+      .then(loaded => {
+        if (!cancelled) setGroups(loaded)
+      })
+      .catch(error => console.error('Failed to load leeches:', error))
+      .finally(() => {
+        if (!cancelled) setLoading(false)
+      })
+
+    return () => {
+      cancelled = true
+    }
+  }, [deck])
+
+  const handleAction = async (cardId: string, action: (cardId: string) => Promise<unknown>) => {
+    setBusyCardId(cardId)
+    try {
+      await action(cardId)
+      setGroups(await getLeechGroups(deck))
+    } catch (error) {
+      console.error('Failed to update leech:', error)
+    } finally {
+      setBusyCardId(null)
+    }
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-900 via-slate-800 to-slate-900">
+      <div className="max-w-4xl mx-auto px-4 py-8">
+        {/* Medical Disclaimer */}
+        <MedicalDisclaimerBanner variant="compact" className="mb-8 rounded-xl" />
+
+        {/* Header */}
+        <div className="text-center mb-12">
+          <div className="inline-flex items-center gap-2 rounded-full border border-white/15 bg-white/5 px-4 py-1 text-xs uppercase tracking-wider text-muted-foreground mb-4">
+            <Bug className="h-3 w-3" />
+            <span className="text-primary">Leeches</span>
+          </div>
+          <h1 className="text-4xl font-bold bg-gradient-to-r from-white to-white/80 bg-clip-text text-transparent mb-4">
+            Chronically Failed Cards
+          </h1>
+          <p className="text-muted-foreground text-lg max-w-2xl mx-auto">
+            Cards you have failed {settings.leechThreshold} or more times after learning them.
+            Rework them, then reactivate them or start them over.
+          </p>
+        </div>
+
+        {loading ? (
+          <div className="text-center py-12">
+            <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary mx-auto mb-4"></div>
+            <p className="text-muted-foreground">Loading leeches...</p>
+          </div>
+        ) : leechCount === 0 ? (
+          <Card className="glass-card">
+            <CardContent className="p-8 text-center">
+              <CheckCircle2 className="h-12 w-12 text-emerald-400 mx-auto mb-4" />
+              <h2 className="text-xl font-semibold mb-2">No leeches</h2>
+              <p className="text-muted-foreground">Nothing in your deck keeps slipping away. Keep it up!</p>
+            </CardContent>
+          </Card>
+        ) : (
+          <div className="space-y-6">
+            {groups.map(group => (
+              <Card key={group.chapterNumber ?? 'other'} className="glass-card">
+                <CardHeader>
+                  <CardTitle className="flex items-center justify-between gap-3">
+                    <span>{group.chapterTitle}</span>
+                    <Badge variant="outline" className="bg-white/5 border-white/20">
+                      {group.cards.length} leech{group.cards.length === 1 ? '' : 'es'}
+                    </Badge>
+                  </CardTitle>
+                </CardHeader>
+                <CardContent className="space-y-3">
+                  {group.cards.map(({ card, progress }) => (
+                    <div key={card.id} className="rounded-xl border border-white/10 bg-white/5 p-4">
+                      <div className="flex flex-col sm:flex-row sm:items-start justify-between gap-4">
+                        <div className="space-y-1">
+                          <p className="font-medium">{card.question}</p>
+                          <p className="text-sm text-muted-foreground line-clamp-2">{card.answer}</p>
+                          <div className="flex flex-wrap gap-2 pt-1">
+                            <Badge variant="outline" className="bg-red-500/20 border-red-500/40 text-red-200">
+                              {progress.lapses ?? 0} lapses
+                            </Badge>
+                            {progress.suspended && (
+                              <Badge variant="outline" className="bg-white/5 border-white/20">
+                                Suspended
+                              </Badge>
+                            )}
+                          </div>
+                        </div>
+                        <div className="flex gap-2 shrink-0">
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            disabled={busyCardId === card.id}
+                            onClick={() => handleAction(card.id, reactivateCard)}
+                          >
+                            <PlayCircle className="h-4 w-4 mr-2" />
+                            Reactivate
+                          </Button>
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            disabled={busyCardId === card.id}
+                            onClick={() => handleAction(card.id, resetCard)}
+                          >
+                            <RotateCcw className="h-4 w-4 mr-2" />
+                            Reset
+                          </Button>
+                        </div>
+                      </div>
+                    </div>
+                  ))}
+                </CardContent>
+              </Card>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -1,17 +1,61 @@
 'use client'
 
-import { useEffect, useState } from 'react'
+import { useEffect, useMemo, useState } from 'react'
+import Link from 'next/link'
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
 import { MedicalDisclaimerBanner } from '@/components/ui/medical-disclaimer-banner'
-import { BarChart3, TrendingUp, Target, BookOpen, Clock, Flame, Award, Activity, Zap, Download, Upload } from 'lucide-react'
-import { progressStorage, type ProgressStats, type ChapterProgress, type DailyStreak } from '@/lib/progress-storage'
+import { BarChart3, TrendingUp, Target, BookOpen, Clock, Flame, Award, Activity, Zap, Download, Upload, RefreshCw, CalendarDays, LineChart } from 'lucide-react'
+import { progressStorage, type ProgressStats, type ChapterProgress, type DailyStreak, type CardProgress } from '@/lib/progress-storage'
 import { Button } from '@/components/ui/button'
+import { getLastSyncTime, syncProgress } from '@/lib/progress-sync'
+import { getAllLocalFlashcards } from '@/lib/local-flashcards'
+import { buildDailyPlan, daysUntilExam, parseExamDate } from '@/lib/exam-plan'
+import { buildReviewForecast, FORECAST_RANGES } from '@/lib/review-forecast'
+import { ReviewForecastChart } from '@/components/progress/ReviewForecastChart'
+import { Input } from '@/components/ui/input'
+import { useUserSettings } from '@/hooks/useUserSettings'
+import { cn } from '@/lib/utils'
+
+// Days of the exam plan listed on the page
+const PLAN_PREVIEW_DAYS = 14
 
 export default function ProgressPage() {
   const [stats, setStats] = useState<ProgressStats | null>(null)
   const [chapterProgress, setChapterProgress] = useState<ChapterProgress[]>([])
   const [recentStreaks, setRecentStreaks] = useState<DailyStreak[]>([])
   const [loading, setLoading] = useState(true)
+  const [syncing, setSyncing] = useState(false)
+  const [syncMessage, setSyncMessage] = useState<string | null>(null)
+  const [lastSync, setLastSync] = useState<number | null>(null)
+  const [cardProgress, setCardProgress] = useState<CardProgress[]>([])
+  const [forecastDays, setForecastDays] = useState<number>(FORECAST_RANGES[0])
+  const [whatIfNewCards, setWhatIfNewCards] = useState(0)
+  const settings = useUserSettings()
+  const deck = useMemo(() => getAllLocalFlashcards(), [])
+  const plan = useMemo(
+    () => buildDailyPlan(deck, cardProgress, settings),
+    [deck, cardProgress, settings]
+  )
+  const forecast = useMemo(() => {
+    const studied = cardProgress.filter(progress => progress.timesStudied > 0)
+    return buildReviewForecast(
+      studied.filter(progress => !progress.suspended).map(progress => ({
+        nextReview: progress.nextReview,
+        interval: progress.interval ?? 1,
+        easeFactor: progress.easeFactor ?? 0
+      })),
+      {
+        days: forecastDays,
+        newCardsPerDay: whatIfNewCards,
+        unseenCards: Math.max(0, deck.length - studied.length),
+        graduatingInterval: settings.graduatingInterval
+      }
+    )
+  }, [cardProgress, deck, forecastDays, whatIfNewCards, settings.graduatingInterval])
+  const forecastTotal = forecast.reduce((sum, day) => sum + day.reviews + day.newCardReviews, 0)
+  const forecastPeak = Math.max(0, ...forecast.map(day => day.reviews + day.newCardReviews))
+  const examDay = settings.examDate ? parseExamDate(settings.examDate) : null
+  const daysLeft = settings.examDate ? daysUntilExam(settings.examDate) : null
 
   useEffect(() => {
     loadProgressData()
@@ -20,15 +64,18 @@ export default function ProgressPage() {
   const loadProgressData = async () => {
     try {
       await progressStorage.init()
-      const [statsData, chaptersData, streaksData] = await Promise.all([
+      const [statsData, chaptersData, streaksData, cardData] = await Promise.all([
         progressStorage.getProgressStats(),
         progressStorage.getAllChapterProgress(),
-        progressStorage.getDailyStreaks(7)
+        progressStorage.getDailyStreaks(7),
+        progressStorage.getAllCardProgress()
       ])
       
       setStats(statsData)
       setChapterProgress(chaptersData)
       setRecentStreaks(streaksData)
+      setCardProgress(cardData)
+      setLastSync(getLastSyncTime())
     } catch (error) {
       console.error('Failed to load progress data:', error)
     } finally {
@@ -69,6 +116,25 @@ export default function ProgressPage() {
     }
   }
 
+  const handleSync = async () => {
+    setSyncing(true)
+    setSyncMessage(null)
+    try {
+      const summary = await syncProgress()
+      setSyncMessage(
+        `Uploaded ${summary.pushed} card${summary.pushed === 1 ? '' : 's'}, ` +
+        `received ${summary.pulledCards} card${summary.pulledCards === 1 ? '' : 's'} and ` +
+        `${summary.pulledSessions} session${summary.pulledSessions === 1 ? '' : 's'}`
+      )
+      await loadProgressData()
+    } catch (error) {
+      console.error('Failed to sync progress:', error)
+      setSyncMessage(error instanceof Error ? error.message : 'Failed to sync progress')
+    } finally {
+      setSyncing(false)
+    }
+  }
+
   if (loading) {
     return (
       <div className="min-h-screen bg-gradient-to-br from-slate-900 via-slate-800 to-slate-900 flex items-center justify-center">
@@ -152,6 +218,101 @@ export default function ProgressPage() {
           </Card>
         </div>
 
+        <Card className="bg-white/5 border-white/10 backdrop-blur-sm mb-8">
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2 text-white">
+              <CalendarDays className="h-5 w-5 text-cyan-400" />
+              Exam Plan
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            {!examDay || daysLeft === null ? (
+              <p className="text-sm text-white/60">
+                Set your NREMT date in <Link href="/settings" className="text-cyan-400 hover:underline">Settings</Link> to
+                get a day-by-day plan that covers every chapter before the exam.
+              </p>
+            ) : daysLeft <= 0 ? (
+              <p className="text-sm text-white/60">
+                {daysLeft === 0 ? 'Your exam is today - good luck!' : `Your exam date (${examDay.toLocaleDateString()}) has passed.`}
+              </p>
+            ) : (
+              <div className="space-y-4">
+                <p className="text-sm text-white/60">
+                  <strong className="text-white/80">{daysLeft} day{daysLeft === 1 ? '' : 's'}</strong> until your exam on {examDay.toLocaleDateString()}.
+                  {' '}{plan.reduce((sum, day) => sum + day.newCards, 0)} new cards left to introduce.
+                </p>
+                <div className="space-y-2">
+                  {plan.slice(0, PLAN_PREVIEW_DAYS).map((day, index) => (
+                    <div key={day.date} className="flex items-center justify-between gap-4 text-sm py-1 border-b border-white/5 last:border-0">
+                      <span className="w-32 text-white/80">
+                        {index === 0 ? 'Today' : new Date(day.date).toLocaleDateString(undefined, { weekday: 'short', month: 'short', day: 'numeric' })}
+                      </span>
+                      <span className="flex-1 text-blue-300">{day.newCards} new</span>
+                      <span className={cn(
+                        "flex-1 text-right",
+                        day.reviews > settings.maxReviewsPerDay ? "text-orange-400" : "text-emerald-300"
+                      )}>
+                        {day.reviews} review{day.reviews === 1 ? '' : 's'}
+                      </span>
+                    </div>
+                  ))}
+                </div>
+                {plan.length > PLAN_PREVIEW_DAYS && (
+                  <p className="text-xs text-white/50">Showing the next {PLAN_PREVIEW_DAYS} of {plan.length} days.</p>
+                )}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
+        <Card className="bg-white/5 border-white/10 backdrop-blur-sm mb-8">
+          <CardHeader>
+            <CardTitle className="flex flex-wrap items-center justify-between gap-3 text-white">
+              <span className="flex items-center gap-2">
+                <LineChart className="h-5 w-5 text-emerald-400" />
+                Review Forecast
+              </span>
+              <span className="flex gap-2">
+                {FORECAST_RANGES.map(range => (
+                  <Button
+                    key={range}
+                    size="sm"
+                    variant={forecastDays === range ? 'default' : 'outline'}
+                    onClick={() => setForecastDays(range)}
+                  >
+                    {range} days
+                  </Button>
+                ))}
+              </span>
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <ReviewForecastChart forecast={forecast} maxReviewsPerDay={settings.maxReviewsPerDay} />
+            <div className="flex flex-wrap items-center justify-between gap-4 text-sm">
+              <p className="text-white/60">
+                <strong className="text-white/80">{forecastTotal}</strong> reviews over {forecastDays} days,
+                peaking at <strong className="text-white/80">{forecastPeak}</strong> in a day.
+              </p>
+              <label className="flex items-center gap-2 text-white/60">
+                What if I add
+                <Input
+                  type="number"
+                  min={0}
+                  max={100}
+                  value={whatIfNewCards}
+                  onChange={(event) => setWhatIfNewCards(Math.min(100, Math.max(0, Number(event.target.value) || 0)))}
+                  className="w-20 bg-white/5 border-white/10 text-right"
+                />
+                new cards per day?
+              </label>
+            </div>
+            <p className="text-xs text-white/50">
+              Green bars are reviews already scheduled, blue bars come from the new cards above, and orange marks days over your limit of {settings.maxReviewsPerDay}.
+              {' '}Suspended <Link href="/leeches" className="text-cyan-400 hover:underline">leeches</Link> are left out until you reactivate them.
+            </p>
+          </CardContent>
+        </Card>
+
         <Card className="bg-white/5 border-white/10 backdrop-blur-sm">
           <CardHeader>
             <CardTitle className="flex items-center gap-2 text-white">
@@ -174,7 +335,16 @@ export default function ProgressPage() {
                 Import Backup
               </Button>
               <input id="import-file" type="file" accept=".json" onChange={handleImportData} className="hidden" />
+              <Button onClick={handleSync} disabled={syncing} className="bg-purple-500/20 border border-purple-500/30 text-purple-300 hover:bg-purple-500/30">
+                <RefreshCw className={`h-4 w-4 mr-2 ${syncing ? 'animate-spin' : ''}`} />
+                {syncing ? 'Syncing...' : 'Sync Devices'}
+              </Button>
             </div>
+            <p className="text-xs text-white/50 mt-3">
+              {syncMessage ?? (lastSync
+                ? `Last synced ${new Date(lastSync).toLocaleString()}`
+                : 'Sync keeps your progress in step between your phone and laptop.')}
+            </p>
           </CardContent>
         </Card>
       </div>
@@ -1,16 +1,138 @@
 'use client'
 
+import { useEffect, useState } from 'react'
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
 import { MedicalDisclaimerBanner } from '@/components/ui/medical-disclaimer-banner'
-import { Settings, Palette, Volume2, Bell, Shield, Monitor } from 'lucide-react'
+import { Settings, Target, Brain, Monitor, Save, RotateCcw } from 'lucide-react'
+import { useUserSettings } from '@/hooks/useUserSettings'
+import {
+  DEFAULT_USER_SETTINGS,
+  SETTING_LIMITS,
+  pullUserSettings,
+  saveUserSettings,
+  type UserSettings
+} from '@/lib/user-settings'
+import { SCHEDULER_PRESETS, type SchedulerPresetId } from '@/lib/scheduler-config'
+import { SCHEDULER_ALGORITHMS, type SchedulerAlgorithm } from '@/lib/scheduler'
+import { LEECH_ACTIONS, type LeechAction } from '@/lib/leeches'
+import { cn } from '@/lib/utils'
+
+type NumberField = keyof typeof SETTING_LIMITS
+type ToggleField = 'showDifficulty' | 'showProgress' | 'animationEnabled'
+
+const STUDY_FIELDS: { key: NumberField; label: string; hint: string }[] = [
+  { key: 'dailyGoal', label: 'Daily goal', hint: 'Cards per custom drill session' },
+  { key: 'newCardsPerDay', label: 'New cards per day', hint: 'Unseen cards added to Due Today' },
+  { key: 'maxReviewsPerDay', label: 'Maximum reviews per day', hint: 'Cap on scheduled reviews in Due Today' }
+]
+
+const SCHEDULING_FIELDS: { key: NumberField; label: string; hint: string }[] = [
+  { key: 'graduatingInterval', label: 'Graduating interval (days)', hint: 'Gap after the second successful review' },
+  { key: 'easyBonus', label: 'Easy bonus', hint: 'Multiplies the interval when you answer Easy' },
+  { key: 'hardFactor', label: 'Hard factor', hint: 'Divides the interval when you answer Hard' },
+  { key: 'leechThreshold', label: 'Leech threshold', hint: 'Times a learned card can be failed before it is tagged as a leech' }
+]
+
+const DISPLAY_FIELDS: { key: ToggleField; label: string; hint: string }[] = [
+  { key: 'showDifficulty', label: 'Show difficulty badge', hint: 'Basic / Intermediate / Advanced on each card' },
+  { key: 'showProgress', label: 'Show session progress', hint: 'Progress bar while studying' },
+  { key: 'animationEnabled', label: 'Animations', hint: 'Card flip and motion effects' }
+]
 
 export default function SettingsPage() {
+  const settings = useUserSettings()
+  const [draft, setDraft] = useState<Partial<UserSettings>>({})
+  const [saving, setSaving] = useState(false)
+  const [status, setStatus] = useState<string | null>(null)
+  const current = { ...settings, ...draft }
+  const hasChanges = Object.keys(draft).length > 0
+
+  // Adopt settings saved on another device
+  useEffect(() => {
+    pullUserSettings()
+  }, [])
+
+  const updateField = <K extends keyof UserSettings>(key: K, value: UserSettings[K]) => {
+    setDraft(prev => ({ ...prev, [key]: value }))
+    setStatus(null)
+  }
+
+  // A preset also resets the tunable fields to its values
+  const applyPreset = (id: SchedulerPresetId) => {
+    const { graduatingInterval, easyBonus, hardFactor } = SCHEDULER_PRESETS[id].config
+    setDraft(prev => ({ ...prev, schedulerPreset: id, graduatingInterval, easyBonus, hardFactor }))
+    setStatus(null)
+  }
+
+  const handleSave = async () => {
+    setSaving(true)
+    try {
+      const synced = await saveUserSettings(draft)
+      setDraft({})
+      setStatus(synced ? 'Saved and synced to your account' : 'Saved on this device')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleReset = () => {
+    setDraft({ ...DEFAULT_USER_SETTINGS, updatedAt: undefined })
+    setStatus(null)
+  }
+
+  const renderNumberField = ({ key, label, hint }: { key: NumberField; label: string; hint: string }) => {
+    const { min, max, step } = SETTING_LIMITS[key]
+    return (
+      <div key={key} className="flex items-center justify-between gap-4 py-3 border-b border-white/5 last:border-0">
+        <div>
+          <p className="font-medium">{label}</p>
+          <p className="text-xs text-muted-foreground">{hint}</p>
+        </div>
+        <Input
+          type="number"
+          min={min}
+          max={max}
+          step={step}
+          value={current[key]}
+          onChange={(event) => updateField(key, Number(event.target.value))}
+          className="w-28 bg-white/5 border-white/10 text-right"
+        />
+      </div>
+    )
+  }
+
+  const renderToggle = ({ key, label, hint }: { key: ToggleField; label: string; hint: string }) => (
+    <div key={key} className="flex items-center justify-between gap-4 py-3 border-b border-white/5 last:border-0">
+      <div>
+        <p className="font-medium">{label}</p>
+        <p className="text-xs text-muted-foreground">{hint}</p>
+      </div>
+      <button
+        type="button"
+        role="switch"
+        aria-checked={current[key]}
+        onClick={() => updateField(key, !current[key])}
+        className={cn(
+          "relative h-6 w-11 rounded-full transition-colors",
+          current[key] ? "bg-primary" : "bg-white/20"
+        )}
+      >
+        <span className={cn(
+          "absolute top-0.5 left-0.5 h-5 w-5 rounded-full bg-white transition-transform",
+          current[key] && "translate-x-5"
+        )} />
+      </button>
+    </div>
+  )
+
   return (
     <div className="min-h-screen bg-gradient-to-br from-slate-900 via-slate-800 to-slate-900">
-      <div className="max-w-7xl mx-auto px-4 py-8">
+      <div className="max-w-3xl mx-auto px-4 py-8">
         {/* Medical Disclaimer */}
         <MedicalDisclaimerBanner variant="compact" className="mb-8 rounded-xl" />
-        
+
         {/* Header */}
         <div className="text-center mb-12">
           <div className="inline-flex items-center gap-2 rounded-full border border-white/15 bg-white/5 px-4 py-1 text-xs uppercase tracking-wider text-muted-foreground mb-4">
@@ -25,54 +147,130 @@ export default function SettingsPage() {
           </p>
         </div>
 
-        {/* Coming Soon */}
-        <Card className="glass-card">
-          <CardHeader>
-            <CardTitle className="text-center flex items-center justify-center gap-3">
-              <div className="p-3 rounded-xl bg-gradient-to-r from-purple-500/20 to-pink-500/20">
-                <Settings className="h-8 w-8 text-purple-400" />
+        <div className="space-y-6">
+          <Card className="glass-card">
+            <CardHeader>
+              <CardTitle className="flex items-center gap-3">
+                <div className="p-2 rounded-xl bg-gradient-to-r from-emerald-500/20 to-cyan-500/20">
+                  <Target className="h-5 w-5 text-emerald-400" />
+                </div>
+                Study Goals
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              {STUDY_FIELDS.map(renderNumberField)}
+              <div className="flex items-center justify-between gap-4 py-3">
+                <div>
+                  <p className="font-medium">Exam date</p>
+                  <p className="text-xs text-muted-foreground">Keeps reviews before your NREMT and paces new cards to cover every chapter</p>
+                </div>
+                <Input
+                  type="date"
+                  value={current.examDate ?? ''}
+                  onChange={(event) => updateField('examDate', event.target.value || null)}
+                  className="w-44 bg-white/5 border-white/10"
+                />
               </div>
-              Advanced Settings Coming Soon
-            </CardTitle>
-          </CardHeader>
-          <CardContent className="text-center py-12">
-            <p className="text-muted-foreground text-lg mb-8">
-              We're developing comprehensive settings to personalize your study experience
-              and optimize the app for your learning preferences.
-            </p>
-            
-            <div className="grid gap-6 md:grid-cols-3 mb-8">
-              <div className="p-6 rounded-xl bg-white/5 border border-white/10">
-                <Palette className="h-8 w-8 text-pink-400 mx-auto mb-3" />
-                <h3 className="font-semibold mb-2">Theme Customization</h3>
-                <p className="text-sm text-muted-foreground">
-                  Choose from multiple color themes and display options
-                </p>
+            </CardContent>
+          </Card>
+
+          <Card className="glass-card">
+            <CardHeader>
+              <CardTitle className="flex items-center gap-3">
+                <div className="p-2 rounded-xl bg-gradient-to-r from-purple-500/20 to-pink-500/20">
+                  <Brain className="h-5 w-5 text-purple-400" />
+                </div>
+                Spaced Repetition
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              <div className="grid gap-3 sm:grid-cols-2 pb-3 border-b border-white/5">
+                {(Object.keys(SCHEDULER_ALGORITHMS) as SchedulerAlgorithm[]).map(algorithm => (
+                  <button
+                    key={algorithm}
+                    type="button"
+                    onClick={() => updateField('schedulerAlgorithm', algorithm)}
+                    className={cn(
+                      "rounded-xl border p-3 text-left transition-colors",
+                      current.schedulerAlgorithm === algorithm
+                        ? "border-primary bg-primary/10"
+                        : "border-white/10 bg-white/5 hover:bg-white/10"
+                    )}
+                  >
+                    <p className="font-medium">{SCHEDULER_ALGORITHMS[algorithm].name}</p>
+                    <p className="text-xs text-muted-foreground">{SCHEDULER_ALGORITHMS[algorithm].description}</p>
+                  </button>
+                ))}
               </div>
-              
-              <div className="p-6 rounded-xl bg-white/5 border border-white/10">
-                <Bell className="h-8 w-8 text-blue-400 mx-auto mb-3" />
-                <h3 className="font-semibold mb-2">Study Reminders</h3>
-                <p className="text-sm text-muted-foreground">
-                  Set up notifications to maintain your study schedule
-                </p>
+              <div className="grid gap-3 sm:grid-cols-3 py-3 border-b border-white/5">
+                {Object.values(SCHEDULER_PRESETS).map(preset => (
+                  <button
+                    key={preset.id}
+                    type="button"
+                    onClick={() => applyPreset(preset.id)}
+                    className={cn(
+                      "rounded-xl border p-3 text-left transition-colors",
+                      current.schedulerPreset === preset.id
+                        ? "border-primary bg-primary/10"
+                        : "border-white/10 bg-white/5 hover:bg-white/10"
+                    )}
+                  >
+                    <p className="font-medium">{preset.name}</p>
+                    <p className="text-xs text-muted-foreground">{preset.description}</p>
+                  </button>
+                ))}
               </div>
-              
-              <div className="p-6 rounded-xl bg-white/5 border border-white/10">
-                <Shield className="h-8 w-8 text-green-400 mx-auto mb-3" />
-                <h3 className="font-semibold mb-2">Privacy Controls</h3>
-                <p className="text-sm text-muted-foreground">
-                  Manage your data privacy and security preferences
-                </p>
+              {SCHEDULING_FIELDS.map(renderNumberField)}
+              <div className="grid gap-3 sm:grid-cols-2 pt-3">
+                {(Object.keys(LEECH_ACTIONS) as LeechAction[]).map(action => (
+                  <button
+                    key={action}
+                    type="button"
+                    onClick={() => updateField('leechAction', action)}
+                    className={cn(
+                      "rounded-xl border p-3 text-left transition-colors",
+                      current.leechAction === action
+                        ? "border-primary bg-primary/10"
+                        : "border-white/10 bg-white/5 hover:bg-white/10"
+                    )}
+                  >
+                    <p className="font-medium">{LEECH_ACTIONS[action].name}</p>
+                    <p className="text-xs text-muted-foreground">{LEECH_ACTIONS[action].description}</p>
+                  </button>
+                ))}
               </div>
-            </div>
-            
+            </CardContent>
+          </Card>
+
+          <Card className="glass-card">
+            <CardHeader>
+              <CardTitle className="flex items-center gap-3">
+                <div className="p-2 rounded-xl bg-gradient-to-r from-blue-500/20 to-indigo-500/20">
+                  <Monitor className="h-5 w-5 text-blue-400" />
+                </div>
+                Display
+              </CardTitle>
+            </CardHeader>
+            <CardContent>{DISPLAY_FIELDS.map(renderToggle)}</CardContent>
+          </Card>
+
+          <div className="flex flex-col sm:flex-row items-center justify-between gap-4">
             <p className="text-sm text-muted-foreground">
-              Full settings panel available in mobile apps launching 2026
+              {status ?? 'Settings are stored on this device and synced when a license is active.'}
             </p>
-          </CardContent>
-        </Card>
+            <div className="flex gap-3">
+              <Button variant="outline" onClick={handleReset}>
+                <RotateCcw className="h-4 w-4 mr-2" />
+                Reset to Defaults
+              </Button>
+              <Button onClick={handleSave} disabled={!hasChanges || saving}>
+                <Save className="h-4 w-4 mr-2" />
+                {saving ? 'Saving...' : 'Save Settings'}
+              </Button>
+            </div>
+          </div>
+        </div>
       </div>
     </div>
   )
-}
\ No newline at end of file
+}
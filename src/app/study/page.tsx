@@ -1,26 +1,36 @@
 'use client'
 
-import { Suspense, useState, useEffect } from 'react'
+import { Suspense, useState, useEffect, useMemo } from 'react'
 import { useSearchParams } from 'next/navigation'
 import { StudyInterface } from '@/components/study/StudyInterface'
+import { ScenarioChainInterface } from '@/components/study/ScenarioChainInterface'
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
 import { Button } from '@/components/ui/button'
 import { Badge } from '@/components/ui/badge'
 import { Logo } from '@/components/ui/logo'
 import { MedicalDisclaimerBanner } from '@/components/ui/medical-disclaimer-banner'
 import { 
-  Brain, 
   Target, 
   TrendingUp, 
   Clock, 
   BarChart3,
   Home,
   Play,
-  Settings,
-  BookOpen
+  BookOpen,
+  Flag,
+  Timer,
+  History
 } from 'lucide-react'
 import { StudySessionConfig, StudyMode, SessionStats, getDefaultConfig } from '@/lib/study-session'
+import { STUDY_MODES, type QuestionFormat } from '@/lib/types'
+import { STUDY_MODE_ICONS } from '@/components/study/mode-icons'
 import { getAllLocalFlashcards } from '@/lib/local-flashcards'
+import { buildDueQueue, dueQueueOptionsFromSettings, type DueQueue } from '@/lib/review-queue'
+import { FLAG_COLORS, type FlagColor } from '@/lib/card-actions'
+import { CARD_ORDERS, type CardOrder } from '@/lib/card-ordering'
+import { progressStorage, type SessionCheckpoint } from '@/lib/progress-storage'
+import { useUserSettings } from '@/hooks/useUserSettings'
+import { FlashcardData } from '@/components/flashcard/Flashcard'
 import { cn } from '@/lib/utils'
 
 type ViewState = 'mode-selection' | 'studying' | 'results'
@@ -32,9 +42,19 @@ function StudyPageContent() {
   const [sessionStats, setSessionStats] = useState<SessionStats | null>(null)
   const [showChapterSelect, setShowChapterSelect] = useState(false)
   const [selectedChapters, setSelectedChapters] = useState<number[]>([])
+  const [drillFormat, setDrillFormat] = useState<QuestionFormat>('recall')
+  const [drillFlags, setDrillFlags] = useState<FlagColor[]>([])
+  const [drillWeakAreas, setDrillWeakAreas] = useState(false)
+  const [drillOrder, setDrillOrder] = useState<CardOrder | null>(null)
+  const [sessionCards, setSessionCards] = useState<FlashcardData[] | null>(null)
+  const [dueQueue, setDueQueue] = useState<DueQueue | null>(null)
+  const [starredCount, setStarredCount] = useState<number | null>(null)
+  const [checkpoint, setCheckpoint] = useState<SessionCheckpoint | null>(null)
+  const [resumeFrom, setResumeFrom] = useState<SessionCheckpoint | null>(null)
+  const settings = useUserSettings()
   
-  // Load all flashcards
-  const allFlashcards = getAllLocalFlashcards()
+  // Load all flashcards once; a new array would restart the session StudyInterface is running
+  const allFlashcards = useMemo(() => getAllLocalFlashcards(), [])
 
   // Get unique chapters
   const chapters = Array.from(new Set(allFlashcards.map(card => card.chapterNumber)))
@@ -55,64 +75,82 @@ function StudyPageContent() {
     }
   }, [searchParams])
 
-  const studyModes = [
-    {
-      mode: 'quick-drill' as StudyMode,
-      title: 'Quick Drill',
-      description: 'Fast-paced review session for quick retention checks',
-      duration: '5-10 minutes',
-      cardCount: '10 cards',
-      icon: Brain,
-      color: 'from-cyan-400 to-blue-500',
-      textColor: 'text-cyan-400',
-      bgColor: 'bg-cyan-400/10 border-cyan-400/30',
-      features: ['Rapid fire questions', 'Perfect for breaks', 'Basic concepts focus']
-    },
-    {
-      mode: 'deep-session' as StudyMode,
-      title: 'Deep Session', 
-      description: 'Comprehensive study session with spaced repetition',
-      duration: '20-30 minutes',
-      cardCount: '25 cards',
-      icon: Target,
-      color: 'from-blue-400 to-purple-500',
-      textColor: 'text-blue-400',
-      bgColor: 'bg-blue-400/10 border-blue-400/30',
-      features: ['Spaced repetition', 'Weak area targeting', 'All difficulty levels']
-    },
-    {
-      mode: 'exam-mimic' as StudyMode,
-      title: 'Exam Mimic',
-      description: 'Full practice test simulation with realistic timing',
-      duration: '45-60 minutes', 
-      cardCount: '50 cards',
-      icon: TrendingUp,
-      color: 'from-purple-400 to-pink-500',
-      textColor: 'text-purple-400',
-      bgColor: 'bg-purple-400/10 border-purple-400/30',
-      features: ['Exam conditions', 'Comprehensive coverage', 'Performance analytics']
-    },
-    {
-      mode: 'random-250' as StudyMode,
-      title: 'Test Mode',
-      description: 'Intensive 250-card session drawn randomly from all chapters',
-      duration: '120+ minutes',
-      cardCount: '250 cards',
-      icon: Brain,
-      color: 'from-red-400 to-orange-500',
-      textColor: 'text-red-400',
-      bgColor: 'bg-red-400/10 border-red-400/30',
-      features: ['Massive review', 'Random selection', 'Endurance training']
+  // Preview today's spaced repetition queue for the mode card
+  useEffect(() => {
+    if (viewState !== 'mode-selection') return
+    buildDueQueue(getAllLocalFlashcards(), dueQueueOptionsFromSettings(settings))
+      .then(setDueQueue)
+      .catch(error => console.error('Failed to load due cards:', error))
+  }, [viewState, settings])
+
+  useEffect(() => {
+    if (viewState !== 'mode-selection') return
+    progressStorage.getStarredCards()
+      .then(starred => setStarredCount(starred.length))
+      .catch(error => console.error('Failed to load starred cards:', error))
+  }, [viewState])
+
+  // Offer to pick up a session that was interrupted by a reload or app kill
+  useEffect(() => {
+    if (viewState !== 'mode-selection') return
+    progressStorage.getSessionCheckpoint()
+      .then(setCheckpoint)
+      .catch(error => console.error('Failed to load session checkpoint:', error))
+  }, [viewState])
+
+  // Mode cards come straight from the registry; the due queue fills in live counts
+  const studyModes = Object.values(STUDY_MODES).map(modeConfig => {
+    const { display } = modeConfig
+    const isReviewQueue = modeConfig.mode === 'spaced-repetition'
+    const isFavorites = modeConfig.mode === 'favorites'
+
+    return {
+      mode: modeConfig.mode,
+      title: display.title,
+      description: modeConfig.description,
+      duration: isReviewQueue ? (dueQueue ? `${dueQueue.reviewCount} due` : 'Loading...') : display.durationLabel,
+      cardCount: isReviewQueue
+        ? (dueQueue ? `${dueQueue.newCount} new` : 'Loading...')
+        : isFavorites ? (starredCount === null ? 'Loading...' : `${starredCount} starred`) : display.cardCountLabel,
+      icon: STUDY_MODE_ICONS[modeConfig.mode],
+      color: display.color,
+      textColor: display.textColor,
+      bgColor: display.bgColor,
+      features: display.features,
+      disabled: (isReviewQueue && dueQueue?.cards.length === 0) || (isFavorites && starredCount === 0)
     }
-  ]
+  })
+
+  const handleModeSelect = async (mode: StudyMode) => {
+    setResumeFrom(null)
 
-  const handleModeSelect = (mode: StudyMode) => {
     if (mode === 'custom-drill') {
       setShowChapterSelect(true)
       return
     }
 
+    if (mode === 'spaced-repetition') {
+      try {
+        const queue = await buildDueQueue(allFlashcards, dueQueueOptionsFromSettings(settings))
+        setSessionCards(queue.cards)
+      } catch (error) {
+        console.error('Failed to build review queue:', error)
+        return
+      }
+    } else {
+      setSessionCards(null)
+    }
+
     const config = getDefaultConfig(mode)
+    if (mode === 'favorites') {
+      try {
+        const starred = await progressStorage.getStarredCards()
+        config.cardIds = starred.map(card => card.cardId)
+      } catch (error) {
+        console.error('Failed to load starred cards:', error)
+        return
+      }
+    }
     setSelectedConfig(config)
     setViewState('studying')
   }
@@ -124,13 +162,41 @@ function StudyPageContent() {
       mode: 'custom-drill',
       chapterIds: selectedChapters,
       shuffled: true,
-      includeWeakAreas: false
+      includeWeakAreas: drillWeakAreas,
+      questionFormat: drillFormat,
+      flagColors: drillFlags,
+      order: drillOrder ?? undefined
     }
+    setResumeFrom(null)
+    setSessionCards(null)
     setSelectedConfig(config)
     setViewState('studying')
     setShowChapterSelect(false)
   }
 
+  const handleResume = () => {
+    if (!checkpoint) return
+    setResumeFrom(checkpoint)
+    setSessionCards(checkpoint.session.cards)
+    setSelectedConfig(checkpoint.session.config)
+    setViewState('studying')
+  }
+
+  const handleDiscardCheckpoint = async () => {
+    try {
+      await progressStorage.clearSessionCheckpoint()
+      setCheckpoint(null)
+    } catch (error) {
+      console.error('Failed to discard session checkpoint:', error)
+    }
+  }
+
+  const toggleDrillFlag = (color: FlagColor) => {
+    setDrillFlags(prev =>
+      prev.includes(color) ? prev.filter(c => c !== color) : [...prev, color]
+    )
+  }
+
   const toggleChapter = (chapterId: number) => {
     setSelectedChapters(prev => 
       prev.includes(chapterId) 
@@ -147,7 +213,9 @@ function StudyPageContent() {
   const handleReturn = () => {
     setViewState('mode-selection')
     setSelectedConfig(null)
+    setSessionCards(null)
     setSessionStats(null)
+    setResumeFrom(null)
   }
 
   const getGradeFromAccuracy = (accuracy: number) => {
@@ -158,19 +226,34 @@ function StudyPageContent() {
     return { grade: 'F', color: 'text-red-400' }
   }
 
+  if (viewState === 'studying' && selectedConfig?.mode === 'scenario-chain') {
+    return (
+      <ScenarioChainInterface
+        config={selectedConfig}
+        onSessionEnd={handleSessionEnd}
+        onExit={handleReturn}
+      />
+    )
+  }
+
   if (viewState === 'studying' && selectedConfig) {
     return (
       <StudyInterface
-        cards={allFlashcards}
+        cards={sessionCards ?? allFlashcards}
         config={selectedConfig}
         onSessionEnd={handleSessionEnd}
         onExit={handleReturn}
+        resume={resumeFrom}
       />
     )
   }
 
   if (viewState === 'results' && sessionStats) {
     const { grade, color } = getGradeFromAccuracy(sessionStats.accuracy)
+    // Answers were withheld during the session, so walk through the misses now
+    const questionReview = STUDY_MODES[sessionStats.mode].showAnswersImmediately
+      ? []
+      : sessionStats.questionReview ?? []
     
     return (
       <div className="min-h-screen bg-gradient-to-br from-slate-900 via-slate-800 to-slate-900 p-4">
@@ -184,6 +267,15 @@ function StudyPageContent() {
               <p className="text-muted-foreground">Great work on your study session</p>
             </CardHeader>
             <CardContent className="space-y-8">
+
+              {sessionStats.timedOut && (
+                <div className="flex items-center gap-3 rounded-xl bg-red-500/10 border border-red-500/30 p-4">
+                  <Timer className="h-5 w-5 text-red-400 flex-shrink-0" />
+                  <p className="text-sm text-red-200">
+                    Time expired - your answers were submitted automatically. Unanswered questions are listed below.
+                  </p>
+                </div>
+              )}
               
               {/* Overall Grade */}
               <div className="text-center">
@@ -192,6 +284,9 @@ function StudyPageContent() {
                   <div>
                     <p className="text-lg font-semibold">Overall Performance</p>
                     <p className="text-sm text-muted-foreground">{sessionStats.accuracy}% accuracy</p>
+                    {sessionStats.averageConfidence !== undefined && (
+                      <p className="text-xs text-muted-foreground">{sessionStats.averageConfidence}% self-rated confidence</p>
+                    )}
                   </div>
                 </div>
               </div>
@@ -219,7 +314,7 @@ function StudyPageContent() {
                 <div className="rounded-xl bg-white/5 border border-white/10 p-4 text-center">
                   <TrendingUp className="h-6 w-6 text-cyan-400 mx-auto mb-2" />
                   <p className="text-sm text-muted-foreground">Study Mode</p>
-                  <p className="text-xl font-semibold capitalize">{sessionStats.mode.replace('-', ' ')}</p>
+                  <p className="text-xl font-semibold">{STUDY_MODES[sessionStats.mode].name}</p>
                 </div>
               </div>
 
@@ -266,6 +361,43 @@ function StudyPageContent() {
                 </div>
               </div>
 
+              {/* Missed Question Review */}
+              {questionReview.length > 0 && (
+                <div>
+                  <h3 className="text-lg font-semibold mb-4 flex items-center gap-2">
+                    <div className="p-2 rounded-lg bg-red-500/20">
+                      <BookOpen className="h-4 w-4 text-red-400" />
+                    </div>
+                    Review Missed Questions
+                  </h3>
+                  <div className="space-y-3">
+                    {questionReview.map(({ card, status, flagged }) => (
+                      <div key={card.id} className="rounded-xl bg-white/5 border border-white/10 p-4">
+                        <div className="flex flex-wrap items-center gap-2 mb-2">
+                          {status === 'missed' && (
+                            <Badge variant="secondary" className="bg-red-500/10 border-red-500/30 text-red-200">Missed</Badge>
+                          )}
+                          {status === 'unanswered' && (
+                            <Badge variant="secondary" className="bg-slate-500/10 border-slate-500/30 text-slate-200">Unanswered</Badge>
+                          )}
+                          {flagged && (
+                            <Badge variant="secondary" className="bg-amber-400/10 border-amber-400/30 text-amber-200">
+                              <Flag className="h-3 w-3 mr-1" />
+                              Flagged
+                            </Badge>
+                          )}
+                          {card.chapterTitle && (
+                            <span className="text-xs text-muted-foreground">{card.chapterTitle}</span>
+                          )}
+                        </div>
+                        <p className="font-medium mb-2">{card.question}</p>
+                        <p className="text-sm text-emerald-200">{card.answer}</p>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              )}
+
               {/* Action Buttons */}
               <div className="flex flex-col sm:flex-row gap-4 pt-6">
                 <Button onClick={() => handleModeSelect(sessionStats.mode)} className="flex-1">
@@ -312,61 +444,36 @@ function StudyPageContent() {
           </p>
         </div>
 
-        {/* Study Mode Cards */}
-        <div className="grid gap-8 md:grid-cols-3 mb-12">
-          {/* Custom Drill Card */}
-          <Card className="glass-card group hover:scale-105 transition-all duration-300 cursor-pointer">
-            <CardContent className="p-8">
-              <div className="text-center">
-                <div className={cn(
-                  "mx-auto mb-6 p-4 rounded-2xl bg-gradient-to-r from-emerald-400/20 to-teal-500/20"
-                )}>
-                  <Settings className="h-12 w-12 mx-auto text-emerald-400" />
-                </div>
-                
-                <h3 className="text-2xl font-bold mb-3">Custom Drill</h3>
-                <p className="text-muted-foreground mb-6 leading-relaxed">
-                  Select specific chapters to focus your study session
-                </p>
-                
-                <div className="flex justify-center gap-4 mb-6">
-                  <Badge variant="secondary" className="bg-white/10 border-white/20">
-                    <Clock className="h-3 w-3 mr-1" />
-                    Flexible
-                  </Badge>
-                  <Badge variant="secondary" className="bg-white/10 border-white/20">
-                    <BookOpen className="h-3 w-3 mr-1" />
-                    Custom
-                  </Badge>
-                </div>
-                
-                <div className="space-y-2 mb-8">
-                  <div className="flex items-center justify-center gap-2 text-sm text-muted-foreground">
-                    <div className="w-1 h-1 rounded-full bg-primary"></div>
-                    Target specific chapters
-                  </div>
-                  <div className="flex items-center justify-center gap-2 text-sm text-muted-foreground">
-                    <div className="w-1 h-1 rounded-full bg-primary"></div>
-                    Focus on weak areas
-                  </div>
-                  <div className="flex items-center justify-center gap-2 text-sm text-muted-foreground">
-                    <div className="w-1 h-1 rounded-full bg-primary"></div>
-                    Unlimited duration
-                  </div>
+        {/* Interrupted Session */}
+        {checkpoint && (
+          <Card className="glass-card border-primary/30 mb-8">
+            <CardContent className="p-6 flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+              <div className="flex items-center gap-4">
+                <History className="h-8 w-8 text-primary shrink-0" />
+                <div>
+                  <p className="font-semibold">Resume your {STUDY_MODES[checkpoint.session.config.mode].name} session</p>
+                  <p className="text-sm text-muted-foreground">
+                    Card {checkpoint.session.currentIndex + 1} of {checkpoint.session.cards.length}
+                    {' · '}{checkpoint.session.responses.length} answered
+                    {' · '}saved {new Date(checkpoint.savedAt).toLocaleString(undefined, { month: 'short', day: 'numeric', hour: 'numeric', minute: '2-digit' })}
+                  </p>
                 </div>
-                
-                <Button 
-                  onClick={() => handleModeSelect('custom-drill')}
-                  className="w-full group-hover:shadow-lg transition-all duration-300 bg-emerald-400/10 border-emerald-400/30 text-emerald-400"
-                  variant="outline"
-                >
+              </div>
+              <div className="flex gap-3 shrink-0">
+                <Button variant="ghost" onClick={handleDiscardCheckpoint}>
+                  Discard
+                </Button>
+                <Button onClick={handleResume}>
                   <Play className="h-4 w-4 mr-2" />
-                  Configure Drill
+                  Resume
                 </Button>
               </div>
             </CardContent>
           </Card>
+        )}
 
+        {/* Study Mode Cards */}
+        <div className="grid gap-8 md:grid-cols-3 mb-12">
           {studyModes.map((mode) => {
             const IconComponent = mode.icon
             return (
@@ -412,6 +519,7 @@ function StudyPageContent() {
                     {/* Action Button */}
                     <Button 
                       onClick={() => handleModeSelect(mode.mode)}
+                      disabled={mode.disabled}
                       className={cn(
                         "w-full group-hover:shadow-lg transition-all duration-300",
                         mode.bgColor
@@ -419,7 +527,9 @@ function StudyPageContent() {
                       variant="outline"
                     >
                       <Play className="h-4 w-4 mr-2" />
-                      Start {mode.title}
+                      {mode.disabled
+                        ? (mode.mode === 'favorites' ? 'No Starred Cards' : 'All Caught Up')
+                        : mode.mode === 'custom-drill' ? 'Configure Drill' : `Start ${mode.title}`}
                     </Button>
                   </div>
                 </CardContent>
@@ -457,9 +567,73 @@ function StudyPageContent() {
                   ))}
                 </div>
               </CardContent>
+              <div className="px-6 py-4 border-t border-white/10 flex flex-wrap items-center gap-3">
+                <span className="text-sm text-muted-foreground">Order</span>
+                <div className="flex flex-wrap rounded-lg border border-white/10 overflow-hidden text-xs">
+                  {([null, ...Object.keys(CARD_ORDERS)] as (CardOrder | null)[]).map(order => (
+                    <button
+                      key={order ?? 'shuffled'}
+                      type="button"
+                      onClick={() => setDrillOrder(order)}
+                      title={order ? CARD_ORDERS[order].description : 'Random order across the selected chapters'}
+                      className={cn(
+                        "px-3 py-1.5 transition-colors",
+                        drillOrder === order ? "bg-primary/20 text-primary" : "bg-white/5 text-muted-foreground hover:bg-white/10"
+                      )}
+                    >
+                      {order ? CARD_ORDERS[order].name : 'Shuffled'}
+                    </button>
+                  ))}
+                </div>
+              </div>
               <div className="p-6 border-t border-white/10 flex justify-between items-center bg-black/20">
-                <div className="text-sm text-muted-foreground">
-                  {selectedChapters.length} chapters selected
+                <div className="flex items-center gap-4">
+                  <div className="text-sm text-muted-foreground">
+                    {selectedChapters.length} chapters selected
+                  </div>
+                  <div className="flex rounded-lg border border-white/10 overflow-hidden text-xs">
+                    {([['recall', 'Flashcards'], ['multiple-choice', 'Multiple Choice'], ['typed', 'Typed Answer']] as const).map(([format, label]) => (
+                      <button
+                        key={format}
+                        type="button"
+                        onClick={() => setDrillFormat(format)}
+                        className={cn(
+                          "px-3 py-1.5 transition-colors",
+                          drillFormat === format ? "bg-primary/20 text-primary" : "bg-white/5 text-muted-foreground hover:bg-white/10"
+                        )}
+                      >
+                        {label}
+                      </button>
+                    ))}
+                  </div>
+                  <button
+                    type="button"
+                    onClick={() => setDrillWeakAreas(prev => !prev)}
+                    title="Favour the cards, chapters and tags you miss most"
+                    className={cn(
+                      "flex items-center gap-1 rounded-lg border border-white/10 px-3 py-1.5 text-xs transition-colors",
+                      drillWeakAreas ? "bg-primary/20 text-primary" : "bg-white/5 text-muted-foreground hover:bg-white/10"
+                    )}
+                  >
+                    <Target className="h-3 w-3" />
+                    Weak areas
+                  </button>
+                  <div className="flex items-center gap-2" title="Only drill cards with these flags">
+                    <Flag className="h-3 w-3 text-muted-foreground" />
+                    {(Object.keys(FLAG_COLORS) as FlagColor[]).map(color => (
+                      <button
+                        key={color}
+                        type="button"
+                        onClick={() => toggleDrillFlag(color)}
+                        title={`${FLAG_COLORS[color].label} flags`}
+                        className={cn(
+                          "h-4 w-4 rounded-full transition-all",
+                          FLAG_COLORS[color].className,
+                          drillFlags.includes(color) ? "ring-2 ring-white ring-offset-2 ring-offset-slate-900" : "opacity-40 hover:opacity-80"
+                        )}
+                      />
+                    ))}
+                  </div>
                 </div>
                 <div className="flex gap-3">
                   <Button variant="ghost" onClick={() => setShowChapterSelect(false)}>
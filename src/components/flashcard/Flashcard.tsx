@@ -4,8 +4,11 @@ import { useState, useEffect } from 'react'
 import { motion, AnimatePresence } from 'framer-motion'
 import { Card, CardContent } from '@/components/ui/card'
 import { Badge } from '@/components/ui/badge'
-import { Clock, Target, AlertTriangle, Shield } from 'lucide-react'
+import { Clock, Target, AlertTriangle, Shield, Star } from 'lucide-react'
 import { cn } from '@/lib/utils'
+import { isMultipleChoice } from '@/lib/distractors'
+import { isProtocolOrEmergency as isSensitiveCard } from '@/lib/content-review'
+import { useUserSettings } from '@/hooks/useUserSettings'
 import { rateLimiter } from '@/lib/rate-limiter'
 
 export interface FlashcardData {
@@ -17,6 +20,9 @@ export interface FlashcardData {
   tags: string[]
   chapterNumber?: number
   chapterTitle?: string
+  // Multiple-choice variant: answer is options[correctIndex]
+  options?: string[]
+  correctIndex?: number
 }
 
 interface FlashcardProps {
@@ -26,6 +32,11 @@ interface FlashcardProps {
   showDifficulty?: boolean
   showTimer?: boolean
   startTime?: number
+  flipHint?: string
+  selectedOption?: number | null
+  onSelectOption?: (index: number) => void
+  isStarred?: boolean
+  onToggleStar?: () => void // Shows the star toggle when set
   className?: string
 }
 
@@ -55,12 +66,20 @@ export function Flashcard({
   flashcard, 
   isFlipped, 
   onFlip, 
-  showDifficulty = true,
+  showDifficulty,
   showTimer = false,
   startTime,
+  flipHint = 'Click to reveal answer',
+  selectedOption = null,
+  onSelectOption,
+  isStarred = false,
+  onToggleStar,
   className 
 }: FlashcardProps) {
   const [elapsedTime, setElapsedTime] = useState(0)
+  const settings = useUserSettings()
+  const difficultyVisible = showDifficulty ?? settings.showDifficulty
+  const animate = settings.animationEnabled
 
   // Rate limit flashcard views to prevent scraping
   useEffect(() => {
@@ -84,17 +103,22 @@ export function Flashcard({
     return `${mins}:${secs.toString().padStart(2, '0')}`
   }
 
-  const isProtocolOrEmergency = flashcard.tags.some(tag => 
-    ['emergency', 'protocol', 'treatment', 'medication', 'procedure'].includes(tag.toLowerCase())
-  ) || flashcard.type === 'scenario'
+  const isProtocolOrEmergency = isSensitiveCard(flashcard)
+
+  const multipleChoice = isMultipleChoice(flashcard)
+  const optionLabel = (index: number) => String.fromCharCode(65 + index)
+  const answeredCorrectly = selectedOption !== null && selectedOption === flashcard.correctIndex
 
   return (
     <div className={cn("perspective-1000", className)}>
       <motion.div
-        className="relative w-full h-96 preserve-3d cursor-pointer select-none"
+        className={cn(
+          "relative w-full preserve-3d cursor-pointer select-none",
+          multipleChoice ? "h-[34rem]" : "h-96"
+        )}
         onClick={onFlip}
         animate={{ rotateY: isFlipped ? 180 : 0 }}
-        transition={{ duration: 0.6, type: "spring" }}
+        transition={animate ? { duration: 0.6, type: "spring" } : { duration: 0 }}
         style={{ 
           transformStyle: "preserve-3d",
           userSelect: 'none',
@@ -123,16 +147,31 @@ export function Flashcard({
                 )}
               </div>
               
-              {showTimer && (
-                <div className="flex items-center gap-2 text-sm text-muted-foreground bg-black/20 rounded-lg px-3 py-1 backdrop-blur-sm">
-                  <Clock className="w-4 h-4" />
-                  {formatTime(elapsedTime)}
-                </div>
-              )}
+              <div className="flex items-center gap-2">
+                {onToggleStar && (
+                  <button
+                    type="button"
+                    onClick={(event) => {
+                      event.stopPropagation()
+                      onToggleStar()
+                    }}
+                    title={isStarred ? 'Remove from favorites' : 'Add to favorites'}
+                    className="rounded-lg p-1 hover:bg-white/10 transition-colors"
+                  >
+                    <Star className={cn("w-5 h-5", isStarred ? "fill-yellow-300 text-yellow-300" : "text-muted-foreground")} />
+                  </button>
+                )}
+                {showTimer && (
+                  <div className="flex items-center gap-2 text-sm text-muted-foreground bg-black/20 rounded-lg px-3 py-1 backdrop-blur-sm">
+                    <Clock className="w-4 h-4" />
+                    {formatTime(elapsedTime)}
+                  </div>
+                )}
+              </div>
             </div>
 
             {/* Question */}
-            <div className="flex-1 flex items-center justify-center">
+            <div className="flex-1 flex flex-col items-center justify-center overflow-y-auto">
               <div className="text-center max-w-md">
                 <div className="inline-flex items-center gap-2 rounded-full border border-white/15 bg-white/5 px-4 py-1 text-xs uppercase tracking-wider text-muted-foreground mb-4">
                   <span className="text-primary">ChapterFlashEMT</span>
@@ -143,6 +182,33 @@ export function Flashcard({
                   {flashcard.question}
                 </p>
               </div>
+
+              {/* Options */}
+              {multipleChoice && (
+                <div className="w-full max-w-md mt-6 space-y-2">
+                  {flashcard.options!.map((option, index) => (
+                    <button
+                      key={index}
+                      type="button"
+                      disabled={selectedOption !== null}
+                      onClick={(event) => {
+                        event.stopPropagation()
+                        onSelectOption?.(index)
+                      }}
+                      className={cn(
+                        "w-full flex items-start gap-3 rounded-xl border-2 px-4 py-2 text-left text-sm transition-colors",
+                        selectedOption === index
+                          ? "bg-primary/20 border-primary text-foreground"
+                          : "bg-white/5 border-white/10 hover:bg-white/10",
+                        selectedOption !== null && selectedOption !== index && "opacity-60"
+                      )}
+                    >
+                      <span className="font-semibold text-primary">{optionLabel(index)}.</span>
+                      <span>{option}</span>
+                    </button>
+                  ))}
+                </div>
+              )}
             </div>
 
             {/* Footer */}
@@ -160,7 +226,7 @@ export function Flashcard({
                 )}
               </div>
               
-              {showDifficulty && (
+              {difficultyVisible && (
                 <Badge className={cn(
                   "text-xs font-medium border",
                   difficultyColors[flashcard.difficulty as keyof typeof difficultyColors]
@@ -172,10 +238,10 @@ export function Flashcard({
             </div>
 
             {/* Flip indicator */}
-            <div className="text-center mt-4">
-              <p className="text-sm text-muted-foreground">Click to reveal answer</p>
+            <div className={cn("text-center mt-4", multipleChoice && selectedOption === null && "hidden")}>
+              <p className="text-sm text-muted-foreground">{flipHint}</p>
               <motion.div
-                animate={{ y: [0, -4, 0] }}
+                animate={animate ? { y: [0, -4, 0] } : undefined}
                 transition={{ repeat: Infinity, duration: 2 }}
                 className="text-primary text-lg"
               >
@@ -220,6 +286,18 @@ export function Flashcard({
                 <p className="text-xl leading-relaxed text-foreground font-medium mb-4">
                   {flashcard.answer}
                 </p>
+                {multipleChoice && selectedOption !== null && (
+                  <Badge className={cn(
+                    "text-xs border",
+                    answeredCorrectly
+                      ? "bg-emerald-500/10 border-emerald-500/30 text-emerald-200"
+                      : "bg-red-500/10 border-red-500/30 text-red-200"
+                  )}>
+                    {answeredCorrectly
+                      ? `Correct - you chose ${optionLabel(selectedOption)}`
+                      : `Incorrect - you chose ${optionLabel(selectedOption)}, answer was ${optionLabel(flashcard.correctIndex!)}`}
+                  </Badge>
+                )}
               </div>
               
               {/* Safety disclaimer for medical content */}
@@ -246,7 +324,7 @@ export function Flashcard({
             <div className="text-center mt-4">
               <p className="text-sm text-muted-foreground">Click to flip back</p>
               <motion.div
-                animate={{ y: [0, -4, 0] }}
+                animate={animate ? { y: [0, -4, 0] } : undefined}
                 transition={{ repeat: Infinity, duration: 2 }}
                 className="text-primary text-lg"
               >
@@ -0,0 +1,51 @@
+'use client'
+
+import type { ForecastDay } from '@/lib/review-forecast'
+import { cn } from '@/lib/utils'
+
+interface ReviewForecastChartProps {
+  forecast: ForecastDay[]
+  maxReviewsPerDay: number
+  className?: string
+}
+
+// Stacked daily bars: scheduled reviews, then reviews added by the what-if new cards
+export function ReviewForecastChart({ forecast, maxReviewsPerDay, className }: ReviewForecastChartProps) {
+  const peak = Math.max(1, maxReviewsPerDay, ...forecast.map(day => day.reviews + day.newCardReviews))
+  const limitOffset = (maxReviewsPerDay / peak) * 100
+
+  return (
+    <div className={cn("space-y-2", className)}>
+      <div className="relative h-48 flex items-end gap-px border-b border-white/10">
+        <div
+          className="absolute inset-x-0 border-t border-dashed border-orange-400/50"
+          style={{ bottom: `${limitOffset}%` }}
+          title={`Daily review limit: ${maxReviewsPerDay}`}
+        />
+        {forecast.map(day => {
+          const total = day.reviews + day.newCardReviews
+          const label = new Date(day.date).toLocaleDateString(undefined, { month: 'short', day: 'numeric' })
+          return (
+            <div
+              key={day.date}
+              className="flex-1 flex flex-col justify-end h-full"
+              title={`${label}: ${day.reviews} scheduled, ${day.newCardReviews} from new cards`}
+            >
+              <div className="bg-blue-400/70 rounded-t-sm" style={{ height: `${(day.newCardReviews / peak) * 100}%` }} />
+              <div
+                className={cn(total > maxReviewsPerDay ? "bg-orange-400/80" : "bg-emerald-400/70", day.newCardReviews === 0 && "rounded-t-sm")}
+                style={{ height: `${(day.reviews / peak) * 100}%` }}
+              />
+            </div>
+          )
+        })}
+      </div>
+      <div className="flex justify-between text-xs text-white/50">
+        <span>Today</span>
+        {forecast.length > 0 && (
+          <span>{new Date(forecast[forecast.length - 1].date).toLocaleDateString(undefined, { month: 'short', day: 'numeric' })}</span>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,233 @@
+'use client'
+
+import { useState } from 'react'
+import { motion, AnimatePresence } from 'framer-motion'
+import { Card, CardContent } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { AlertTriangle, CheckCircle2, ChevronRight, XCircle, X } from 'lucide-react'
+import { StudySessionConfig, SessionStats } from '@/lib/study-session'
+import {
+  ScenarioChainManager,
+  ScenarioOption,
+  ScenarioStep,
+  SCENARIO_PHASES,
+  getRelatedScenarioCards,
+  pickScenarioChain
+} from '@/lib/scenario-chain'
+import { recordScenarioChainSession } from '@/lib/session-recorder'
+import { STUDY_MODES } from '@/lib/types'
+import { STUDY_MODE_ICONS } from '@/components/study/mode-icons'
+import { cn } from '@/lib/utils'
+
+interface ScenarioChainInterfaceProps {
+  config: StudySessionConfig
+  onSessionEnd: (stats: SessionStats | null) => void
+  onExit: () => void
+}
+
+export function ScenarioChainInterface({ config, onSessionEnd, onExit }: ScenarioChainInterfaceProps) {
+  // Start a chain for the requested chapters (or any chain)
+  const [chainManager] = useState(() => {
+    const manager = new ScenarioChainManager()
+    const chapterIds = config.chapterIds ?? (config.chapterId ? [config.chapterId] : undefined)
+    const chain = pickScenarioChain(chapterIds)
+    if (chain) manager.start(chain)
+    return manager
+  })
+  const [currentStep, setCurrentStep] = useState<ScenarioStep | null>(() => chainManager.getCurrentStep())
+  const [chosenOption, setChosenOption] = useState<ScenarioOption | null>(null)
+  const chain = chainManager.getState()?.chain
+  const relatedCards = chain ? getRelatedScenarioCards(chain) : []
+  const modeConfig = STUDY_MODES[config.mode]
+  const ModeIcon = STUDY_MODE_ICONS[config.mode]
+
+  const persistChain = () => {
+    const state = chainManager.getState()
+    if (!state) return
+    recordScenarioChainSession(state).catch(error => {
+      console.error('Failed to save scenario chain:', error)
+    })
+  }
+
+  const handleChoose = (optionId: string) => {
+    if (chosenOption) return
+    setChosenOption(chainManager.choose(optionId))
+  }
+
+  const handleContinue = () => {
+    const nextStep = chainManager.advance()
+    setChosenOption(null)
+
+    if (nextStep) {
+      setCurrentStep(nextStep)
+    } else {
+      persistChain()
+      onSessionEnd(chainManager.getStats())
+    }
+  }
+
+  const handleExit = () => {
+    persistChain()
+    onExit()
+  }
+
+  if (!currentStep) {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-slate-900 via-slate-800 to-slate-900 flex items-center justify-center">
+        <Card className="glass-card max-w-md">
+          <CardContent className="p-8 text-center">
+            <h2 className="text-xl font-semibold mb-4">No scenarios available</h2>
+            <p className="text-muted-foreground mb-6">Unable to start a scenario chain with current configuration.</p>
+            <Button onClick={onExit}>Return Home</Button>
+          </CardContent>
+        </Card>
+      </div>
+    )
+  }
+
+  const phaseIndex = SCENARIO_PHASES.findIndex(p => p.phase === currentStep.phase)
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-900 via-slate-800 to-slate-900">
+      {/* Header */}
+      <div className="sticky top-0 z-50 bg-background/80 backdrop-blur-xl border-b border-white/10">
+        <div className="max-w-4xl mx-auto px-4 py-4">
+          <div className="flex items-center justify-between">
+            <div className="flex items-center gap-2">
+              <div className={cn("p-2 rounded-lg bg-white/10", modeConfig.display.textColor)}>
+                <ModeIcon className="h-4 w-4" />
+              </div>
+              <div>
+                <h1 className="font-semibold text-lg">{modeConfig.name}</h1>
+                <p className="text-xs text-muted-foreground">{chain?.title}</p>
+              </div>
+            </div>
+
+            <Button variant="ghost" size="sm" onClick={handleExit}>
+              <X className="h-4 w-4" />
+            </Button>
+          </div>
+
+          {/* Phase tracker */}
+          <div className="mt-4 grid grid-cols-5 gap-2">
+            {SCENARIO_PHASES.map((p, index) => (
+              <div key={p.phase} className="text-center">
+                <div className={cn(
+                  "h-1.5 rounded-full mb-1",
+                  index < phaseIndex ? "bg-primary/60" : index === phaseIndex ? "bg-primary" : "bg-white/10"
+                )} />
+                <span className={cn(
+                  "text-[10px] uppercase tracking-wider",
+                  index === phaseIndex ? "text-primary" : "text-muted-foreground"
+                )}>
+                  {p.label}
+                </span>
+              </div>
+            ))}
+          </div>
+        </div>
+      </div>
+
+      {/* Encounter */}
+      <div className="max-w-2xl mx-auto px-4 py-8 space-y-6">
+        {phaseIndex === 0 && !chosenOption && (
+          <p className="text-center text-muted-foreground">{chain?.summary}</p>
+        )}
+
+        <AnimatePresence mode="wait">
+          <motion.div
+            key={currentStep.id}
+            initial={{ opacity: 0, y: 20 }}
+            animate={{ opacity: 1, y: 0 }}
+            exit={{ opacity: 0, y: -20 }}
+            className="space-y-6"
+          >
+            <Card className="glass-card border-white/10 shadow-2xl">
+              <CardContent className="p-6">
+                <Badge className="text-xs bg-rose-500/10 border-rose-500/30 text-rose-200 mb-4">
+                  {SCENARIO_PHASES[phaseIndex]?.label}
+                </Badge>
+                <p className="text-xl leading-relaxed text-foreground font-medium">
+                  {currentStep.prompt}
+                </p>
+              </CardContent>
+            </Card>
+
+            <div className="space-y-3">
+              {currentStep.options.map(option => {
+                const isChosen = chosenOption?.id === option.id
+                return (
+                  <Button
+                    key={option.id}
+                    variant="outline"
+                    disabled={!!chosenOption && !isChosen}
+                    onClick={() => handleChoose(option.id)}
+                    className={cn(
+                      "w-full h-auto justify-start whitespace-normal text-left py-4 px-5 border-2 bg-white/5 border-white/10 hover:bg-white/10",
+                      isChosen && option.correct && "bg-emerald-500/20 border-emerald-500/50 text-emerald-100",
+                      isChosen && !option.correct && "bg-red-500/20 border-red-500/50 text-red-100"
+                    )}
+                  >
+                    {option.text}
+                  </Button>
+                )
+              })}
+            </div>
+
+            {/* Feedback */}
+            <AnimatePresence>
+              {chosenOption && (
+                <motion.div
+                  initial={{ opacity: 0, y: 20, scale: 0.95 }}
+                  animate={{ opacity: 1, y: 0, scale: 1 }}
+                  exit={{ opacity: 0, y: -20, scale: 0.95 }}
+                  transition={{ type: "spring", bounce: 0.3 }}
+                >
+                  <Card className={cn(
+                    "glass-card",
+                    chosenOption.correct ? "border-emerald-500/30" : "border-red-500/30"
+                  )}>
+                    <CardContent className="p-6">
+                      <div className="flex items-start gap-3 mb-4">
+                        {chosenOption.correct
+                          ? <CheckCircle2 className="w-5 h-5 text-emerald-400 mt-0.5 flex-shrink-0" />
+                          : <XCircle className="w-5 h-5 text-red-400 mt-0.5 flex-shrink-0" />}
+                        <p className="text-sm leading-relaxed">{chosenOption.feedback}</p>
+                      </div>
+                      {!chosenOption.nextStepId && relatedCards.length > 0 && (
+                        <div className="mb-4 space-y-2">
+                          <p className="text-xs uppercase tracking-wider text-muted-foreground">Related scenario cards</p>
+                          {relatedCards.map(card => (
+                            <p key={card.id} className="text-sm text-muted-foreground">
+                              Ch. {card.chapterNumber} · {card.question}
+                            </p>
+                          ))}
+                        </div>
+                      )}
+                      <Button onClick={handleContinue} className="w-full">
+                        {chosenOption.nextStepId ? 'Continue' : 'Finish Scenario'}
+                        <ChevronRight className="h-4 w-4 ml-2" />
+                      </Button>
+                    </CardContent>
+                  </Card>
+                </motion.div>
+              )}
+            </AnimatePresence>
+          </motion.div>
+        </AnimatePresence>
+
+        {/* Safety disclaimer for clinical decisions */}
+        <div className="bg-amber-400/10 border border-amber-400/30 rounded-xl p-4 backdrop-blur-sm">
+          <div className="flex items-start gap-3">
+            <AlertTriangle className="w-5 h-5 text-amber-300 mt-0.5 flex-shrink-0" />
+            <p className="text-xs text-amber-200/90 leading-relaxed">
+              Educational scenarios only. Always follow local protocols, medical direction,
+              and your scope of practice in real emergency situations.
+            </p>
+          </div>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -1,44 +1,68 @@
 'use client'
 
-import { useState, useEffect, useCallback } from 'react'
+import { useState, useEffect, useCallback, useRef } from 'react'
 import { motion, AnimatePresence } from 'framer-motion'
 import { Flashcard, FlashcardData } from '@/components/flashcard/Flashcard'
 import { Card, CardContent } from '@/components/ui/card'
 import { Button } from '@/components/ui/button'
 import { Badge } from '@/components/ui/badge'
 import { Progress } from '@/components/ui/progress'
+import { Input } from '@/components/ui/input'
 import { 
   Play, 
   Pause, 
   SkipForward, 
   SkipBack, 
   RotateCcw, 
-  Target,
   Clock,
-  Brain,
-  TrendingUp,
+  Flag,
   Home,
-  Settings,
-  X
+  Timer,
+  CheckCircle2,
+  XCircle,
+  X,
+  Ban,
+  EyeOff
 } from 'lucide-react'
 import { 
   StudySessionManager, 
   StudySessionConfig, 
   StudyResponse,
   SessionStats,
-  StudyMode 
+  StudySessionState
 } from '@/lib/study-session'
+import { STUDY_MODES } from '@/lib/types'
+import { STUDY_MODE_ICONS } from '@/components/study/mode-icons'
+import { buryCard, getCardState, recordCardReview, schedulingRating, setCardFlag, suspendCard } from '@/lib/review-queue'
+import { progressStorage, type CardProgress, type SessionCheckpoint } from '@/lib/progress-storage'
+import { FLAG_COLORS, type FlagColor } from '@/lib/card-actions'
+import type { CardState } from '@/lib/spaced-repetition'
+import { isMultipleChoice } from '@/lib/distractors'
+import { gradeTypedAnswer, type TypedAnswerResult } from '@/lib/answer-matching'
+import { recordStudySession } from '@/lib/session-recorder'
 import { cn } from '@/lib/utils'
+import { useUserSettings } from '@/hooks/useUserSettings'
+import { schedulerFromSettings } from '@/lib/user-settings'
+import { leechPolicyFromSettings } from '@/lib/leeches'
+
+const CARD_STATE_STYLES: Record<CardState, { label: string; className: string }> = {
+  new: { label: 'New', className: 'bg-blue-500/20 border-blue-500/40 text-blue-200' },
+  learning: { label: 'Learning', className: 'bg-orange-500/20 border-orange-500/40 text-orange-200' },
+  review: { label: 'Review', className: 'bg-emerald-500/20 border-emerald-500/40 text-emerald-200' },
+  relearning: { label: 'Relearning', className: 'bg-red-500/20 border-red-500/40 text-red-200' }
+}
 
 interface StudyInterfaceProps {
   cards: FlashcardData[]
   config: StudySessionConfig
   onSessionEnd: (stats: SessionStats | null) => void
   onExit: () => void
+  resume?: SessionCheckpoint | null // Continue a checkpointed session instead of starting a new one
 }
 
-export function StudyInterface({ cards, config, onSessionEnd, onExit }: StudyInterfaceProps) {
-  const [sessionManager] = useState(() => new StudySessionManager())
+export function StudyInterface({ cards, config, onSessionEnd, onExit, resume }: StudyInterfaceProps) {
+  const settings = useUserSettings()
+  const [sessionManager] = useState(() => new StudySessionManager(settings))
   const [currentCard, setCurrentCard] = useState<FlashcardData | null>(null)
   const [isFlipped, setIsFlipped] = useState(false)
   const [isPaused, setIsPaused] = useState(false)
@@ -46,23 +70,125 @@ export function StudyInterface({ cards, config, onSessionEnd, onExit }: StudyInt
   const [sessionStartTime, setSessionStartTime] = useState(0)
   const [cardStartTime, setCardStartTime] = useState(0)
   const [progress, setProgress] = useState({ current: 0, total: 0, percentage: 0 })
+  const [isFlagged, setIsFlagged] = useState(false)
+  const [selectedOption, setSelectedOption] = useState<number | null>(null)
+  const [typedAnswer, setTypedAnswer] = useState('')
+  const [typedResult, setTypedResult] = useState<TypedAnswerResult | null>(null)
+  const [timeRemaining, setTimeRemaining] = useState<number | null>(null)
+  const [sessionReady, setSessionReady] = useState(false)
+  const [storedProgress, setStoredProgress] = useState<{ cardId: string; progress: CardProgress | null } | null>(null)
+  const [starredIds, setStarredIds] = useState<Set<string>>(new Set())
+  const pendingReviews = useRef<Promise<unknown>[]>([])
+  const modeConfig = STUDY_MODES[config.mode]
+  const ModeIcon = STUDY_MODE_ICONS[config.mode]
+  const isTypedCard = !!currentCard && !isMultipleChoice(currentCard) && sessionManager.getQuestionFormat() === 'typed'
+  const currentProgress = storedProgress && storedProgress.cardId === currentCard?.id ? storedProgress.progress : undefined
+  const cardState: CardState | null = currentProgress === undefined ? null : getCardState(currentProgress)
+  const flagColor = currentProgress?.flagColor ?? null
 
-  // Initialize session
-  useEffect(() => {
-    const session = sessionManager.createSession(config, cards)
-    const firstCard = sessionManager.getCurrentCard()
-    setCurrentCard(firstCard)
-    setSessionStartTime(Date.now())
-    setCardStartTime(Date.now())
-    updateProgress()
-  }, [cards, config, sessionManager])
+  // Save the session as it stands so a reload or app kill can pick it back up
+  const checkpointSession = useCallback(() => {
+    const session = sessionManager.getSession()
+    if (!session || session.isComplete) return
+
+    progressStorage.saveSessionCheckpoint({
+      session,
+      elapsed: sessionManager.getElapsedTime(),
+      savedAt: Date.now()
+    }).catch(error => console.error('Failed to checkpoint session:', error))
+  }, [sessionManager])
 
   const updateProgress = useCallback(() => {
     const newProgress = sessionManager.getProgress()
     setProgress(newProgress)
   }, [sessionManager])
 
+  // Initialize session once stored suspend, bury and flag state is known
+  useEffect(() => {
+    let cancelled = false
+
+    progressStorage.getAllCardProgress()
+      .catch(error => {
+        console.error('Failed to load card progress:', error)
+        return []
+      })
+      .then(allProgress => {
+        if (cancelled) return
+        const session = resume
+          ? sessionManager.restoreSession(resume.session, resume.elapsed)
+          : sessionManager.createSession(config, cards, allProgress)
+        const firstCard = sessionManager.getCurrentCard()
+        setCurrentCard(firstCard)
+        setIsFlagged(firstCard ? sessionManager.isFlagged(firstCard.id) : false)
+        setSessionStartTime(session.startTime)
+        setCardStartTime(Date.now())
+        updateProgress()
+        setSessionReady(true)
+        checkpointSession()
+      })
+
+    return () => {
+      cancelled = true
+    }
+  }, [cards, config, resume, sessionManager, checkpointSession, updateProgress])
+
+  // Mobile browsers may kill a backgrounded tab without warning
+  useEffect(() => {
+    const handleVisibilityChange = () => {
+      if (document.visibilityState === 'hidden') checkpointSession()
+    }
+
+    document.addEventListener('visibilitychange', handleVisibilityChange)
+    window.addEventListener('pagehide', checkpointSession)
+    return () => {
+      document.removeEventListener('visibilitychange', handleVisibilityChange)
+      window.removeEventListener('pagehide', checkpointSession)
+    }
+  }, [checkpointSession])
+
+  useEffect(() => {
+    let cancelled = false
+
+    progressStorage.getStarredCards()
+      .then(starred => {
+        if (!cancelled) setStarredIds(new Set(starred.map(card => card.cardId)))
+      })
+      .catch(error => console.error('Failed to load starred cards:', error))
+
+    return () => {
+      cancelled = true
+    }
+  }, [])
+
+  // Look up the current card's learning state and flag once earlier ratings are saved
+  useEffect(() => {
+    if (!currentCard) return
+    let cancelled = false
+
+    Promise.all(pendingReviews.current)
+      .then(() => progressStorage.getCardProgress(currentCard.id))
+      .then(cardProgress => {
+        if (!cancelled) setStoredProgress({ cardId: currentCard.id, progress: cardProgress })
+      })
+      .catch(error => console.error('Failed to load card state:', error))
+
+    return () => {
+      cancelled = true
+    }
+  }, [currentCard])
+
   const handleCardFlip = () => {
+    // Multiple-choice cards are answered by picking an option, not by flipping
+    if (currentCard && isMultipleChoice(currentCard) && selectedOption === null) return
+    // Typed answers must be submitted before the answer can be seen
+    if (isTypedCard && !typedResult) return
+
+    // Modes that withhold answers go straight to the confidence rating
+    if (!modeConfig.showAnswersImmediately) {
+      if (!isPaused) setShowDifficultyRating(true)
+      return
+    }
+
     if (!isPaused) {
       setIsFlipped(!isFlipped)
       if (!isFlipped) {
@@ -72,51 +198,231 @@ export function StudyInterface({ cards, config, onSessionEnd, onExit }: StudyInt
     }
   }
 
-  const handleDifficultyRating = (difficulty: StudyResponse['difficulty'], confidence: number) => {
+  // Wait for in-flight card writes so chapter rollups see the final ratings.
+  // The session is over once it is recorded, so its checkpoint goes too.
+  const persistSession = useCallback(async (session: StudySessionState | null) => {
+    if (!session) return
+    try {
+      await progressStorage.clearSessionCheckpoint()
+      await Promise.all(pendingReviews.current)
+      pendingReviews.current = []
+      await recordStudySession(session)
+    } catch (error) {
+      console.error('Failed to save study session:', error)
+    }
+  }, [])
+
+  // Exam countdown - auto-submits whatever has been answered when time runs out
+  useEffect(() => {
+    if (!modeConfig.enforceTimeLimit) return
+
+    const timer = setInterval(() => {
+      const remaining = sessionManager.getTimeRemaining()
+      setTimeRemaining(remaining)
+
+      if (remaining === 0) {
+        clearInterval(timer)
+        sessionManager.expireSession()
+        const stats = sessionManager.getSessionStats()
+        persistSession(sessionManager.getSession())
+        onSessionEnd(stats)
+      }
+    }, 1000)
+
+    return () => clearInterval(timer)
+  }, [modeConfig.enforceTimeLimit, sessionManager, persistSession, onSessionEnd])
+
+  const formatCountdown = (ms: number) => {
+    const totalSeconds = Math.ceil(ms / 1000)
+    const minutes = Math.floor(totalSeconds / 60)
+    const seconds = totalSeconds % 60
+    return `${minutes}:${seconds.toString().padStart(2, '0')}`
+  }
+
+  const handleSelectOption = (index: number) => {
+    if (isPaused || selectedOption !== null) return
+    setSelectedOption(index)
+
+    if (modeConfig.showAnswersImmediately) {
+      setIsFlipped(true)
+      setTimeout(() => setShowDifficultyRating(true), 300)
+    } else {
+      setShowDifficultyRating(true)
+    }
+  }
+
+  const handleSubmitTypedAnswer = () => {
+    if (!currentCard || isPaused || typedResult || !typedAnswer.trim()) return
+    setTypedResult(gradeTypedAnswer(typedAnswer, currentCard.answer))
+
+    if (modeConfig.showAnswersImmediately) {
+      setIsFlipped(true)
+      setTimeout(() => setShowDifficultyRating(true), 300)
+    } else {
+      setShowDifficultyRating(true)
+    }
+  }
+
+  const handleDifficultyRating = (
+    difficulty: StudyResponse['difficulty'],
+    confidence: number,
+    requeue = difficulty === 'again'
+  ) => {
     if (!currentCard) return
 
     const timeSpent = Date.now() - cardStartTime
 
+    // Multiple-choice and typed answers are marked objectively; free recall falls back to confidence
+    const answeredOption = isMultipleChoice(currentCard) ? selectedOption : null
+    let isCorrect = confidence >= 3 // Consider 3+ as correct
+    if (isMultipleChoice(currentCard)) {
+      isCorrect = answeredOption === currentCard.correctIndex
+    } else if (isTypedCard) {
+      isCorrect = typedResult?.isCorrect ?? false
+    }
+
     const response: Omit<StudyResponse, 'cardId' | 'timestamp'> = {
       timeSpent,
       difficulty,
       confidence,
-      isCorrect: confidence >= 3 // Consider 3+ as correct
+      isCorrect,
+      selectedOption: answeredOption ?? undefined,
+      typedAnswer: isTypedCard ? typedAnswer : undefined
     }
 
     sessionManager.recordResponse(response)
-    
-    // Move to next card
+
+    // Free recall rated without seeing the answer is left unscheduled
+    const rating = schedulingRating(difficulty, {
+      isCorrect,
+      graded: isMultipleChoice(currentCard) || isTypedCard,
+      answerShown: modeConfig.showAnswersImmediately
+    })
+    if (rating) {
+      pendingReviews.current.push(
+        recordCardReview(
+          currentCard.id,
+          rating,
+          isCorrect,
+          timeSpent,
+          schedulerFromSettings(settings),
+          leechPolicyFromSettings(settings)
+        ).catch(error => {
+          console.error('Failed to save card review:', error)
+        })
+      )
+    }
+
+    // Again puts the card back on a learning step, so it comes back later this session
+    if (requeue || (rating === 'again' && modeConfig.showAnswersImmediately)) {
+      sessionManager.requeueCurrentCard()
+    }
+
+    advance()
+  }
+
+  const advance = () => {
     const nextCard = sessionManager.nextCard()
     if (nextCard) {
-      setCurrentCard(nextCard)
-      setIsFlipped(false)
-      setShowDifficultyRating(false)
-      setCardStartTime(Date.now())
-      updateProgress()
+      showCard(nextCard)
     } else {
-      // Session complete
-      const stats = sessionManager.getSessionStats()
-      onSessionEnd(stats)
+      finishSession()
     }
   }
 
+  const showCard = (card: FlashcardData) => {
+    setCurrentCard(card)
+    setIsFlipped(false)
+    setShowDifficultyRating(false)
+    setSelectedOption(null)
+    setTypedAnswer('')
+    setTypedResult(null)
+    setIsFlagged(sessionManager.isFlagged(card.id))
+    setCardStartTime(Date.now())
+    updateProgress()
+    checkpointSession()
+  }
+
+  const finishSession = () => {
+    const stats = sessionManager.getSessionStats()
+    persistSession(sessionManager.getSession())
+    onSessionEnd(stats)
+  }
+
   const handlePrevious = () => {
     const prevCard = sessionManager.previousCard()
     if (prevCard) {
-      setCurrentCard(prevCard)
-      setIsFlipped(false)
-      setShowDifficultyRating(false)
-      setCardStartTime(Date.now())
-      updateProgress()
+      showCard(prevCard)
     }
   }
 
+  // Suspending or burying also takes the card out of the rest of this session
+  const handleSetAside = async (action: (cardId: string) => Promise<CardProgress>) => {
+    if (!currentCard) return
+    try {
+      await action(currentCard.id)
+    } catch (error) {
+      console.error('Failed to update card:', error)
+      return
+    }
+
+    const nextCard = sessionManager.removeCurrentCard()
+    if (nextCard) {
+      showCard(nextCard)
+    } else {
+      finishSession()
+    }
+  }
+
+  // Picking the current colour again clears the flag
+  const handleSetFlagColor = async (color: FlagColor) => {
+    if (!currentCard) return
+    try {
+      const updated = await setCardFlag(currentCard.id, color === flagColor ? null : color)
+      setStoredProgress({ cardId: currentCard.id, progress: updated })
+    } catch (error) {
+      console.error('Failed to flag card:', error)
+    }
+  }
+
+  const handleToggleStar = async () => {
+    if (!currentCard) return
+    const cardId = currentCard.id
+    const starred = starredIds.has(cardId)
+    try {
+      if (starred) {
+        await progressStorage.unstarCard(cardId)
+      } else {
+        await progressStorage.starCard(cardId)
+      }
+      setStarredIds(prev => {
+        const next = new Set(prev)
+        if (starred) next.delete(cardId)
+        else next.add(cardId)
+        return next
+      })
+    } catch (error) {
+      console.error('Failed to update favorites:', error)
+    }
+  }
+
+  // A skip shows in this session's stats as unanswered; the card's schedule,
+  // answer counts and lapses are left alone
   const handleSkip = () => {
     if (!currentCard) return
-    
-    // Record as skipped (low confidence)
-    handleDifficultyRating('again', 1)
+
+    sessionManager.recordResponse({
+      timeSpent: Date.now() - cardStartTime,
+      difficulty: 'again',
+      confidence: 1,
+      isCorrect: false,
+      skipped: true
+    })
+    advance()
+  }
+
+  const handleToggleFlag = () => {
+    setIsFlagged(sessionManager.toggleFlag())
   }
 
   const togglePause = () => {
@@ -130,6 +436,7 @@ export function StudyInterface({ cards, config, onSessionEnd, onExit }: StudyInt
   }
 
   const handleExit = () => {
+    persistSession(sessionManager.getSession())
     const stats = sessionManager.endSession()
     onExit()
   }
@@ -141,24 +448,12 @@ export function StudyInterface({ cards, config, onSessionEnd, onExit }: StudyInt
     { key: 'easy', label: 'Easy', confidence: 5, color: 'bg-emerald-500/20 border-emerald-500/50 text-emerald-200 hover:bg-emerald-500/30' }
   ]
 
-  const getModeIcon = (mode: StudyMode) => {
-    switch (mode) {
-      case 'quick-drill': return <Brain className="h-4 w-4" />
-      case 'deep-session': return <Target className="h-4 w-4" />
-      case 'exam-mimic': return <TrendingUp className="h-4 w-4" />
-      case 'random-250': return <Brain className="h-4 w-4" />
-      case 'custom-drill': return <Settings className="h-4 w-4" />
-    }
-  }
-
-  const getModeColor = (mode: StudyMode) => {
-    switch (mode) {
-      case 'quick-drill': return 'text-cyan-400'
-      case 'deep-session': return 'text-blue-400'
-      case 'exam-mimic': return 'text-purple-400'
-      case 'random-250': return 'text-red-400'
-      case 'custom-drill': return 'text-emerald-400'
-    }
+  if (!sessionReady) {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-slate-900 via-slate-800 to-slate-900 flex items-center justify-center">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary"></div>
+      </div>
+    )
   }
 
   if (!currentCard) {
@@ -184,35 +479,62 @@ export function StudyInterface({ cards, config, onSessionEnd, onExit }: StudyInt
             {/* Mode & Progress */}
             <div className="flex items-center gap-4">
               <div className="flex items-center gap-2">
-                <div className={cn("p-2 rounded-lg bg-white/10", getModeColor(config.mode))}>
-                  {getModeIcon(config.mode)}
+                <div className={cn("p-2 rounded-lg bg-white/10", modeConfig.display.textColor)}>
+                  <ModeIcon className="h-4 w-4" />
                 </div>
                 <div>
-                  <h1 className="font-semibold text-lg">{config.mode.replace('-', ' ').replace(/\b\w/g, l => l.toUpperCase())}</h1>
+                  <h1 className="font-semibold text-lg">{modeConfig.name}</h1>
                   <p className="text-xs text-muted-foreground">
                     Card {progress.current} of {progress.total}
                   </p>
                 </div>
               </div>
               
-              <div className="w-48">
-                <Progress value={progress.percentage} className="h-2" />
-                <p className="text-xs text-muted-foreground mt-1 text-center">
-                  {progress.percentage}% complete
-                </p>
-              </div>
+              {settings.showProgress && (
+                <div className="w-48">
+                  <Progress value={progress.percentage} className="h-2" />
+                  <p className="text-xs text-muted-foreground mt-1 text-center">
+                    {progress.percentage}% complete
+                  </p>
+                </div>
+              )}
             </div>
 
             {/* Controls */}
             <div className="flex items-center gap-3">
-              <Button variant="ghost" size="sm" onClick={handlePrevious} disabled={progress.current === 1}>
-                <SkipBack className="h-4 w-4" />
-              </Button>
+              {timeRemaining !== null && (
+                <div className={cn(
+                  "flex items-center gap-1.5 px-3 py-1 rounded-lg bg-white/10 font-mono text-sm",
+                  timeRemaining < 5 * 60 * 1000 ? "text-red-400" : "text-foreground"
+                )}>
+                  <Timer className="h-4 w-4" />
+                  {formatCountdown(timeRemaining)}
+                </div>
+              )}
+
+              {modeConfig.allowRetries && (
+                <Button variant="ghost" size="sm" onClick={handlePrevious} disabled={progress.current === 1}>
+                  <SkipBack className="h-4 w-4" />
+                </Button>
+              )}
               
-              <Button variant="ghost" size="sm" onClick={togglePause}>
-                {isPaused ? <Play className="h-4 w-4" /> : <Pause className="h-4 w-4" />}
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={handleToggleFlag}
+                className={cn(isFlagged && "text-amber-400")}
+                title={isFlagged ? 'Remove flag' : 'Flag for review'}
+              >
+                <Flag className={cn("h-4 w-4", isFlagged && "fill-current")} />
               </Button>
 
+              {/* The exam clock keeps running, so there is nothing to pause */}
+              {!modeConfig.enforceTimeLimit && (
+                <Button variant="ghost" size="sm" onClick={togglePause}>
+                  {isPaused ? <Play className="h-4 w-4" /> : <Pause className="h-4 w-4" />}
+                </Button>
+              )}
+
               <Button variant="ghost" size="sm" onClick={handleSkip}>
                 <SkipForward className="h-4 w-4" />
               </Button>
@@ -243,12 +565,69 @@ export function StudyInterface({ cards, config, onSessionEnd, onExit }: StudyInt
                 onFlip={handleCardFlip}
                 showTimer={true}
                 startTime={cardStartTime}
+                flipHint={isTypedCard
+                  ? 'Type your answer below'
+                  : modeConfig.showAnswersImmediately ? undefined : 'Click when ready to answer'}
+                selectedOption={selectedOption}
+                onSelectOption={handleSelectOption}
+                isStarred={starredIds.has(currentCard.id)}
+                onToggleStar={handleToggleStar}
                 className="mb-8"
               />
 
+              {/* Typed Answer */}
+              {isTypedCard && (
+                <Card className="glass-card">
+                  <CardContent className="p-4 space-y-3">
+                    <form
+                      className="flex gap-3"
+                      onSubmit={(event) => {
+                        event.preventDefault()
+                        handleSubmitTypedAnswer()
+                      }}
+                    >
+                      <Input
+                        value={typedAnswer}
+                        onChange={(event) => setTypedAnswer(event.target.value)}
+                        placeholder="Type your answer..."
+                        disabled={!!typedResult}
+                        autoFocus
+                        className="bg-white/5 border-white/10"
+                      />
+                      <Button type="submit" disabled={!!typedResult || !typedAnswer.trim()}>
+                        Check Answer
+                      </Button>
+                    </form>
+
+                    {typedResult && modeConfig.showAnswersImmediately && (
+                      <div className="space-y-2">
+                        <div className={cn(
+                          "flex items-center gap-2 text-sm font-medium",
+                          typedResult.isCorrect ? "text-emerald-300" : "text-red-300"
+                        )}>
+                          {typedResult.isCorrect
+                            ? <CheckCircle2 className="h-4 w-4" />
+                            : <XCircle className="h-4 w-4" />}
+                          {typedResult.isCorrect ? 'Correct' : 'Not quite'} - matched {typedResult.matchedTerms.length} of {typedResult.matchedTerms.length + typedResult.missingTerms.length} key terms
+                        </div>
+                        {typedResult.missingTerms.length > 0 && (
+                          <div className="flex flex-wrap gap-2">
+                            {typedResult.missingTerms.map(term => (
+                              <Badge key={term} variant="outline" className="text-xs bg-white/5 border-white/20">
+                                {term}
+                              </Badge>
+                            ))}
+                          </div>
+                        )}
+                      </div>
+                    )}
+                  </CardContent>
+                </Card>
+              )}
+
               {/* Difficulty Rating */}
               <AnimatePresence>
-                {showDifficultyRating && isFlipped && (
+                {showDifficultyRating && (isFlipped || !modeConfig.showAnswersImmediately) && (
                   <motion.div
                     initial={{ opacity: 0, y: 20, scale: 0.95 }}
                     animate={{ opacity: 1, y: 0, scale: 1 }}
@@ -257,7 +636,9 @@ export function StudyInterface({ cards, config, onSessionEnd, onExit }: StudyInt
                   >
                     <Card className="glass-card border-primary/30">
                       <CardContent className="p-6">
-                        <h3 className="text-lg font-semibold text-center mb-4">How did you do?</h3>
+                        <h3 className="text-lg font-semibold text-center mb-4">
+                          {modeConfig.showAnswersImmediately ? 'How did you do?' : 'How confident are you?'}
+                        </h3>
                         <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
                           {difficultyButtons.map((button) => (
                             <Button
@@ -280,7 +661,9 @@ export function StudyInterface({ cards, config, onSessionEnd, onExit }: StudyInt
                           ))}
                         </div>
                         <p className="text-xs text-center text-muted-foreground mt-4">
-                          Rate your confidence to improve spaced repetition scheduling
+                          {modeConfig.showAnswersImmediately
+                            ? 'Rate your confidence to improve spaced repetition scheduling'
+                            : 'Answers are hidden during this session'}
                         </p>
                       </CardContent>
                     </Card>
@@ -299,6 +682,32 @@ export function StudyInterface({ cards, config, onSessionEnd, onExit }: StudyInt
                       <Badge variant="outline" className="bg-white/5 border-white/20">
                         {currentCard.difficulty}
                       </Badge>
+                      {cardState && (
+                        <Badge variant="outline" className={CARD_STATE_STYLES[cardState].className}>
+                          {CARD_STATE_STYLES[cardState].label}
+                        </Badge>
+                      )}
+                    </div>
+                    <div className="flex items-center gap-2">
+                      {(Object.keys(FLAG_COLORS) as FlagColor[]).map(color => (
+                        <button
+                          key={color}
+                          type="button"
+                          onClick={() => handleSetFlagColor(color)}
+                          title={flagColor === color ? 'Remove flag' : `Flag ${FLAG_COLORS[color].label.toLowerCase()}`}
+                          className={cn(
+                            "h-4 w-4 rounded-full transition-all",
+                            FLAG_COLORS[color].className,
+                            flagColor === color ? "ring-2 ring-white ring-offset-2 ring-offset-slate-900" : "opacity-40 hover:opacity-80"
+                          )}
+                        />
+                      ))}
+                      <Button variant="ghost" size="sm" onClick={() => handleSetAside(buryCard)} title="Bury until tomorrow">
+                        <EyeOff className="h-4 w-4" />
+                      </Button>
+                      <Button variant="ghost" size="sm" onClick={() => handleSetAside(suspendCard)} title="Suspend card">
+                        <Ban className="h-4 w-4" />
+                      </Button>
                     </div>
                     <div className="flex items-center gap-2 text-muted-foreground">
                       <Clock className="h-4 w-4" />
@@ -0,0 +1,14 @@
+import { Ambulance, Brain, CalendarClock, Settings, Star, Target, TrendingUp, type LucideIcon } from 'lucide-react'
+import type { StudyMode } from '@/lib/types'
+
+// Kept out of the STUDY_MODES registry so server code that reads it does not load UI components
+export const STUDY_MODE_ICONS: Record<StudyMode, LucideIcon> = {
+  'custom-drill': Settings,
+  'spaced-repetition': CalendarClock,
+  'quick-drill': Brain,
+  'deep-session': Target,
+  'exam-mimic': TrendingUp,
+  'random-250': Brain,
+  'scenario-chain': Ambulance,
+  favorites: Star
+}
@@ -0,0 +1,720 @@
+/**
+ * Anki Package - reads and writes .apkg files without native dependencies
+ * An .apkg is a zip holding the collection as an SQLite database. Only what
+ * Anki decks need is implemented here: stored and deflated zip entries, and
+ * SQLite table b-trees (with overflow pages) in the legacy schema 11 layout
+ * that every Anki version can import.
+ */
+
+export interface AnkiNote {
+  id: number
+  modelName: string
+  isCloze: boolean
+  fieldNames: string[]
+  fields: string[] // Raw field HTML, in the note type's field order
+  tags: string[]
+}
+
+interface AnkiModel {
+  name: string
+  isCloze: boolean
+  fieldNames: string[]
+}
+
+type SqlValue = number | string | Uint8Array | null
+
+// Column positions in the legacy (schema 11) collection that every Anki version can export
+const NOTES_COLUMNS = { mid: 2, tags: 5, flds: 6 }
+const COL_COLUMNS = { models: 9 }
+const FIELD_SEPARATOR = '\x1f'
+
+// Newest readable collection first; collection.anki21b is zstd-compressed and not supported
+const COLLECTION_FILES = ['collection.anki21', 'collection.anki2']
+
+// Largest entry we will inflate; a few kilobytes of deflate can claim gigabytes
+const MAX_ENTRY_BYTES = 256 * 1024 * 1024
+
+// Real collections are a handful of levels deep; anything deeper is a crafted file
+const MAX_BTREE_DEPTH = 32
+
+// Page numbers come from the uploaded file, so bad ones are reported rather than followed
+const UNREADABLE_DECK = 'Could not read the deck file'
+
+// --- Zip ---
+
+// Stops as soon as the output passes `limit`, whatever size the zip directory claimed
+async function inflateRaw(data: Uint8Array, limit: number): Promise<Uint8Array> {
+  const reader = new Blob([data as BlobPart]).stream().pipeThrough(new DecompressionStream('deflate-raw')).getReader()
+  const chunks: Uint8Array[] = []
+  let size = 0
+
+  for (let result = await reader.read(); !result.done; result = await reader.read()) {
+    size += result.value.length
+    if (size > limit) {
+      await reader.cancel()
+      throw new Error('The .apkg file expands to more data than it declares or is too large to import')
+    }
+    chunks.push(result.value)
+  }
+
+  const output = new Uint8Array(size)
+  let offset = 0
+  for (const chunk of chunks) {
+    output.set(chunk, offset)
+    offset += chunk.length
+  }
+  return output
+}
+
+async function readZipEntries(archive: Uint8Array): Promise<Map<string, () => Promise<Uint8Array>>> {
+  const view = new DataView(archive.buffer, archive.byteOffset, archive.byteLength)
+  const decoder = new TextDecoder()
+
+  // End of central directory record; it sits after a comment of up to 64KB
+  let eocd = -1
+  for (let i = archive.length - 22; i >= Math.max(0, archive.length - 22 - 0xffff); i--) {
+    if (view.getUint32(i, true) === 0x06054b50) {
+      eocd = i
+      break
+    }
+  }
+  if (eocd < 0) throw new Error('Not a valid .apkg file (zip directory not found)')
+
+  const entries = new Map<string, () => Promise<Uint8Array>>()
+  const count = view.getUint16(eocd + 10, true)
+  let offset = view.getUint32(eocd + 16, true)
+
+  for (let i = 0; i < count; i++) {
+    if (view.getUint32(offset, true) !== 0x02014b50) throw new Error('Corrupt .apkg file (bad zip entry)')
+    const method = view.getUint16(offset + 10, true)
+    const compressedSize = view.getUint32(offset + 20, true)
+    const uncompressedSize = view.getUint32(offset + 24, true)
+    const nameLength = view.getUint16(offset + 28, true)
+    const extraLength = view.getUint16(offset + 30, true)
+    const commentLength = view.getUint16(offset + 32, true)
+    const localOffset = view.getUint32(offset + 42, true)
+    const name = decoder.decode(archive.subarray(offset + 46, offset + 46 + nameLength))
+
+    entries.set(name, async () => {
+      const dataStart = localOffset + 30 + view.getUint16(localOffset + 26, true) + view.getUint16(localOffset + 28, true)
+      const data = archive.subarray(dataStart, dataStart + compressedSize)
+      if (uncompressedSize > MAX_ENTRY_BYTES) {
+        throw new Error(`${name} in the .apkg file is too large to import`)
+      }
+      if (method === 0) return data
+      if (method === 8) return inflateRaw(data, uncompressedSize)
+      throw new Error(`Unsupported zip compression method ${method} for ${name}`)
+    })
+    offset += 46 + nameLength + extraLength + commentLength
+  }
+
+  return entries
+}
+
+// --- SQLite ---
+
+class SqliteReader {
+  private view: DataView
+  private pageSize: number
+  private pageCount: number
+  private usableSize: number
+  private decoder: TextDecoder
+
+  constructor(private file: Uint8Array) {
+    if (new TextDecoder().decode(file.subarray(0, 15)) !== 'SQLite format 3') {
+      throw new Error('The .apkg collection is not an SQLite database')
+    }
+    this.view = new DataView(file.buffer, file.byteOffset, file.byteLength)
+    const pageSize = this.view.getUint16(16)
+    this.pageSize = pageSize === 1 ? 65536 : pageSize
+    if (this.pageSize < 512 || (this.pageSize & (this.pageSize - 1)) !== 0) throw new Error(UNREADABLE_DECK)
+    this.pageCount = Math.floor(file.byteLength / this.pageSize)
+    this.usableSize = this.pageSize - file[20]
+    const encoding = this.view.getUint32(56)
+    this.decoder = new TextDecoder(encoding === 2 ? 'utf-16le' : encoding === 3 ? 'utf-16be' : 'utf-8')
+  }
+
+  // Rows of a table by name, via the schema table on page 1
+  readTable(name: string): { rowid: number; values: SqlValue[] }[] {
+    const schema = this.readBTree(1)
+    const entry = schema.find(row => row.values[0] === 'table' && row.values[1] === name)
+    if (!entry) throw new Error(`The .apkg collection has no ${name} table`)
+    return this.readBTree(entry.values[3] as number)
+  }
+
+  private pageOffset(page: number): number {
+    return (page - 1) * this.pageSize
+  }
+
+  // Offset of a page that is in the file and not yet visited on this walk
+  private visitPage(page: number, visited: Set<number>): number {
+    if (!Number.isInteger(page) || page < 1 || page > this.pageCount || visited.has(page)) {
+      throw new Error(UNREADABLE_DECK)
+    }
+    visited.add(page)
+    return this.pageOffset(page)
+  }
+
+  private readVarint(offset: number): { value: number; length: number } {
+    let value = 0
+    for (let i = 0; i < 8; i++) {
+      const byte = this.file[offset + i]
+      value = value * 128 + (byte & 0x7f)
+      if (byte < 0x80) return { value, length: i + 1 }
+    }
+    return { value: value * 256 + this.file[offset + 8], length: 9 }
+  }
+
+  private readBTree(page: number, visited = new Set<number>(), depth = 0): { rowid: number; values: SqlValue[] }[] {
+    if (depth > MAX_BTREE_DEPTH) throw new Error(UNREADABLE_DECK)
+    const rows: { rowid: number; values: SqlValue[] }[] = []
+    const start = this.visitPage(page, visited)
+    const header = page === 1 ? start + 100 : start
+    const type = this.file[header]
+    const cellCount = this.view.getUint16(header + 3)
+    const pointers = header + (type === 0x05 ? 12 : 8)
+
+    if (type !== 0x05 && type !== 0x0d) throw new Error(`Unexpected SQLite page type ${type}`)
+
+    for (let i = 0; i < cellCount; i++) {
+      const cell = start + this.view.getUint16(pointers + i * 2)
+      if (type === 0x05) {
+        rows.push(...this.readBTree(this.view.getUint32(cell), visited, depth + 1))
+        continue
+      }
+      const payloadSize = this.readVarint(cell)
+      const rowid = this.readVarint(cell + payloadSize.length)
+      const payload = this.readPayload(cell + payloadSize.length + rowid.length, payloadSize.value)
+      rows.push({ rowid: rowid.value, values: this.readRecord(payload) })
+    }
+
+    if (type === 0x05) rows.push(...this.readBTree(this.view.getUint32(header + 8), visited, depth + 1))
+    return rows
+  }
+
+  // Large records spill into a chain of overflow pages
+  private readPayload(offset: number, size: number): Uint8Array {
+    const maxLocal = this.usableSize - 35
+    if (size <= maxLocal) return this.file.subarray(offset, offset + size)
+
+    const minLocal = Math.floor((this.usableSize - 12) * 32 / 255) - 23
+    const spill = minLocal + ((size - minLocal) % (this.usableSize - 4))
+    const local = spill <= maxLocal ? spill : minLocal
+
+    const payload = new Uint8Array(size)
+    payload.set(this.file.subarray(offset, offset + local))
+    let written = local
+    let next = this.view.getUint32(offset + local)
+    const visited = new Set<number>()
+    while (next && written < size) {
+      const pageStart = this.visitPage(next, visited)
+      const chunk = Math.min(size - written, this.usableSize - 4)
+      payload.set(this.file.subarray(pageStart + 4, pageStart + 4 + chunk), written)
+      written += chunk
+      next = this.view.getUint32(pageStart)
+    }
+    return payload
+  }
+
+  private readRecord(payload: Uint8Array): SqlValue[] {
+    const view = new DataView(payload.buffer, payload.byteOffset, payload.byteLength)
+    const varint = (offset: number) => {
+      let value = 0
+      for (let i = 0; i < 9; i++) {
+        const byte = payload[offset + i]
+        value = value * 128 + (byte & 0x7f)
+        if (byte < 0x80) return { value, length: i + 1 }
+      }
+      return { value, length: 9 }
+    }
+
+    const headerSize = varint(0)
+    const types: number[] = []
+    for (let offset = headerSize.length; offset < headerSize.value;) {
+      const serial = varint(offset)
+      types.push(serial.value)
+      offset += serial.length
+    }
+
+    const values: SqlValue[] = []
+    let offset = headerSize.value
+    for (const serial of types) {
+      if (serial === 0) {
+        values.push(null)
+      } else if (serial >= 1 && serial <= 6) {
+        const length = [1, 2, 3, 4, 6, 8][serial - 1]
+        let value = 0
+        for (let i = 0; i < length; i++) value = value * 256 + payload[offset + i]
+        // Two's complement for negative integers
+        if (payload[offset] & 0x80) value -= 2 ** (length * 8)
+        values.push(value)
+        offset += length
+      } else if (serial === 7) {
+        values.push(view.getFloat64(offset))
+        offset += 8
+      } else if (serial === 8 || serial === 9) {
+        values.push(serial - 8)
+      } else {
+        const length = Math.floor((serial - 12) / 2)
+        const bytes = payload.subarray(offset, offset + length)
+        values.push(serial % 2 === 0 ? bytes : this.decoder.decode(bytes))
+        offset += length
+      }
+    }
+    return values
+  }
+}
+
+// --- Anki ---
+
+function parseModels(json: SqlValue): Map<string, AnkiModel> {
+  const models = new Map<string, AnkiModel>()
+  if (typeof json !== 'string' || !json) return models
+
+  const parsed = JSON.parse(json) as Record<string, { name?: string; type?: number; flds?: { name: string; ord: number }[] }>
+  for (const [id, model] of Object.entries(parsed)) {
+    models.set(id, {
+      name: model.name ?? 'Unknown',
+      isCloze: model.type === 1,
+      fieldNames: [...(model.flds ?? [])].sort((a, b) => a.ord - b.ord).map(field => field.name)
+    })
+  }
+  return models
+}
+
+// Read every note in an .apkg; cards are not needed since they only repeat note content
+export async function readAnkiPackage(data: ArrayBuffer | Uint8Array): Promise<AnkiNote[]> {
+  const entries = await readZipEntries(data instanceof Uint8Array ? data : new Uint8Array(data))
+  const collectionName = COLLECTION_FILES.find(name => entries.has(name))
+
+  // Newer exports keep a placeholder collection.anki2 next to the real, zstd-compressed one
+  if (!collectionName || (collectionName === 'collection.anki2' && entries.has('collection.anki21b'))) {
+    throw new Error('This deck uses the newest Anki format. Export it again with "Support older Anki versions" checked.')
+  }
+
+  const collection = await entries.get(collectionName)!()
+  let col: { values: SqlValue[] } | undefined
+  let notes: { rowid: number; values: SqlValue[] }[]
+  try {
+    const db = new SqliteReader(collection)
+    col = db.readTable('col')[0]
+    notes = db.readTable('notes')
+  } catch (error) {
+    // Offsets that point past the end of the file
+    if (error instanceof RangeError) throw new Error(UNREADABLE_DECK)
+    throw error
+  }
+  const models = parseModels(col?.values[COL_COLUMNS.models] ?? null)
+
+  return notes.map(({ rowid, values }) => {
+    const model = models.get(String(values[NOTES_COLUMNS.mid]))
+    return {
+      id: rowid,
+      modelName: model?.name ?? 'Unknown',
+      isCloze: model?.isCloze ?? false,
+      fieldNames: model?.fieldNames ?? [],
+      fields: String(values[NOTES_COLUMNS.flds] ?? '').split(FIELD_SEPARATOR),
+      tags: String(values[NOTES_COLUMNS.tags] ?? '').split(/\s+/).filter(Boolean)
+    }
+  })
+}
+
+// --- Writing ---
+
+export interface AnkiExportNote {
+  guid: string // Stable per card, so importing a newer export updates notes instead of duplicating them
+  front: string // Field HTML
+  back: string
+  tags: string[]
+}
+
+const PAGE_SIZE = 4096
+
+// Legacy collection schema, as created by Anki 2.1 before the schema 18 upgrade
+const SCHEMA: Record<string, string> = {
+  col: 'CREATE TABLE col (id integer primary key, crt integer not null, mod integer not null, scm integer not null, ver integer not null, dty integer not null, usn integer not null, ls integer not null, conf text not null, models text not null, decks text not null, dconf text not null, tags text not null)',
+  notes: 'CREATE TABLE notes (id integer primary key, guid text not null, mid integer not null, mod integer not null, usn integer not null, tags text not null, flds text not null, sfld integer not null, csum integer not null, flags integer not null, data text not null)',
+  cards: 'CREATE TABLE cards (id integer primary key, nid integer not null, did integer not null, ord integer not null, mod integer not null, usn integer not null, type integer not null, queue integer not null, due integer not null, ivl integer not null, factor integer not null, reps integer not null, lapses integer not null, left integer not null, odue integer not null, odid integer not null, flags integer not null, data text not null)',
+  revlog: 'CREATE TABLE revlog (id integer primary key, cid integer not null, usn integer not null, ease integer not null, ivl integer not null, lastIvl integer not null, factor integer not null, time integer not null, type integer not null)',
+  graves: 'CREATE TABLE graves (usn integer not null, oid integer not null, type integer not null)'
+}
+
+const CARD_CSS = '.card {\n  font-family: arial;\n  font-size: 20px;\n  text-align: center;\n  color: black;\n  background-color: white;\n}\n'
+
+function encodeVarint(value: number): number[] {
+  const bytes = [value % 128]
+  for (let rest = Math.floor(value / 128); rest > 0; rest = Math.floor(rest / 128)) {
+    bytes.unshift(0x80 | (rest % 128))
+  }
+  return bytes
+}
+
+// Serialize a row in SQLite record format: a header of serial types, then the values
+function encodeRecord(values: SqlValue[]): Uint8Array {
+  const encoder = new TextEncoder()
+  const types: number[] = []
+  const bodies: Uint8Array[] = []
+
+  for (const value of values) {
+    if (value === null) {
+      types.push(0)
+      bodies.push(new Uint8Array(0))
+    } else if (typeof value === 'number' && (value === 0 || value === 1)) {
+      types.push(8 + value)
+      bodies.push(new Uint8Array(0))
+    } else if (typeof value === 'number') {
+      const [serial, length] = value >= -128 && value < 128 ? [1, 1]
+        : value >= -32768 && value < 32768 ? [2, 2]
+          : value >= -(2 ** 31) && value < 2 ** 31 ? [4, 4]
+            : value >= -(2 ** 47) && value < 2 ** 47 ? [5, 6]
+              : [6, 8]
+      const body = new Uint8Array(length)
+      if (length === 8) {
+        new DataView(body.buffer).setBigInt64(0, BigInt(value))
+      } else {
+        let unsigned = value < 0 ? value + 2 ** (length * 8) : value
+        for (let i = length - 1; i >= 0; i--) {
+          body[i] = unsigned % 256
+          unsigned = Math.floor(unsigned / 256)
+        }
+      }
+      types.push(serial)
+      bodies.push(body)
+    } else {
+      const body = typeof value === 'string' ? encoder.encode(value) : value
+      types.push((typeof value === 'string' ? 13 : 12) + body.length * 2)
+      bodies.push(body)
+    }
+  }
+
+  const serials = types.flatMap(encodeVarint)
+  // The header size counts its own varint, which may grow by a byte
+  let headerSize = serials.length + 1
+  if (encodeVarint(headerSize).length > 1) headerSize = serials.length + encodeVarint(serials.length + 2).length
+
+  const record = new Uint8Array(headerSize + bodies.reduce((sum, body) => sum + body.length, 0))
+  record.set([...encodeVarint(headerSize), ...serials])
+  let offset = headerSize
+  for (const body of bodies) {
+    record.set(body, offset)
+    offset += body.length
+  }
+  return record
+}
+
+class SqliteWriter {
+  private pages: Uint8Array[] = [new Uint8Array(PAGE_SIZE)] // Page 1 is written last
+  private master: SqlValue[][] = []
+
+  private allocate(): number {
+    this.pages.push(new Uint8Array(PAGE_SIZE))
+    return this.pages.length
+  }
+
+  // Leaf cell: payload size, rowid, then the payload with any overflow moved to its own pages
+  private leafCell(rowid: number, payload: Uint8Array): Uint8Array {
+    const usable = PAGE_SIZE
+    const maxLocal = usable - 35
+    let local = payload.length
+    if (payload.length > maxLocal) {
+      const minLocal = Math.floor((usable - 12) * 32 / 255) - 23
+      const spill = minLocal + ((payload.length - minLocal) % (usable - 4))
+      local = spill <= maxLocal ? spill : minLocal
+    }
+
+    const prefix = [...encodeVarint(payload.length), ...encodeVarint(rowid)]
+    const cell = new Uint8Array(prefix.length + local + (local < payload.length ? 4 : 0))
+    cell.set(prefix)
+    cell.set(payload.subarray(0, local), prefix.length)
+
+    if (local < payload.length) {
+      let previous: { page: Uint8Array; offset: number } = { page: cell, offset: prefix.length + local }
+      for (let offset = local; offset < payload.length; offset += usable - 4) {
+        const number = this.allocate()
+        const page = this.pages[number - 1]
+        new DataView(previous.page.buffer, previous.page.byteOffset).setUint32(previous.offset, number)
+        page.set(payload.subarray(offset, offset + usable - 4), 4)
+        previous = { page, offset: 0 }
+      }
+    }
+    return cell
+  }
+
+  // Lay cells out on a page: header, cell pointer array, cells packed from the end
+  private writePage(page: Uint8Array, headerOffset: number, type: number, cells: Uint8Array[], rightChild?: number) {
+    const view = new DataView(page.buffer, page.byteOffset)
+    const headerSize = type === 0x05 ? 12 : 8
+    let contentStart = PAGE_SIZE
+
+    cells.forEach((cell, index) => {
+      contentStart -= cell.length
+      page.set(cell, contentStart)
+      view.setUint16(headerOffset + headerSize + index * 2, contentStart)
+    })
+
+    page[headerOffset] = type
+    view.setUint16(headerOffset + 3, cells.length)
+    view.setUint16(headerOffset + 5, contentStart === 65536 ? 0 : contentStart)
+    if (rightChild !== undefined) view.setUint32(headerOffset + 8, rightChild)
+  }
+
+  // Split cells into pages that fit; returns each page's cells
+  private pack(cells: Uint8Array[], headerOffset: number, headerSize: number): Uint8Array[][] {
+    const groups: Uint8Array[][] = [[]]
+    let used = headerOffset + headerSize
+    for (const cell of cells) {
+      if (used + cell.length + 2 > PAGE_SIZE && groups[groups.length - 1].length > 0) {
+        groups.push([])
+        used = headerOffset + headerSize
+      }
+      groups[groups.length - 1].push(cell)
+      used += cell.length + 2
+    }
+    return groups
+  }
+
+  // Build a table b-tree from rows sorted by rowid; returns the root page
+  private writeBTree(rows: { rowid: number; values: SqlValue[] }[]): number {
+    const cells = rows.map(row => this.leafCell(row.rowid, encodeRecord(row.values)))
+    let written = 0
+    let level = this.pack(cells, 0, 8).map(group => {
+      const page = this.allocate()
+      this.writePage(this.pages[page - 1], 0, 0x0d, group)
+      written += group.length
+      return { page, maxRowid: rows[written - 1]?.rowid ?? 0 }
+    })
+
+    // Interior levels: every child but the last is a (page, max rowid) cell; the last is the right pointer.
+    // A cell takes at most 15 bytes with its pointer, so spreading children evenly always fits.
+    const perPage = Math.floor((PAGE_SIZE - 12) / 15) + 1
+    while (level.length > 1) {
+      const size = Math.ceil(level.length / Math.ceil(level.length / perPage))
+      const groups: typeof level[] = []
+      for (let i = 0; i < level.length; i += size) groups.push(level.slice(i, i + size))
+
+      level = groups.map(group => {
+        const page = this.allocate()
+        const cells = group.slice(0, -1).map(child => {
+          const cell = new Uint8Array([0, 0, 0, 0, ...encodeVarint(child.maxRowid)])
+          new DataView(cell.buffer).setUint32(0, child.page)
+          return cell
+        })
+        const last = group[group.length - 1]
+        this.writePage(this.pages[page - 1], 0, 0x05, cells, last.page)
+        return { page, maxRowid: last.maxRowid }
+      })
+    }
+    return level[0].page
+  }
+
+  addTable(name: string, sql: string, rows: { rowid: number; values: SqlValue[] }[]) {
+    const root = this.writeBTree(rows)
+    this.master.push(['table', name, name, root, sql])
+  }
+
+  toBytes(): Uint8Array {
+    const page = this.pages[0]
+    const cells = this.master.map((values, index) => this.leafCell(index + 1, encodeRecord(values)))
+    if (this.pack(cells, 100, 8).length > 1) throw new Error('Schema does not fit on the first page')
+    this.writePage(page, 100, 0x0d, cells)
+
+    const view = new DataView(page.buffer)
+    page.set(new TextEncoder().encode('SQLite format 3\0'))
+    view.setUint16(16, PAGE_SIZE)
+    page.set([1, 1, 0, 64, 32, 32], 18) // Versions, reserved bytes, payload fractions
+    view.setUint32(24, 1) // Change counter
+    view.setUint32(28, this.pages.length)
+    view.setUint32(40, 1) // Schema cookie
+    view.setUint32(44, 4) // Schema format
+    view.setUint32(56, 1) // UTF-8
+    view.setUint32(92, 1)
+    view.setUint32(96, 3045000)
+
+    const file = new Uint8Array(this.pages.length * PAGE_SIZE)
+    this.pages.forEach((p, index) => file.set(p, index * PAGE_SIZE))
+    return file
+  }
+}
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n
+  for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1
+  return c >>> 0
+})
+
+function crc32(data: Uint8Array): number {
+  let crc = 0xffffffff
+  for (const byte of data) crc = CRC_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8)
+  return (crc ^ 0xffffffff) >>> 0
+}
+
+// Stored (uncompressed) zip; the collection is small next to the media Anki packages usually carry
+function writeZip(files: { name: string; data: Uint8Array }[]): Uint8Array {
+  const encoder = new TextEncoder()
+  const locals: Uint8Array[] = []
+  const centrals: Uint8Array[] = []
+  let offset = 0
+
+  for (const file of files) {
+    const name = encoder.encode(file.name)
+    const crc = crc32(file.data)
+
+    const local = new Uint8Array(30 + name.length + file.data.length)
+    const localView = new DataView(local.buffer)
+    localView.setUint32(0, 0x04034b50, true)
+    localView.setUint16(4, 20, true)
+    localView.setUint16(12, 0x21, true) // 1980-01-01
+    localView.setUint32(14, crc, true)
+    localView.setUint32(18, file.data.length, true)
+    localView.setUint32(22, file.data.length, true)
+    localView.setUint16(26, name.length, true)
+    local.set(name, 30)
+    local.set(file.data, 30 + name.length)
+
+    const central = new Uint8Array(46 + name.length)
+    const centralView = new DataView(central.buffer)
+    centralView.setUint32(0, 0x02014b50, true)
+    centralView.setUint16(4, 20, true)
+    centralView.setUint16(6, 20, true)
+    centralView.setUint16(14, 0x21, true)
+    centralView.setUint32(16, crc, true)
+    centralView.setUint32(20, file.data.length, true)
+    centralView.setUint32(24, file.data.length, true)
+    centralView.setUint16(28, name.length, true)
+    centralView.setUint32(42, offset, true)
+    central.set(name, 46)
+
+    locals.push(local)
+    centrals.push(central)
+    offset += local.length
+  }
+
+  const directorySize = centrals.reduce((sum, central) => sum + central.length, 0)
+  const end = new Uint8Array(22)
+  const endView = new DataView(end.buffer)
+  endView.setUint32(0, 0x06054b50, true)
+  endView.setUint16(8, files.length, true)
+  endView.setUint16(10, files.length, true)
+  endView.setUint32(12, directorySize, true)
+  endView.setUint32(16, offset, true)
+
+  const zip = new Uint8Array(offset + directorySize + end.length)
+  let position = 0
+  for (const part of [...locals, ...centrals, end]) {
+    zip.set(part, position)
+    position += part.length
+  }
+  return zip
+}
+
+function stripHtml(html: string): string {
+  return html.replace(/<[^>]+>/g, '').replace(/&nbsp;/g, ' ').trim()
+}
+
+// Anki's duplicate check: the first 8 hex digits of the sort field's SHA-1
+async function fieldChecksum(text: string): Promise<number> {
+  const digest = await crypto.subtle.digest('SHA-1', new TextEncoder().encode(stripHtml(text)))
+  return new DataView(digest).getUint32(0)
+}
+
+// Build an .apkg with one Basic (front/back) note per card, all in a single deck
+export async function writeAnkiPackage(deckName: string, notes: AnkiExportNote[]): Promise<Uint8Array> {
+  const now = Date.now()
+  const seconds = Math.floor(now / 1000)
+  const modelId = 1700000000000 // Fixed, so every export shares one note type in Anki
+  const deckId = now
+
+  const model = {
+    id: modelId,
+    name: 'ChapterFlashEMT Basic',
+    type: 0,
+    mod: seconds,
+    usn: -1,
+    sortf: 0,
+    did: deckId,
+    tmpls: [{
+      name: 'Card 1',
+      ord: 0,
+      qfmt: '{{Front}}',
+      afmt: '{{FrontSide}}\n\n<hr id=answer>\n\n{{Back}}',
+      did: null,
+      bqfmt: '',
+      bafmt: ''
+    }],
+    flds: ['Front', 'Back'].map((name, ord) => ({ name, ord, sticky: false, rtl: false, font: 'Arial', size: 20, media: [] })),
+    css: CARD_CSS,
+    latexPre: '\\documentclass[12pt]{article}\n\\special{papersize=3in,5in}\n\\usepackage[utf8]{inputenc}\n\\usepackage{amssymb,amsmath}\n\\pagestyle{empty}\n\\setlength{\\parindent}{0in}\n\\begin{document}\n',
+    latexPost: '\\end{document}',
+    latexsvg: false,
+    req: [[0, 'any', [0]]],
+    tags: [],
+    vers: []
+  }
+  const deck = (id: number, name: string) => ({
+    id,
+    name,
+    desc: '',
+    mod: seconds,
+    usn: -1,
+    lrnToday: [0, 0],
+    revToday: [0, 0],
+    newToday: [0, 0],
+    timeToday: [0, 0],
+    collapsed: false,
+    browserCollapsed: false,
+    extendNew: 10,
+    extendRev: 50,
+    conf: 1,
+    dyn: 0
+  })
+  const deckConfig = {
+    id: 1,
+    name: 'Default',
+    mod: 0,
+    usn: 0,
+    maxTaken: 60,
+    autoplay: true,
+    timer: 0,
+    replayq: true,
+    dyn: false,
+    new: { delays: [1, 10], ints: [1, 4, 0], initialFactor: 2500, order: 1, perDay: 20, bury: false },
+    rev: { perDay: 200, ease4: 1.3, ivlFct: 1, maxIvl: 36500, hardFactor: 1.2, bury: false },
+    lapse: { delays: [10], mult: 0, minInt: 1, leechFails: 8, leechAction: 1 }
+  }
+  const config = { nextPos: notes.length + 1, estTimes: true, activeDecks: [1], sortType: 'noteFld', timeLim: 0, sortBackwards: false, addToCur: true, curDeck: 1, newSpread: 0, dueCounts: true, curModel: modelId, collapseTime: 1200 }
+
+  const writer = new SqliteWriter()
+  writer.addTable('col', SCHEMA.col, [{
+    rowid: 1,
+    values: [
+      null, seconds, now, now, 11, 0, 0, 0,
+      JSON.stringify(config),
+      JSON.stringify({ [modelId]: model }),
+      JSON.stringify({ 1: deck(1, 'Default'), [deckId]: deck(deckId, deckName) }),
+      JSON.stringify({ 1: deckConfig }),
+      '{}'
+    ]
+  }])
+
+  const checksums = await Promise.all(notes.map(note => fieldChecksum(note.front)))
+  writer.addTable('notes', SCHEMA.notes, notes.map((note, index) => ({
+    rowid: now + index,
+    values: [
+      null, note.guid, modelId, seconds, -1,
+      note.tags.length ? ` ${note.tags.join(' ')} ` : '',
+      `${note.front}${FIELD_SEPARATOR}${note.back}`,
+      stripHtml(note.front), checksums[index], 0, ''
+    ]
+  })))
+  writer.addTable('cards', SCHEMA.cards, notes.map((_note, index) => ({
+    rowid: now + index,
+    values: [null, now + index, deckId, 0, seconds, -1, 0, 0, index + 1, 0, 0, 0, 0, 0, 0, 0, 0, '']
+  })))
+  writer.addTable('revlog', SCHEMA.revlog, [])
+  writer.addTable('graves', SCHEMA.graves, [])
+
+  return writeZip([
+    { name: 'collection.anki2', data: writer.toBytes() },
+    { name: 'media', data: new TextEncoder().encode('{}') }
+  ])
+}
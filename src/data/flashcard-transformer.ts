@@ -1,4 +1,5 @@
-import { FlashcardSeedData } from '@/lib/seed-flashcards'
+import { FlashcardSeedData, validateFlashcardData, type FlashcardReject } from '@/lib/seed-flashcards'
+import { readAnkiPackage, type AnkiNote } from './anki-package'
 
 // Data structure from the export file
 interface ExportedFlashcard {
@@ -209,4 +210,286 @@ export function transformFromJSON(jsonData: string): FlashcardSeedData[] {
     console.error('Error parsing JSON data:', error)
     throw new Error('Invalid JSON format')
   }
-}
\ No newline at end of file
+}
+
+// --- Deck import: CSV/TSV exports (Quizlet and spreadsheets) and Anki packages ---
+
+export type ImportField = 'id' | 'question' | 'answer' | 'difficulty' | 'type' | 'tags' | 'chapterNumber' | 'chapterTitle'
+
+// Each field names its source column by header (case-insensitive) or 0-based position;
+// for Anki packages the "columns" are the note type's fields
+export type ColumnMapping = Partial<Record<ImportField, string | number>>
+
+export interface DeckImportOptions {
+  columns?: ColumnMapping
+  delimiter?: string // CSV/TSV only; detected from the first line when omitted
+  hasHeader?: boolean // CSV/TSV only; detected from the column names when omitted
+  chapterNumber?: number // For rows that do not name a chapter
+  chapterTitle?: string
+  defaultTags?: string[] // Added to every imported card
+}
+
+export interface DuplicateCard {
+  row: number
+  id: string
+  question: string
+  duplicateOf: string // Id of the card it repeats, in the deck or earlier in the file
+  match: 'id' | 'question'
+}
+
+export interface DeckImportReport {
+  total: number
+  cards: FlashcardSeedData[] // Valid and new; ready to create
+  duplicates: DuplicateCard[]
+  rejects: FlashcardReject[]
+}
+
+const COLUMN_ALIASES: Record<ImportField, string[]> = {
+  id: ['id', 'card id', 'note id'],
+  question: ['question', 'q', 'front', 'term', 'prompt', 'text'],
+  answer: ['answer', 'a', 'back', 'definition', 'response'],
+  difficulty: ['difficulty', 'level'],
+  type: ['type', 'card type'],
+  tags: ['tags', 'tag', 'topics'],
+  chapterNumber: ['chapter', 'chapter number', 'chapternumber'],
+  chapterTitle: ['chapter title', 'chaptertitle']
+}
+
+// Files without a header are read as question, answer, tags - the order Quizlet exports
+const DEFAULT_POSITIONS: ColumnMapping = { question: 0, answer: 1, tags: 2 }
+
+function isColumnMapping(value: unknown): value is ColumnMapping {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) return false
+  return Object.entries(value).every(([field, column]) =>
+    Object.keys(COLUMN_ALIASES).includes(field) &&
+    (typeof column === 'string' ? column.trim() !== '' : Number.isInteger(column) && (column as number) >= 0)
+  )
+}
+
+// Validate the options sent with an upload; names the first one with the wrong shape
+export function parseImportOptions(value: unknown): { options: DeckImportOptions } | { error: string } {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) return { error: 'Expected import options as an object' }
+
+  const { columns, delimiter, hasHeader, chapterNumber, chapterTitle, defaultTags } = value as Record<string, unknown>
+  const invalid = [
+    columns !== undefined && !isColumnMapping(columns) && 'columns',
+    delimiter !== undefined && !(typeof delimiter === 'string' && delimiter.length === 1 && !/["\r\n]/.test(delimiter)) && 'delimiter',
+    hasHeader !== undefined && typeof hasHeader !== 'boolean' && 'hasHeader',
+    chapterNumber !== undefined && !(Number.isInteger(chapterNumber) && (chapterNumber as number) > 0) && 'chapterNumber',
+    chapterTitle !== undefined && typeof chapterTitle !== 'string' && 'chapterTitle',
+    defaultTags !== undefined && !(Array.isArray(defaultTags) && defaultTags.every(tag => typeof tag === 'string')) && 'defaultTags'
+  ].filter(Boolean)
+  if (invalid.length > 0) return { error: `Invalid import options: ${invalid.join(', ')}` }
+
+  return { options: value as DeckImportOptions }
+}
+
+// RFC 4180 parsing: quoted fields may hold delimiters, doubled quotes and line breaks
+function parseDelimited(text: string, delimiter: string): string[][] {
+  const rows: string[][] = []
+  let row: string[] = []
+  let field = ''
+  let quoted = false
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i]
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"'
+        i++
+      } else if (char === '"') {
+        quoted = false
+      } else {
+        field += char
+      }
+    } else if (char === '"' && field === '') {
+      quoted = true
+    } else if (char === delimiter) {
+      row.push(field)
+      field = ''
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++
+      row.push(field)
+      rows.push(row)
+      row = []
+      field = ''
+    } else {
+      field += char
+    }
+  }
+  row.push(field)
+  rows.push(row)
+
+  return rows.filter(cells => cells.some(cell => cell.trim()))
+}
+
+function detectDelimiter(text: string): string {
+  const firstLine = text.slice(0, text.search(/\r?\n|$/))
+  if (firstLine.includes('\t')) return '\t'
+  const count = (char: string) => firstLine.split(char).length
+  return count(';') > count(',') ? ';' : ','
+}
+
+function normalizeHeader(name: string): string {
+  return name.trim().toLowerCase().replace(/[_-]+/g, ' ')
+}
+
+function isKnownColumn(name: string): boolean {
+  return Object.values(COLUMN_ALIASES).some(aliases => aliases.includes(normalizeHeader(name)))
+}
+
+// Resolve every field to a column position, or undefined when the source has no such column
+function resolveColumns(mapping: ColumnMapping, names: string[] | null): Partial<Record<ImportField, number>> {
+  const resolved: Partial<Record<ImportField, number>> = {}
+  const headers = names?.map(normalizeHeader)
+
+  for (const field of Object.keys(COLUMN_ALIASES) as ImportField[]) {
+    const column = mapping[field]
+    if (typeof column === 'number') {
+      resolved[field] = column
+    } else if (typeof column === 'string') {
+      const index = headers?.indexOf(normalizeHeader(column)) ?? -1
+      if (index < 0) throw new Error(`Column not found for ${field}: ${column}`)
+      resolved[field] = index
+    } else if (headers) {
+      const index = headers.findIndex(header => COLUMN_ALIASES[field].includes(header))
+      if (index >= 0) resolved[field] = index
+    } else {
+      resolved[field] = DEFAULT_POSITIONS[field] as number | undefined
+    }
+  }
+
+  if (resolved.question === undefined || resolved.answer === undefined) {
+    throw new Error('Could not tell which columns hold the question and answer; map them explicitly')
+  }
+  return resolved
+}
+
+// Short stable id so importing the same file twice is caught as a duplicate
+function contentId(prefix: string, text: string): string {
+  let hash = 0x811c9dc5
+  for (let i = 0; i < text.length; i++) {
+    hash = Math.imul(hash ^ text.charCodeAt(i), 0x01000193)
+  }
+  return `${prefix}-${(hash >>> 0).toString(16).padStart(8, '0')}`
+}
+
+function splitTags(value: string | undefined): string[] {
+  return (value || '').split(/[\s,;]+/).filter(Boolean)
+}
+
+// Map one imported row onto the seed shape; validateFlashcardData decides if it is usable
+function toSeedData(fields: Partial<Record<ImportField, string>>, tags: string[], options: DeckImportOptions, fallbackId: string): FlashcardSeedData {
+  const question = (fields.question || '').trim()
+  const answer = (fields.answer || '').trim()
+  const chapterNumber = parseInt(fields.chapterNumber || '') || options.chapterNumber || 0
+  const cardTags = generateTags({ question, answer, tags: [...tags, ...(options.defaultTags || [])] }, chapterNumber)
+
+  return {
+    id: fields.id?.trim() || fallbackId,
+    question,
+    answer,
+    difficulty: mapDifficulty(fields.difficulty || 'Basic'),
+    type: mapType(fields.type),
+    tags: cardTags.length > 0 ? cardTags : ['general'],
+    chapterNumber,
+    chapterTitle: fields.chapterTitle?.trim() || options.chapterTitle || chapterTitles[chapterNumber] || `Chapter ${chapterNumber}`
+  }
+}
+
+export function transformFromCSV(text: string, options: DeckImportOptions = {}): FlashcardSeedData[] {
+  const content = text.replace(/^\uFEFF/, '')
+  const rows = parseDelimited(content, options.delimiter || detectDelimiter(content))
+  if (rows.length === 0) return []
+
+  const hasHeader = options.hasHeader
+    ?? (rows[0].some(isKnownColumn) || Object.values(options.columns || {}).some(column => typeof column === 'string'))
+  const columns = resolveColumns(options.columns || {}, hasHeader ? rows[0] : null)
+
+  return rows.slice(hasHeader ? 1 : 0).map(row => {
+    const fields: Partial<Record<ImportField, string>> = {}
+    for (const [field, index] of Object.entries(columns) as [ImportField, number][]) {
+      fields[field] = row[index]
+    }
+    return toSeedData(fields, splitTags(fields.tags), options, contentId('import', fields.question || ''))
+  })
+}
+
+// Anki fields are HTML; keep line breaks and drop markup, media and entities
+function htmlToText(html: string): string {
+  return html
+    .replace(/\[sound:[^\]]*\]/g, '')
+    .replace(/<br\s*\/?>|<\/(div|p|li)>/gi, '\n')
+    .replace(/<[^>]+>/g, '')
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/&amp;/g, '&')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim()
+}
+
+// {{c1::answer::hint}} becomes [hint] (or [...]) on the question side
+const CLOZE_PATTERN = /\{\{c\d+::(.*?)(?:::(.*?))?\}\}/g
+
+function noteFields(note: AnkiNote, mapping: ColumnMapping): Partial<Record<ImportField, string>> {
+  const columns = resolveColumns({ question: 0, answer: 1, ...mapping }, note.fieldNames)
+  const fields: Partial<Record<ImportField, string>> = {}
+  for (const [field, index] of Object.entries(columns) as [ImportField, number][]) {
+    fields[field] = htmlToText(note.fields[index] ?? '')
+  }
+
+  if (note.isCloze) {
+    const text = fields.question || ''
+    const extra = mapping.answer === undefined ? fields.answer : ''
+    fields.question = text.replace(CLOZE_PATTERN, (_match, _answer, hint) => `[${hint || '...'}]`)
+    fields.answer = [text.replace(CLOZE_PATTERN, '$1'), extra].filter(Boolean).join('\n\n')
+  }
+  return fields
+}
+
+export async function transformFromAnki(data: ArrayBuffer | Uint8Array, options: DeckImportOptions = {}): Promise<FlashcardSeedData[]> {
+  const notes = await readAnkiPackage(data)
+  return notes.map(note => toSeedData(noteFields(note, options.columns || {}), note.tags, options, `anki-${note.id}`))
+}
+
+function questionKey(question: string): string {
+  return question.toLowerCase().replace(/\s+/g, ' ').replace(/[?.!\s]+$/, '').trim()
+}
+
+// Validate imported cards and hold back the ones the deck (or the file itself) already has
+export function buildImportReport(
+  cards: FlashcardSeedData[],
+  existing: { id: string; question: string }[]
+): DeckImportReport {
+  const rejects: FlashcardReject[] = []
+  const valid = validateFlashcardData(cards, rejects)
+  const rejectedRows = new Set(rejects.map(reject => reject.row))
+  const rows = cards.map((_card, index) => index + 1).filter(row => !rejectedRows.has(row))
+
+  const ids = new Map(existing.map(card => [card.id, card.id]))
+  const questions = new Map(existing.map(card => [questionKey(card.question), card.id]))
+  const report: DeckImportReport = { total: cards.length, cards: [], duplicates: [], rejects }
+
+  valid.forEach((card, index) => {
+    const key = questionKey(card.question)
+    const match = ids.has(card.id) ? 'id' : questions.has(key) ? 'question' : null
+    if (match) {
+      report.duplicates.push({
+        row: rows[index],
+        id: card.id,
+        question: card.question,
+        duplicateOf: (match === 'id' ? ids.get(card.id) : questions.get(key))!,
+        match
+      })
+      return
+    }
+    ids.set(card.id, card.id)
+    questions.set(key, card.id)
+    report.cards.push(card)
+  })
+
+  return report
+}
@@ -0,0 +1,43 @@
+'use client'
+
+import { useSyncExternalStore } from 'react'
+import {
+  DEFAULT_USER_SETTINGS,
+  SETTINGS_CHANGE_EVENT,
+  SETTINGS_STORAGE_KEY,
+  loadUserSettings,
+  type UserSettings
+} from '@/lib/user-settings'
+
+// Cache the parsed settings so every render sees the same object until storage changes
+let cachedRaw: string | null = null
+let cachedSettings: UserSettings = DEFAULT_USER_SETTINGS
+
+function getSnapshot(): UserSettings {
+  const raw = localStorage.getItem(SETTINGS_STORAGE_KEY)
+  if (raw !== cachedRaw) {
+    cachedRaw = raw
+    cachedSettings = loadUserSettings()
+  }
+  return cachedSettings
+}
+
+function getServerSnapshot(): UserSettings {
+  return DEFAULT_USER_SETTINGS
+}
+
+function subscribe(onChange: () => void) {
+  const onStorage = (event: StorageEvent) => {
+    if (event.key === SETTINGS_STORAGE_KEY) onChange()
+  }
+  window.addEventListener(SETTINGS_CHANGE_EVENT, onChange)
+  window.addEventListener('storage', onStorage)
+  return () => {
+    window.removeEventListener(SETTINGS_CHANGE_EVENT, onChange)
+    window.removeEventListener('storage', onStorage)
+  }
+}
+
+export function useUserSettings(): UserSettings {
+  return useSyncExternalStore(subscribe, getSnapshot, getServerSnapshot)
+}
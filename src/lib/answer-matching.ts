@@ -0,0 +1,108 @@
+/**
+ * Answer Matching - marks typed free-text answers against a card's answer
+ * Compares key terms with typo tolerance rather than requiring an exact string
+ */
+
+export interface TypedAnswerResult {
+  isCorrect: boolean
+  score: number // 0-1 share of key terms the response covered
+  matchedTerms: string[]
+  missingTerms: string[]
+}
+
+// Share of key terms needed for a response to count as correct; long answers
+// are capped so a learner is not expected to reproduce a whole paragraph
+export const TYPED_ANSWER_PASS_SCORE = 0.6
+export const TYPED_ANSWER_MAX_REQUIRED_TERMS = 6
+
+const STOP_WORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'by', 'can', 'for', 'from', 'has', 'have',
+  'if', 'in', 'into', 'is', 'it', 'its', 'of', 'on', 'or', 'should', 'that', 'the',
+  'their', 'then', 'there', 'these', 'this', 'to', 'was', 'were', 'which', 'while',
+  'will', 'with', 'within', 'you', 'your', 'also', 'may', 'than', 'such', 'any', 'all'
+])
+
+function tokenize(text: string): string[] {
+  return text
+    .normalize('NFKC') // SpO₂ -> SpO2
+    .replace(/[\u2010-\u2015]/g, '-')
+    .toLowerCase()
+    .replace(/[^a-z0-9%./-]+/g, ' ')
+    .split(/\s+/)
+    .map(token => token.replace(/^[./-]+|[./-]+$/g, ''))
+    .filter(Boolean)
+}
+
+// Crude plural/suffix folding so "compressions" matches "compression"
+function stem(token: string): string {
+  if (token.length > 4 && token.endsWith('ies')) return token.slice(0, -3) + 'y'
+  if (token.length > 3 && token.endsWith('es')) return token.slice(0, -2)
+  if (token.length > 3 && token.endsWith('s') && !token.endsWith('ss')) return token.slice(0, -1)
+  return token
+}
+
+// Distinct content words of an answer; numbers and units are always kept
+export function extractKeyTerms(answer: string): string[] {
+  const terms = tokenize(answer).filter(token =>
+    /\d/.test(token) || (token.length > 2 && !STOP_WORDS.has(token))
+  )
+  return Array.from(new Set(terms))
+}
+
+function levenshtein(a: string, b: string): number {
+  const previous = Array.from({ length: b.length + 1 }, (_, i) => i)
+
+  for (let i = 1; i <= a.length; i++) {
+    let diagonal = previous[0]
+    previous[0] = i
+    for (let j = 1; j <= b.length; j++) {
+      const above = previous[j]
+      previous[j] = Math.min(
+        previous[j] + 1,
+        previous[j - 1] + 1,
+        diagonal + (a[i - 1] === b[j - 1] ? 0 : 1)
+      )
+      diagonal = above
+    }
+  }
+
+  return previous[b.length]
+}
+
+// Numbers must match exactly; words allow roughly one typo per five letters
+function termsMatch(expected: string, actual: string): boolean {
+  if (/\d/.test(expected)) return expected === actual
+
+  const a = stem(expected)
+  const b = stem(actual)
+  if (a === b) return true
+
+  const allowedEdits = Math.floor(Math.max(a.length, b.length) / 5)
+  return allowedEdits > 0 && levenshtein(a, b) <= allowedEdits
+}
+
+export function gradeTypedAnswer(response: string, answer: string): TypedAnswerResult {
+  const keyTerms = extractKeyTerms(answer)
+  const responseTokens = tokenize(response)
+
+  if (keyTerms.length === 0) {
+    // Nothing distinctive to look for - fall back to a whole-string comparison
+    const isCorrect = response.trim().toLowerCase() === answer.trim().toLowerCase()
+    return { isCorrect, score: isCorrect ? 1 : 0, matchedTerms: [], missingTerms: [] }
+  }
+
+  const matchedTerms = keyTerms.filter(term => responseTokens.some(token => termsMatch(term, token)))
+  const missingTerms = keyTerms.filter(term => !matchedTerms.includes(term))
+  const score = matchedTerms.length / keyTerms.length
+  const requiredTerms = Math.min(
+    Math.ceil(keyTerms.length * TYPED_ANSWER_PASS_SCORE),
+    TYPED_ANSWER_MAX_REQUIRED_TERMS
+  )
+
+  return {
+    isCorrect: matchedTerms.length >= requiredTerms,
+    score,
+    matchedTerms,
+    missingTerms
+  }
+}
@@ -0,0 +1,57 @@
+/**
+ * Card Actions - per-card suspend, bury and colour flags
+ * The state lives on CardProgress; these helpers read it back as session filters
+ */
+
+import type { FlashcardData } from '@/components/flashcard/Flashcard'
+import type { CardProgress } from '@/lib/progress-storage'
+
+export type FlagColor = 'red' | 'orange' | 'green' | 'blue' | 'purple'
+
+export const FLAG_COLORS: Record<FlagColor, { label: string; className: string }> = {
+  red: { label: 'Red', className: 'bg-red-500' },
+  orange: { label: 'Orange', className: 'bg-orange-500' },
+  green: { label: 'Green', className: 'bg-emerald-500' },
+  blue: { label: 'Blue', className: 'bg-blue-500' },
+  purple: { label: 'Purple', className: 'bg-purple-500' }
+}
+
+// Include/exclude options shared by StudySessionConfig
+export interface CardStatusFilters {
+  flagColors?: FlagColor[] // Only cards flagged with one of these colours
+  excludeFlagColors?: FlagColor[]
+  includeSuspended?: boolean // Suspended cards are left out unless set
+  includeBuried?: boolean // Buried cards are left out unless set
+}
+
+export function isFlagColor(value: unknown): value is FlagColor {
+  return typeof value === 'string' && value in FLAG_COLORS
+}
+
+export function isBuried(progress: CardProgress, now: number = Date.now()): boolean {
+  return (progress.buriedUntil ?? 0) > now
+}
+
+// Buried cards come back at the start of the next day
+export function endOfBury(now: Date = new Date()): number {
+  return new Date(now.getFullYear(), now.getMonth(), now.getDate() + 1).getTime()
+}
+
+export function filterByCardStatus(
+  cards: FlashcardData[],
+  progressById: Map<string, CardProgress>,
+  filters: CardStatusFilters
+): FlashcardData[] {
+  const now = Date.now()
+
+  return cards.filter(card => {
+    const progress = progressById.get(card.id)
+    const flag = progress?.flagColor
+
+    if (progress?.suspended && !filters.includeSuspended) return false
+    if (progress && isBuried(progress, now) && !filters.includeBuried) return false
+    if (filters.flagColors?.length && (!flag || !filters.flagColors.includes(flag))) return false
+    if (flag && filters.excludeFlagColors?.includes(flag)) return false
+    return true
+  })
+}
@@ -0,0 +1,125 @@
+/**
+ * Card Authoring - client for the instructor flashcard routes
+ * Writes go through /api/flashcards and need an active license
+ */
+
+import { getStoredLicense, LICENSE_KEY_HEADER } from '@/lib/license'
+import type { FlashcardSeedData } from '@/lib/seed-flashcards'
+import type { RevisionEntry } from '@/lib/revision-service'
+import type { ReviewAction, ReviewState } from '@/lib/review-service'
+import type { CardStatus } from '@/lib/content-review'
+import type { DeckImportOptions, DeckImportReport } from '@/data/flashcard-transformer'
+
+export type { RevisionEntry, ReviewAction, ReviewState, DeckImportOptions, DeckImportReport }
+
+export interface DeckImportResult extends DeckImportReport {
+  created: number // Cards created as drafts; 0 for a preview
+}
+
+export interface AuthoredCard {
+  id: string
+  question: string
+  answer: string
+  difficulty: FlashcardSeedData['difficulty']
+  type: FlashcardSeedData['type']
+  tags: string[]
+  chapterNumber: number
+  chapterTitle: string
+  category: string
+  categoryId: number | null
+  status: CardStatus
+}
+
+// Status changes go through the review actions, not the card form
+export type CardDraft = Omit<AuthoredCard, 'id' | 'category' | 'status'>
+
+export interface AuthoringOptions {
+  categories: { id: number; name: string; color: string }[]
+  chapters: { number: number; title: string }[]
+}
+
+// Form uploads set their own multipart content type
+function licenseHeaders(json = true): Record<string, string> {
+  const license = getStoredLicense()
+  if (!license) {
+    throw new Error('Activate a license to edit flashcards')
+  }
+  return {
+    ...(json && { 'Content-Type': 'application/json' }),
+    [LICENSE_KEY_HEADER]: license.key
+  }
+}
+
+async function request<T>(url: string, init?: RequestInit): Promise<T> {
+  const response = await fetch(url, init)
+  const body = await response.json()
+  if (!response.ok || !body.success) {
+    throw new Error(body.error || 'Flashcard request failed')
+  }
+  return body.data as T
+}
+
+// Unpublished cards are only listed for a licensed user
+export async function fetchAuthoredCards(statuses: CardStatus[], chapterNumber?: number): Promise<AuthoredCard[]> {
+  const params = new URLSearchParams({ status: statuses.join(',') })
+  if (chapterNumber) params.set('chapter', String(chapterNumber))
+  return request<AuthoredCard[]>(`/api/flashcards?${params}`, { headers: licenseHeaders() })
+}
+
+export async function fetchAuthoringOptions(): Promise<AuthoringOptions> {
+  return request<AuthoringOptions>('/api/browse')
+}
+
+// Creates the card when no id is given, otherwise replaces it. `resetScheduling`
+// sends learners back to the start of the card's schedule after a substantive change.
+export async function saveAuthoredCard(draft: CardDraft, id?: string, resetScheduling = false): Promise<AuthoredCard> {
+  return request<AuthoredCard>(id ? `/api/flashcards/${encodeURIComponent(id)}` : '/api/flashcards', {
+    method: id ? 'PUT' : 'POST',
+    headers: licenseHeaders(),
+    body: JSON.stringify({ ...draft, resetScheduling })
+  })
+}
+
+export async function fetchCardHistory(id: string): Promise<RevisionEntry[]> {
+  return request<RevisionEntry[]>(`/api/flashcards/${encodeURIComponent(id)}/revisions`, { headers: licenseHeaders() })
+}
+
+export async function revertAuthoredCard(id: string, revision: number, resetScheduling = false): Promise<AuthoredCard> {
+  return request<AuthoredCard>(`/api/flashcards/${encodeURIComponent(id)}/revisions`, {
+    method: 'POST',
+    headers: licenseHeaders(),
+    body: JSON.stringify({ revision, resetScheduling })
+  })
+}
+
+export async function fetchReviewState(id: string): Promise<ReviewState> {
+  return request<ReviewState>(`/api/flashcards/${encodeURIComponent(id)}/review`, { headers: licenseHeaders() })
+}
+
+export async function applyReviewAction(id: string, action: ReviewAction, comment?: string): Promise<ReviewState> {
+  return request<ReviewState>(`/api/flashcards/${encodeURIComponent(id)}/review`, {
+    method: 'POST',
+    headers: licenseHeaders(),
+    body: JSON.stringify({ action, comment })
+  })
+}
+
+// Preview the import report, or with `commit` create the new cards as drafts
+export async function importDeck(file: File, options: DeckImportOptions, commit = false): Promise<DeckImportResult> {
+  const form = new FormData()
+  form.append('file', file)
+  form.append('options', JSON.stringify(options))
+  form.append('commit', String(commit))
+  return request<DeckImportResult>('/api/flashcards/import', {
+    method: 'POST',
+    headers: licenseHeaders(false),
+    body: form
+  })
+}
+
+export async function retireAuthoredCard(id: string): Promise<void> {
+  await request(`/api/flashcards/${encodeURIComponent(id)}`, {
+    method: 'DELETE',
+    headers: licenseHeaders()
+  })
+}
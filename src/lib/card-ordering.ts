@@ -0,0 +1,84 @@
+/**
+ * Card Ordering - practice order strategies for a session's cards
+ * Applied after the session is trimmed to size; sorts are stable, so cards
+ * keep their shuffled (or source) order within each group
+ */
+
+import type { FlashcardData } from '@/components/flashcard/Flashcard'
+import { CARD_TYPES, DIFFICULTY_LEVELS } from '@/lib/types'
+
+export type CardOrder = 'blocked' | 'interleaved' | 'difficulty-ramp' | 'type-ramp'
+
+export const CARD_ORDERS: Record<CardOrder, { name: string; description: string }> = {
+  blocked: {
+    name: 'Blocked',
+    description: 'Finish one chapter before moving on to the next'
+  },
+  interleaved: {
+    name: 'Interleaved',
+    description: 'Rotate through the chapters one card at a time'
+  },
+  'difficulty-ramp': {
+    name: 'Difficulty ramp',
+    description: 'Basic cards first, building up to Advanced'
+  },
+  'type-ramp': {
+    name: 'Type ramp',
+    description: 'Definitions, then recognition and application, then scenarios'
+  }
+}
+
+const DIFFICULTY_RANK: string[] = [DIFFICULTY_LEVELS.BASIC, DIFFICULTY_LEVELS.INTERMEDIATE, DIFFICULTY_LEVELS.ADVANCED]
+
+const TYPE_RANK: string[] = [
+  CARD_TYPES.DEFINITION,
+  CARD_TYPES.RECOGNITION,
+  CARD_TYPES.APPLICATION,
+  CARD_TYPES.ASSESSMENT,
+  CARD_TYPES.SCENARIO
+]
+
+export function isCardOrder(value: unknown): value is CardOrder {
+  return typeof value === 'string' && value in CARD_ORDERS
+}
+
+// Unknown values sort after every known one
+function rankBy(ranks: string[], value: string): number {
+  const rank = ranks.indexOf(value)
+  return rank === -1 ? ranks.length : rank
+}
+
+function chapterKey(card: FlashcardData): number {
+  return card.chapterNumber ?? Infinity
+}
+
+// Round-robin across chapters, taking chapters in ascending order each round
+function interleave(cards: FlashcardData[]): FlashcardData[] {
+  const byChapter = new Map<number, FlashcardData[]>()
+  cards.forEach(card => {
+    const key = chapterKey(card)
+    byChapter.set(key, [...(byChapter.get(key) ?? []), card])
+  })
+
+  const queues = [...byChapter.entries()].sort(([a], [b]) => a - b).map(([, queue]) => queue)
+  const ordered: FlashcardData[] = []
+  for (let round = 0; ordered.length < cards.length; round++) {
+    queues.forEach(queue => {
+      if (round < queue.length) ordered.push(queue[round])
+    })
+  }
+  return ordered
+}
+
+export function orderCards(cards: FlashcardData[], order: CardOrder): FlashcardData[] {
+  switch (order) {
+    case 'blocked':
+      return [...cards].sort((a, b) => chapterKey(a) - chapterKey(b))
+    case 'interleaved':
+      return interleave(cards)
+    case 'difficulty-ramp':
+      return [...cards].sort((a, b) => rankBy(DIFFICULTY_RANK, a.difficulty) - rankBy(DIFFICULTY_RANK, b.difficulty))
+    case 'type-ramp':
+      return [...cards].sort((a, b) => rankBy(TYPE_RANK, a.type) - rankBy(TYPE_RANK, b.type))
+  }
+}
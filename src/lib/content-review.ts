@@ -0,0 +1,81 @@
+/**
+ * Content Review - card lifecycle states and the sign-off each card needs
+ * Shared by the editor and the server; only published cards reach students
+ */
+
+export type CardStatus = 'draft' | 'in_review' | 'published' | 'retired'
+
+export const CARD_STATUSES: Record<CardStatus, { name: string; description: string }> = {
+  draft: {
+    name: 'Draft',
+    description: 'Being written or revised; not shown to students'
+  },
+  in_review: {
+    name: 'In review',
+    description: 'Waiting for reviewer sign-off'
+  },
+  published: {
+    name: 'Published',
+    description: 'Approved and served to students'
+  },
+  retired: {
+    name: 'Retired',
+    description: 'No longer served; progress on it is kept'
+  }
+}
+
+export type ReviewDecision = 'approved' | 'changes_requested'
+
+// Users are created as students from their license key; reviewer roles are granted by an admin
+export type UserRole = 'student' | 'reviewer' | 'instructor'
+
+export const USER_ROLES: Record<UserRole, { name: string; description: string }> = {
+  student: {
+    name: 'Student',
+    description: 'Studies published cards; cannot write or sign off on them'
+  },
+  reviewer: {
+    name: 'Reviewer',
+    description: 'Signs off on cards or sends them back for changes'
+  },
+  instructor: {
+    name: 'Instructor',
+    description: 'Writes and signs off on cards'
+  }
+}
+
+// Tags that mark treatment, medication and protocol content
+export const SENSITIVE_TAGS = ['emergency', 'protocol', 'treatment', 'medication', 'procedure']
+
+export function isCardStatus(value: unknown): value is CardStatus {
+  return typeof value === 'string' && value in CARD_STATUSES
+}
+
+export function isUserRole(value: unknown): value is UserRole {
+  return typeof value === 'string' && value in USER_ROLES
+}
+
+// Approving and requesting changes; a license key alone never grants this
+export function canSignOff(role: string): boolean {
+  return role === 'reviewer' || role === 'instructor'
+}
+
+// Creating, editing, retiring and importing cards; a license key alone never grants this
+export function canAuthor(role: string): boolean {
+  return role === 'instructor'
+}
+
+// Sending every learner back to the start of a card's schedule
+export function canResetScheduling(role: string): boolean {
+  return role === 'instructor'
+}
+
+// Cards a student could act on in the field: protocols, medications, and scenarios
+export function isProtocolOrEmergency(card: { tags: string[]; type: string }): boolean {
+  return card.tags.some(tag => SENSITIVE_TAGS.includes(tag.toLowerCase())) || card.type === 'scenario'
+}
+
+// Medically sensitive cards need a second reviewer before publishing
+export function requiredApprovals(card: { tags: string[]; type: string }): number {
+  return isProtocolOrEmergency(card) ? 2 : 1
+}
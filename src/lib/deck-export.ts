@@ -0,0 +1,169 @@
+/**
+ * Deck Export - filtered decks as CSV, Anki packages or printable sheets
+ * Exports run on this device so starred cards and weak areas come from local
+ * progress. Every export needs the license's export_data feature.
+ */
+
+import type { FlashcardData } from '@/components/flashcard/Flashcard'
+import type { CardProgress } from '@/lib/progress-storage'
+import { hasFeature } from '@/lib/license'
+import { rateLimiter } from '@/lib/rate-limiter'
+import { filterWeakAreaCards } from '@/lib/weak-areas'
+import { writeAnkiPackage } from '@/data/anki-package'
+
+export type ExportFormat = 'csv' | 'anki' | 'print'
+
+export interface ExportFilter {
+  chapters: number[] // Empty for every chapter
+  tags: string[] // Cards with any of these tags; empty for all
+  difficulties: string[]
+  starredOnly: boolean
+  weakAreasOnly: boolean
+}
+
+export interface ExportProgress {
+  starredIds: Set<string>
+  progressById: Map<string, CardProgress>
+}
+
+// One printed page: cards in reading order, blanks where the page is not full
+export interface PrintSheet {
+  fronts: (FlashcardData | null)[]
+  backs: (FlashcardData | null)[] // Mirrored per row so each back lands behind its front
+}
+
+export const EXPORT_FEATURE = 'export_data'
+
+export const EXPORT_FORMATS: Record<ExportFormat, { name: string; description: string }> = {
+  csv: {
+    name: 'CSV',
+    description: 'A spreadsheet with one card per row; the deck importer reads it back'
+  },
+  anki: {
+    name: 'Anki',
+    description: 'An .apkg package with one Basic note per card, tagged as in the app'
+  },
+  print: {
+    name: 'Print',
+    description: 'Two-sided sheets of eight cards; print double-sided, flipping on the long edge'
+  }
+}
+
+export const EMPTY_EXPORT_FILTER: ExportFilter = {
+  chapters: [],
+  tags: [],
+  difficulties: [],
+  starredOnly: false,
+  weakAreasOnly: false
+}
+
+// Cards per printed page
+export const PRINT_COLUMNS = 2
+export const PRINT_ROWS = 4
+
+const CSV_COLUMNS = ['id', 'question', 'answer', 'difficulty', 'type', 'tags', 'chapter', 'chapter title']
+
+export function isExportFormat(value: unknown): value is ExportFormat {
+  return typeof value === 'string' && value in EXPORT_FORMATS
+}
+
+export function filterExportCards(cards: FlashcardData[], filter: ExportFilter, progress: ExportProgress): FlashcardData[] {
+  const tags = new Set(filter.tags.map(tag => tag.toLowerCase()))
+
+  const matching = cards.filter(card =>
+    (filter.chapters.length === 0 || (card.chapterNumber !== undefined && filter.chapters.includes(card.chapterNumber))) &&
+    (tags.size === 0 || card.tags.some(tag => tags.has(tag.toLowerCase()))) &&
+    (filter.difficulties.length === 0 || filter.difficulties.includes(card.difficulty)) &&
+    (!filter.starredOnly || progress.starredIds.has(card.id))
+  )
+
+  // Area weakness is averaged over the whole deck, not just the filtered cards
+  if (!filter.weakAreasOnly) return matching
+  const weakIds = new Set(filterWeakAreaCards(cards, progress.progressById).map(card => card.id))
+  return matching.filter(card => weakIds.has(card.id))
+}
+
+function csvField(value: string): string {
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value
+}
+
+// RFC 4180 with a byte order mark so spreadsheet apps read it as UTF-8
+export function toCSV(cards: FlashcardData[]): string {
+  const rows = cards.map(card => [
+    card.id,
+    card.question,
+    card.answer,
+    card.difficulty,
+    card.type,
+    card.tags.join(' '),
+    card.chapterNumber?.toString() ?? '',
+    card.chapterTitle ?? ''
+  ])
+  return '\uFEFF' + [CSV_COLUMNS, ...rows].map(row => row.map(csvField).join(',')).join('\r\n') + '\r\n'
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/\n/g, '<br>')
+}
+
+// Multiple-choice cards keep their options on the front
+export function cardFront(card: FlashcardData): string {
+  if (!card.options?.length) return card.question
+  return [card.question, ...card.options.map((option, index) => `${String.fromCharCode(65 + index)}. ${option}`)].join('\n')
+}
+
+export async function toAnkiPackage(cards: FlashcardData[], deckName: string): Promise<Uint8Array> {
+  return writeAnkiPackage(deckName, cards.map(card => ({
+    guid: `chapterflashemt-${card.id}`,
+    front: escapeHtml(cardFront(card)),
+    back: escapeHtml(card.answer),
+    tags: card.tags.map(tag => tag.replace(/\s+/g, '-'))
+  })))
+}
+
+// Lay cards out for duplex printing. Flipping on the long edge swaps left and
+// right, so each row of backs is reversed to sit behind its fronts.
+export function toPrintSheets(cards: FlashcardData[]): PrintSheet[] {
+  const perPage = PRINT_COLUMNS * PRINT_ROWS
+  const sheets: PrintSheet[] = []
+
+  for (let start = 0; start < cards.length; start += perPage) {
+    const fronts: (FlashcardData | null)[] = Array.from({ length: perPage }, (_, i) => cards[start + i] ?? null)
+    const backs: (FlashcardData | null)[] = []
+    for (let row = 0; row < PRINT_ROWS; row++) {
+      backs.push(...fronts.slice(row * PRINT_COLUMNS, (row + 1) * PRINT_COLUMNS).reverse())
+    }
+    sheets.push({ fronts, backs })
+  }
+  return sheets
+}
+
+// Throws when the license lacks the export feature or exports are coming too fast
+export function assertCanExport(): void {
+  if (!hasFeature(EXPORT_FEATURE)) {
+    throw new Error('Your license does not include deck export')
+  }
+  if (!rateLimiter.canProceed(EXPORT_FEATURE)) {
+    throw new Error('Too many exports in a short time. Try again in a few minutes.')
+  }
+}
+
+export function exportFilename(format: Exclude<ExportFormat, 'print'>, now: Date = new Date()): string {
+  return `chapterflashemt-deck-${now.toISOString().slice(0, 10)}.${format === 'anki' ? 'apkg' : 'csv'}`
+}
+
+export function downloadFile(data: string | Uint8Array, type: string, filename: string): void {
+  const url = URL.createObjectURL(new Blob([data as BlobPart], { type }))
+  const link = document.createElement('a')
+  link.href = url
+  link.download = filename
+  document.body.appendChild(link)
+  link.click()
+  link.remove()
+  URL.revokeObjectURL(url)
+}
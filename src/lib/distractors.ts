@@ -0,0 +1,90 @@
+/**
+ * Distractor generator - turns free-recall cards into multiple-choice questions
+ * Wrong options are drawn offline from the answers of related cards
+ */
+
+import { FlashcardData } from '@/components/flashcard/Flashcard'
+
+export const DEFAULT_OPTION_COUNT = 4
+
+export function isMultipleChoice(card: FlashcardData): boolean {
+  return Array.isArray(card.options)
+    && card.options.length > 1
+    && typeof card.correctIndex === 'number'
+    && card.correctIndex >= 0
+    && card.correctIndex < card.options.length
+}
+
+function normalizeAnswer(answer: string): string {
+  return answer.toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim()
+}
+
+// Related cards make plausible distractors: same chapter, shared tags, same type and similar length
+function scoreCandidate(card: FlashcardData, candidate: FlashcardData): number {
+  let score = 0
+
+  if (card.chapterNumber && candidate.chapterNumber === card.chapterNumber) score += 3
+  score += candidate.tags.filter(tag => card.tags.includes(tag)).length * 2
+  if (candidate.type === card.type) score += 1
+
+  const lengthRatio = Math.min(card.answer.length, candidate.answer.length) /
+    Math.max(card.answer.length, candidate.answer.length, 1)
+  score += lengthRatio * 2
+
+  return score
+}
+
+// Pick `count` distinct wrong answers for a card from the rest of the pool
+export function generateDistractors(
+  card: FlashcardData,
+  pool: FlashcardData[],
+  count: number = DEFAULT_OPTION_COUNT - 1
+): string[] {
+  const seen = new Set([normalizeAnswer(card.answer)])
+
+  const ranked = pool
+    .filter(candidate => candidate.id !== card.id)
+    .map(candidate => ({ answer: candidate.answer, score: scoreCandidate(card, candidate) }))
+    .sort((a, b) => b.score - a.score)
+
+  // Sample from the strongest candidates so repeat sessions see different options
+  const shortlist: string[] = []
+  for (const { answer } of ranked) {
+    const key = normalizeAnswer(answer)
+    if (!key || seen.has(key)) continue
+    seen.add(key)
+    shortlist.push(answer)
+    if (shortlist.length >= count * 3) break
+  }
+
+  return shuffle(shortlist).slice(0, count)
+}
+
+// Returns the card with options attached, or unchanged if it is already
+// multiple-choice or the pool cannot supply enough distractors
+export function toMultipleChoice(
+  card: FlashcardData,
+  pool: FlashcardData[],
+  optionCount: number = DEFAULT_OPTION_COUNT
+): FlashcardData {
+  if (isMultipleChoice(card)) return card
+
+  const distractors = generateDistractors(card, pool, optionCount - 1)
+  if (distractors.length < optionCount - 1) return card
+
+  const options = shuffle([card.answer, ...distractors])
+  return {
+    ...card,
+    options,
+    correctIndex: options.indexOf(card.answer)
+  }
+}
+
+function shuffle<T>(items: T[]): T[] {
+  const shuffled = [...items]
+  for (let i = shuffled.length - 1; i > 0; i--) {
+    const j = Math.floor(Math.random() * (i + 1))
+    ;[shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]]
+  }
+  return shuffled
+}
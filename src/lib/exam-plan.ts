@@ -0,0 +1,109 @@
+/**
+ * Exam Plan - fits spaced repetition around a fixed NREMT test date
+ * Caps intervals before the exam, ramps new cards and projects a daily plan
+ */
+
+import type { FlashcardData } from '@/components/flashcard/Flashcard'
+import type { CardProgress } from '@/lib/progress-storage'
+import type { UserSettings } from '@/lib/user-settings'
+import { projectReviews } from '@/lib/review-forecast'
+
+// The last days before the exam introduce no new cards, only reviews
+export const EXAM_REVIEW_ONLY_DAYS = 2
+
+export interface DailyPlanDay {
+  date: number // Local midnight
+  newCards: number
+  reviews: number
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000
+const PROJECTED_EASE = 2.5 // Intervals in the plan assume Good ratings
+
+function startOfDay(date: Date): Date {
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate())
+}
+
+// Parse a YYYY-MM-DD exam date as local midnight; null if it is not a real date
+export function parseExamDate(value: string): Date | null {
+  const match = /^(\d{4})-(\d{2})-(\d{2})$/.exec(value)
+  if (!match) return null
+
+  const [, year, month, day] = match.map(Number)
+  const date = new Date(year, month - 1, day)
+  return date.getMonth() === month - 1 && date.getDate() === day ? date : null
+}
+
+// Whole days from today until the exam: 0 on exam day, negative once it has passed
+export function daysUntilExam(examDate: string, now: Date = new Date()): number {
+  const exam = parseExamDate(examDate)
+  if (!exam) return -1
+  return Math.round((exam.getTime() - startOfDay(now).getTime()) / DAY_MS)
+}
+
+// Shorten an interval so the review lands no later than the day before the exam
+export function capIntervalForExam(interval: number, examDate: string, now: Date = new Date()): number {
+  const daysLeft = daysUntilExam(examDate, now)
+  if (daysLeft <= 0) return interval
+  return Math.min(interval, Math.max(1, daysLeft - 1))
+}
+
+// Enough new cards per day to see every unseen card before the review-only days
+export function newCardsPerDayForExam(
+  unseenCount: number,
+  examDate: string,
+  baseNewCards: number,
+  now: Date = new Date()
+): number {
+  const daysLeft = daysUntilExam(examDate, now)
+  if (daysLeft <= 0) return baseNewCards
+
+  const introductionDays = Math.max(1, daysLeft - EXAM_REVIEW_ONLY_DAYS)
+  return Math.max(baseNewCards, Math.ceil(unseenCount / introductionDays))
+}
+
+// Day-by-day new and review counts from today until the day before the exam
+export function buildDailyPlan(
+  cards: FlashcardData[],
+  allProgress: CardProgress[],
+  settings: UserSettings,
+  now: Date = new Date()
+): DailyPlanDay[] {
+  if (!settings.examDate) return []
+  const daysLeft = daysUntilExam(settings.examDate, now)
+  if (daysLeft <= 0) return []
+
+  const today = startOfDay(now)
+  const deckIds = new Set(cards.map(card => card.id))
+  const studied = allProgress.filter(progress => deckIds.has(progress.cardId) && progress.timesStudied > 0)
+  const reviews = new Array<number>(daysLeft).fill(0)
+  const newCards = new Array<number>(daysLeft).fill(0)
+
+  // Reviews are capped to land before the exam, as withExamDate does when scheduling
+  studied.filter(progress => !progress.suspended).forEach(progress => {
+    const dueDay = Math.max(0, Math.floor((progress.nextReview - today.getTime()) / DAY_MS))
+    const ease = progress.easeFactor ?? PROJECTED_EASE
+    projectReviews(reviews, dueDay, (progress.interval ?? 1) * ease, ease, true)
+  })
+
+  let unseen = cards.length - studied.length
+  const perDay = newCardsPerDayForExam(unseen, settings.examDate, settings.newCardsPerDay, now)
+  const lastIntroductionDay = Math.max(0, daysLeft - EXAM_REVIEW_ONLY_DAYS - 1)
+
+  for (let day = 0; day <= lastIntroductionDay && unseen > 0; day++) {
+    newCards[day] = Math.min(perDay, unseen)
+    unseen -= newCards[day]
+    // A new card comes back the next day, then at the graduating interval
+    for (let i = 0; i < newCards[day]; i++) {
+      if (day + 1 < daysLeft) {
+        projectReviews(reviews, day + 1, settings.graduatingInterval, PROJECTED_EASE, true)
+      }
+    }
+  }
+
+  return reviews.map((count, day) => ({
+    date: new Date(today.getFullYear(), today.getMonth(), today.getDate() + day).getTime(),
+    newCards: newCards[day],
+    reviews: count
+  }))
+}
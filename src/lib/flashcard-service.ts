@@ -1,4 +1,11 @@
 import { prisma } from '@/lib/prisma'
+import RevisionService, { diffSnapshots } from '@/lib/revision-service'
+import type { CardStatus } from '@/lib/content-review'
+import type { Flashcard, Category, Chapter, Prisma } from '@prisma/client'
+import { validateFlashcard, type FlashcardSeedData } from '@/lib/seed-flashcards'
+
+// Deck imports create thousands of cards in one transaction; the default limit is 5 seconds
+const BULK_CREATE_TIMEOUT_MS = 5 * 60 * 1000
 
 export interface FlashcardWithRelations {
   id: string
@@ -7,7 +14,7 @@ export interface FlashcardWithRelations {
   difficulty: 'Basic' | 'Intermediate' | 'Advanced'
   type: 'definition' | 'recognition' | 'application' | 'scenario' | 'assessment'
   tags: string
-  isActive: boolean
+  status: CardStatus
   createdAt: Date
   updatedAt: Date
   category: {
@@ -42,14 +49,91 @@ export interface ChapterWithStats {
   flashcards: FlashcardWithRelations[]
 }
 
+// A validated card as authored by an instructor; categoryId is optional
+export interface FlashcardInput extends Omit<FlashcardSeedData, 'categoryId'> {
+  categoryId: number | null
+}
+
+export interface FlashcardChangeOptions {
+  authorId?: string | null // User behind the license that made the change
+  resetScheduling?: boolean // Send every learner back to the start of the card's schedule
+}
+
+function toFlashcardWithRelations(
+  card: Flashcard & { category: Category | null; chapter: Chapter | null }
+): FlashcardWithRelations {
+  return {
+    ...card,
+    difficulty: card.difficulty as 'Basic' | 'Intermediate' | 'Advanced',
+    type: card.type as 'definition' | 'recognition' | 'application' | 'scenario' | 'assessment',
+    status: card.status as CardStatus
+  }
+}
+
+// Editing a card that is in review or published sends it back to draft, so
+// changed content is reviewed again before students see it
+function statusAfterEdit(existing: Flashcard, content: Partial<Flashcard>): CardStatus {
+  const changed = diffSnapshots(existing, { ...existing, ...content }).length > 0
+  if (changed && (existing.status === 'in_review' || existing.status === 'published')) return 'draft'
+  return existing.status as CardStatus
+}
+
+// The editable fields of a stored card, in the shape validateFlashcard expects
+export function toFlashcardInput(card: FlashcardWithRelations): FlashcardInput {
+  return {
+    id: card.id,
+    question: card.question,
+    answer: card.answer,
+    difficulty: card.difficulty,
+    type: card.type,
+    tags: JSON.parse(card.tags || '[]'),
+    chapterNumber: card.chapter?.number ?? 0,
+    chapterTitle: card.chapter?.title ?? '',
+    categoryId: card.category?.id ?? null
+  }
+}
+
+// Validate an authoring request body; categoryId may be omitted or null
+export function parseFlashcardInput(body: unknown, id: string): { input: FlashcardInput } | { error: string } {
+  if (!body || typeof body !== 'object') return { error: 'Expected a flashcard object' }
+
+  const { categoryId = null, ...fields } = body as Record<string, unknown>
+  if (categoryId !== null && !Number.isInteger(categoryId)) {
+    return { error: 'Invalid categoryId' }
+  }
+
+  try {
+    return { input: { ...validateFlashcard({ ...fields, id }), categoryId: categoryId as number | null } }
+  } catch (error) {
+    return { error: error instanceof Error ? error.message : 'Invalid flashcard' }
+  }
+}
+
+// Shape returned by the /api/flashcards routes
+export function serializeFlashcard(card: FlashcardWithRelations) {
+  return {
+    id: card.id,
+    question: card.question,
+    answer: card.answer,
+    difficulty: card.difficulty,
+    type: card.type,
+    tags: JSON.parse(card.tags || '[]'),
+    chapterNumber: card.chapter?.number || 0,
+    chapterTitle: card.chapter?.title || 'Unknown Chapter',
+    category: card.category?.name || 'General',
+    categoryId: card.category?.id ?? null,
+    status: card.status
+  }
+}
+
 export class FlashcardService {
   
-  // Get all active flashcards with relations
+  // Get all published flashcards with relations
   static async getAllFlashcards(): Promise<FlashcardWithRelations[]> {
     try {
       const flashcards = await prisma.flashcard.findMany({
         where: {
-          isActive: true
+          status: 'published'
         },
         include: {
           category: true,
@@ -61,11 +145,7 @@ export class FlashcardService {
         ]
       })
 
-      return flashcards.map(card => ({
-        ...card,
-        difficulty: card.difficulty as 'Basic' | 'Intermediate' | 'Advanced',
-        type: card.type as 'definition' | 'recognition' | 'application' | 'scenario' | 'assessment'
-      }))
+      return flashcards.map(toFlashcardWithRelations)
     } catch (error) {
       console.error('Error fetching flashcards:', error)
       return []
@@ -78,7 +158,7 @@ export class FlashcardService {
       const flashcards = await prisma.flashcard.findMany({
         where: {
           categoryId: categoryId,
-          isActive: true
+          status: 'published'
         },
         include: {
           category: true,
@@ -90,11 +170,7 @@ export class FlashcardService {
         ]
       })
 
-      return flashcards.map(card => ({
-        ...card,
-        difficulty: card.difficulty as 'Basic' | 'Intermediate' | 'Advanced',
-        type: card.type as 'definition' | 'recognition' | 'application' | 'scenario' | 'assessment'
-      }))
+      return flashcards.map(toFlashcardWithRelations)
     } catch (error) {
       console.error('Error fetching flashcards by category:', error)
       return []
@@ -107,7 +183,7 @@ export class FlashcardService {
       const flashcards = await prisma.flashcard.findMany({
         where: {
           chapterNumber: chapterNumber,
-          isActive: true
+          status: 'published'
         },
         include: {
           category: true,
@@ -118,17 +194,195 @@ export class FlashcardService {
         }
       })
 
-      return flashcards.map(card => ({
-        ...card,
-        difficulty: card.difficulty as 'Basic' | 'Intermediate' | 'Advanced',
-        type: card.type as 'definition' | 'recognition' | 'application' | 'scenario' | 'assessment'
-      }))
+      return flashcards.map(toFlashcardWithRelations)
     } catch (error) {
       console.error('Error fetching flashcards by chapter:', error)
       return []
     }
   }
 
+  // Cards in any of the given states, for the editor; optionally one chapter only
+  static async getFlashcardsByStatus(
+    statuses: CardStatus[],
+    chapterNumber?: number
+  ): Promise<FlashcardWithRelations[]> {
+    const flashcards = await prisma.flashcard.findMany({
+      where: {
+        status: { in: statuses },
+        ...(chapterNumber !== undefined && { chapterNumber })
+      },
+      include: {
+        category: true,
+        chapter: true
+      },
+      orderBy: [
+        { chapter: { number: 'asc' } },
+        { createdAt: 'asc' }
+      ]
+    })
+
+    return flashcards.map(toFlashcardWithRelations)
+  }
+
+  // Id and question of every card in any state, for spotting duplicates on import
+  static async getCardKeys(): Promise<{ id: string; question: string }[]> {
+    return prisma.flashcard.findMany({ select: { id: true, question: true } })
+  }
+
+  // Get a single card in any state, for editing
+  static async getFlashcardById(id: string): Promise<FlashcardWithRelations | null> {
+    const card = await prisma.flashcard.findUnique({
+      where: { id },
+      include: { category: true, chapter: true }
+    })
+    return card ? toFlashcardWithRelations(card) : null
+  }
+
+  static async categoryExists(categoryId: number): Promise<boolean> {
+    return (await prisma.category.count({ where: { id: categoryId } })) > 0
+  }
+
+  // Authored cards name their chapter by number; a new chapter number creates the chapter
+  private static async ensureChapter(
+    chapterNumber: number,
+    chapterTitle: string,
+    db: Prisma.TransactionClient
+  ): Promise<void> {
+    await db.chapter.upsert({
+      where: { number: chapterNumber },
+      update: {},
+      create: {
+        number: chapterNumber,
+        title: chapterTitle,
+        description: `Chapter ${chapterNumber}: ${chapterTitle}`
+      }
+    })
+  }
+
+  // New cards start as drafts and go through review before students see them
+  static async createFlashcard(input: FlashcardInput, authorId: string | null = null): Promise<FlashcardWithRelations> {
+    return prisma.$transaction(tx => this.insertFlashcard(input, authorId, tx))
+  }
+
+  // All or nothing: a failure on any card leaves none of them created
+  static async createFlashcards(inputs: FlashcardInput[], authorId: string | null = null): Promise<FlashcardWithRelations[]> {
+    return prisma.$transaction(async tx => {
+      const cards: FlashcardWithRelations[] = []
+      for (const input of inputs) {
+        cards.push(await this.insertFlashcard(input, authorId, tx))
+      }
+      return cards
+    }, { timeout: BULK_CREATE_TIMEOUT_MS })
+  }
+
+  private static async insertFlashcard(
+    input: FlashcardInput,
+    authorId: string | null,
+    tx: Prisma.TransactionClient
+  ): Promise<FlashcardWithRelations> {
+    await this.ensureChapter(input.chapterNumber, input.chapterTitle, tx)
+
+    const card = await tx.flashcard.create({
+      data: {
+        id: input.id,
+        question: input.question,
+        answer: input.answer,
+        difficulty: input.difficulty,
+        type: input.type,
+        tags: JSON.stringify(input.tags), // Store as JSON string for SQLite
+        chapterNumber: input.chapterNumber,
+        categoryId: input.categoryId,
+        status: 'draft'
+      },
+      include: { category: true, chapter: true }
+    })
+    await RevisionService.recordRevision(card, 'created', authorId, false, tx)
+    return toFlashcardWithRelations(card)
+  }
+
+  // Returns null when the card does not exist
+  static async updateFlashcard(
+    input: FlashcardInput,
+    { authorId = null, resetScheduling = false }: FlashcardChangeOptions = {}
+  ): Promise<FlashcardWithRelations | null> {
+    return prisma.$transaction(async tx => {
+      const existing = await tx.flashcard.findUnique({ where: { id: input.id } })
+      if (!existing) return null
+
+      await RevisionService.ensureBaseline(existing, tx)
+      await this.ensureChapter(input.chapterNumber, input.chapterTitle, tx)
+
+      const content = {
+        question: input.question,
+        answer: input.answer,
+        difficulty: input.difficulty,
+        type: input.type,
+        tags: JSON.stringify(input.tags),
+        chapterNumber: input.chapterNumber,
+        categoryId: input.categoryId
+      }
+      const card = await tx.flashcard.update({
+        where: { id: input.id },
+        data: { ...content, status: statusAfterEdit(existing, content) },
+        include: { category: true, chapter: true }
+      })
+      await RevisionService.recordRevision(card, 'updated', authorId, resetScheduling, tx)
+      if (resetScheduling) await RevisionService.resetLearnerScheduling(card.id, tx)
+      return toFlashcardWithRelations(card)
+    })
+  }
+
+  // Restore the content of an earlier revision as a new revision; null when
+  // the card or revision does not exist. The card's status follows the same
+  // rule as an edit, so a revert never skips review
+  static async revertFlashcard(
+    id: string,
+    revision: number,
+    { authorId = null, resetScheduling = false }: FlashcardChangeOptions = {}
+  ): Promise<FlashcardWithRelations | null> {
+    const target = await RevisionService.getRevision(id, revision)
+    if (!target) return null
+
+    return prisma.$transaction(async tx => {
+      const existing = await tx.flashcard.findUnique({ where: { id } })
+      if (!existing) return null
+
+      const content = {
+        question: target.question,
+        answer: target.answer,
+        difficulty: target.difficulty,
+        type: target.type,
+        tags: target.tags,
+        chapterNumber: target.chapterNumber,
+        categoryId: target.categoryId
+      }
+      const card = await tx.flashcard.update({
+        where: { id },
+        data: { ...content, status: statusAfterEdit(existing, content) },
+        include: { category: true, chapter: true }
+      })
+      await RevisionService.recordRevision(card, 'reverted', authorId, resetScheduling, tx)
+      if (resetScheduling) await RevisionService.resetLearnerScheduling(card.id, tx)
+      return toFlashcardWithRelations(card)
+    })
+  }
+
+  // Cards are retired rather than removed so learners' progress on them survives
+  static async deleteFlashcard(id: string, authorId: string | null = null): Promise<boolean> {
+    return prisma.$transaction(async tx => {
+      const existing = await tx.flashcard.findUnique({ where: { id } })
+      if (!existing || existing.status === 'retired') return false
+
+      await RevisionService.ensureBaseline(existing, tx)
+      const card = await tx.flashcard.update({
+        where: { id },
+        data: { status: 'retired' }
+      })
+      await RevisionService.recordRevision(card, 'retired', authorId, false, tx)
+      return true
+    })
+  }
+
   // Get all categories with card counts
   static async getCategoriesWithStats(): Promise<CategoryWithStats[]> {
     try {
@@ -136,7 +390,7 @@ export class FlashcardService {
         include: {
           flashcards: {
             where: {
-              isActive: true
+              status: 'published'
             },
             include: {
               category: true,
@@ -152,11 +406,7 @@ export class FlashcardService {
       return categories.map(category => ({
         ...category,
         cardCount: category.flashcards.length,
-        flashcards: category.flashcards.map(card => ({
-          ...card,
-          difficulty: card.difficulty as 'Basic' | 'Intermediate' | 'Advanced',
-          type: card.type as 'definition' | 'recognition' | 'application' | 'scenario' | 'assessment'
-        }))
+        flashcards: category.flashcards.map(toFlashcardWithRelations)
       }))
     } catch (error) {
       console.error('Error fetching categories with stats:', error)
@@ -171,7 +421,7 @@ export class FlashcardService {
         include: {
           flashcards: {
             where: {
-              isActive: true
+              status: 'published'
             },
             include: {
               category: true,
@@ -187,11 +437,7 @@ export class FlashcardService {
       return chapters.map(chapter => ({
         ...chapter,
         cardCount: chapter.flashcards.length,
-        flashcards: chapter.flashcards.map(card => ({
-          ...card,
-          difficulty: card.difficulty as 'Basic' | 'Intermediate' | 'Advanced',
-          type: card.type as 'definition' | 'recognition' | 'application' | 'scenario' | 'assessment'
-        }))
+        flashcards: chapter.flashcards.map(toFlashcardWithRelations)
       }))
     } catch (error) {
       console.error('Error fetching chapters with stats:', error)
@@ -209,17 +455,17 @@ export class FlashcardService {
         difficultyStats,
         typeStats
       ] = await Promise.all([
-        prisma.flashcard.count({ where: { isActive: true } }),
+        prisma.flashcard.count({ where: { status: 'published' } }),
         prisma.category.count(),
         prisma.chapter.count(),
         prisma.flashcard.groupBy({
           by: ['difficulty'],
-          where: { isActive: true },
+          where: { status: 'published' },
           _count: { difficulty: true }
         }),
         prisma.flashcard.groupBy({
           by: ['type'],
-          where: { isActive: true },
+          where: { status: 'published' },
           _count: { type: true }
         })
       ])
@@ -0,0 +1,129 @@
+/**
+ * FSRS - Free Spaced Repetition Scheduler memory model
+ * Tracks stability (days until recall drops to 90%), difficulty (1-10) and
+ * retrievability (current recall probability) for each card
+ */
+
+import type { ReviewRating } from '@/lib/spaced-repetition'
+
+export interface FsrsState {
+  stability: number
+  difficulty: number
+}
+
+export interface FsrsParameters {
+  weights: number[]
+  requestRetention: number // Target recall probability when a card comes due
+}
+
+// FSRS-4.5 default weights
+export const DEFAULT_FSRS_PARAMETERS: FsrsParameters = {
+  weights: [
+    0.4872, 1.4003, 3.7145, 13.8206, 5.1618, 1.2298, 0.8975, 0.031, 1.6474,
+    0.1367, 1.0461, 2.1072, 0.0793, 0.3246, 1.587, 0.2272, 2.8755
+  ],
+  requestRetention: 0.9
+}
+
+const DECAY = -0.5
+const FACTOR = 19 / 81 // Makes retrievability 0.9 when elapsed days equal stability
+const MIN_STABILITY = 0.1
+const MIN_DIFFICULTY = 1
+const MAX_DIFFICULTY = 10
+const DAY_MS = 24 * 60 * 60 * 1000
+
+const RATING_GRADE: Record<ReviewRating, number> = {
+  again: 1,
+  hard: 2,
+  good: 3,
+  easy: 4
+}
+
+function clampDifficulty(difficulty: number): number {
+  return Math.min(MAX_DIFFICULTY, Math.max(MIN_DIFFICULTY, difficulty))
+}
+
+function initialDifficulty(grade: number, w: number[]): number {
+  return clampDifficulty(w[4] - (grade - 3) * w[5])
+}
+
+// Probability of recalling a card `elapsedDays` after its last review
+export function retrievability(stability: number, elapsedDays: number): number {
+  return Math.pow(1 + FACTOR * Math.max(0, elapsedDays) / stability, DECAY)
+}
+
+// Days until retrievability falls to the requested retention
+export function intervalForStability(stability: number, requestRetention: number): number {
+  return (stability / FACTOR) * (Math.pow(requestRetention, 1 / DECAY) - 1)
+}
+
+export function elapsedDaysSince(lastReview: Date, now: Date): number {
+  return Math.max(0, (now.getTime() - lastReview.getTime()) / DAY_MS)
+}
+
+// Memory state after the first rating of a new card
+export function initialFsrsState(
+  rating: ReviewRating,
+  parameters: FsrsParameters = DEFAULT_FSRS_PARAMETERS
+): FsrsState {
+  const grade = RATING_GRADE[rating]
+  const w = parameters.weights
+  return {
+    stability: Math.max(MIN_STABILITY, w[grade - 1]),
+    difficulty: initialDifficulty(grade, w)
+  }
+}
+
+// Memory state after rating a card that already has one
+export function nextFsrsState(
+  state: FsrsState,
+  rating: ReviewRating,
+  elapsedDays: number,
+  parameters: FsrsParameters = DEFAULT_FSRS_PARAMETERS
+): FsrsState {
+  const grade = RATING_GRADE[rating]
+  const w = parameters.weights
+  const { stability, difficulty } = state
+  const recall = retrievability(stability, elapsedDays)
+
+  // Difficulty moves with the grade, then reverts slightly towards the default
+  const shifted = difficulty - w[6] * (grade - 3)
+  const nextDifficulty = clampDifficulty(w[7] * initialDifficulty(3, w) + (1 - w[7]) * shifted)
+
+  let nextStability: number
+  if (grade === 1) {
+    const forgotten = w[11]
+      * Math.pow(difficulty, -w[12])
+      * (Math.pow(stability + 1, w[13]) - 1)
+      * Math.exp(w[14] * (1 - recall))
+    nextStability = Math.min(stability, forgotten)
+  } else {
+    const hardPenalty = grade === 2 ? w[15] : 1
+    const easyBonus = grade === 4 ? w[16] : 1
+    nextStability = stability * (
+      1
+      + Math.exp(w[8])
+      * (11 - difficulty)
+      * Math.pow(stability, -w[9])
+      * (Math.exp(w[10] * (1 - recall)) - 1)
+      * hardPenalty
+      * easyBonus
+    )
+  }
+
+  return {
+    stability: Math.max(MIN_STABILITY, nextStability),
+    difficulty: nextDifficulty
+  }
+}
+
+// Approximate FSRS state for a card with SM-2 history. At 90% retention the
+// FSRS interval equals stability, and ease 3.0-1.3 maps onto difficulty 1-10.
+// Keep in step with the 20261019120000_fsrs_state migration.
+export function seedFsrsState(easeFactor: number, interval: number, repetitions: number): FsrsState | null {
+  if (repetitions <= 0) return null
+  return {
+    stability: Math.max(MIN_STABILITY, interval),
+    difficulty: clampDifficulty(1 + (3.0 - easeFactor) * 9 / 1.7)
+  }
+}
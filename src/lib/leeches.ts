@@ -0,0 +1,59 @@
+/**
+ * Leeches - cards a learner keeps failing after they have been learned
+ * Lapses are counted on card progress; past the threshold a card is tagged
+ * as a leech and, by default, suspended until the learner deals with it
+ */
+
+import type { FlashcardData } from '@/components/flashcard/Flashcard'
+import type { CardProgress } from '@/lib/progress-storage'
+import type { UserSettings } from '@/lib/user-settings'
+
+export type LeechAction = 'suspend' | 'tag'
+
+export interface LeechPolicy {
+  threshold: number // Lapses before a card first counts as a leech
+  action: LeechAction
+}
+
+export interface LeechCard {
+  card: FlashcardData
+  progress: CardProgress
+}
+
+export interface LeechGroup {
+  chapterNumber: number | null
+  chapterTitle: string
+  cards: LeechCard[]
+}
+
+export const LEECH_ACTIONS: Record<LeechAction, { name: string; description: string }> = {
+  suspend: {
+    name: 'Suspend',
+    description: 'Tag the card and keep it out of reviews until you reactivate it'
+  },
+  tag: {
+    name: 'Tag only',
+    description: 'Tag the card but keep scheduling it'
+  }
+}
+
+// Same defaults as prisma/schema.prisma
+export const DEFAULT_LEECH_POLICY: LeechPolicy = {
+  threshold: 8,
+  action: 'suspend'
+}
+
+export function isLeechAction(value: unknown): value is LeechAction {
+  return typeof value === 'string' && value in LEECH_ACTIONS
+}
+
+export function leechPolicyFromSettings(settings: UserSettings): LeechPolicy {
+  return { threshold: settings.leechThreshold, action: settings.leechAction }
+}
+
+// A card becomes a leech at the threshold, and the action fires again every
+// half-threshold lapses after that, so a reactivated card that keeps failing returns
+export function isLeechLapse(lapses: number, policy: LeechPolicy): boolean {
+  if (lapses < policy.threshold) return false
+  return (lapses - policy.threshold) % Math.max(1, Math.ceil(policy.threshold / 2)) === 0
+}
@@ -18,6 +18,9 @@ export interface License {
   features: string[]
 }
 
+// Request header that identifies the license (and so the user) when syncing progress
+export const LICENSE_KEY_HEADER = 'x-license-key'
+
 interface LicenseValidationResult {
   valid: boolean
   license?: License
@@ -28,7 +31,7 @@ interface LicenseValidationResult {
 /**
  * Validate a license key structure
  */
-function isValidLicenseFormat(key: string): boolean {
+export function isValidLicenseFormat(key: string): boolean {
   // ChapterFlashEMT license format: CFEMT-XXXXX-XXXXX-XXXXX-XXXXX
   const pattern = /^CFEMT-[A-Z0-9]{5}-[A-Z0-9]{5}-[A-Z0-9]{5}-[A-Z0-9]{5}$/
   return pattern.test(key)
@@ -13,6 +13,8 @@ interface ExportedFlashcard {
   chapterNumber?: number
   type?: string
   moduleNumber?: number
+  options?: string[]
+  correctIndex?: number
 }
 
 interface ChapterCollection {
@@ -61,7 +63,9 @@ export const getAllLocalFlashcards = (): FlashcardData[] => {
           type: normalizeType(card.type),
           tags: Array.isArray(card.tags) ? card.tags : [],
           chapterNumber: card.chapterNumber,
-          chapterTitle: card.chapterNumber ? `Chapter ${card.chapterNumber}` : undefined
+          chapterTitle: card.chapterNumber ? `Chapter ${card.chapterNumber}` : undefined,
+          options: Array.isArray(card.options) ? card.options : undefined,
+          correctIndex: card.correctIndex
         })
       } catch (e) {
         console.warn('Error processing main flashcard:', card, e)
@@ -83,7 +87,9 @@ export const getAllLocalFlashcards = (): FlashcardData[] => {
               type: normalizeType(card.type),
               tags: Array.isArray(card.tags) ? card.tags : [],
               chapterNumber: collection.chapterNumber,
-              chapterTitle: collection.chapterTitle || `Chapter ${collection.chapterNumber}`
+              chapterTitle: collection.chapterTitle || `Chapter ${collection.chapterNumber}`,
+              options: Array.isArray(card.options) ? card.options : undefined,
+              correctIndex: card.correctIndex
             })
           } catch (e) {
             console.warn('Error processing chapter flashcard:', card, e)
@@ -3,6 +3,11 @@
  * Stores all analytics data locally using IndexedDB and localStorage
  */
 
+import { normalizeStudyMode, type StudyMode } from '@/lib/types'
+import type { CardState } from '@/lib/spaced-repetition'
+import type { FlagColor } from '@/lib/card-actions'
+import type { StudySessionState } from '@/lib/study-session'
+
 export interface StudySession {
   id: string
   timestamp: number
@@ -10,7 +15,7 @@ export interface StudySession {
   cardsStudied: number
   correctAnswers: number
   incorrectAnswers: number
-  mode: 'quick-drill' | 'deep-study' | 'exam-mimic'
+  mode: StudyMode
   chapters: string[]
   categories: string[]
 }
@@ -24,6 +29,38 @@ export interface CardProgress {
   nextReview: number
   difficulty: 'easy' | 'medium' | 'hard'
   masteryLevel: number // 0-100
+  // SM-2 scheduling state (absent on records saved before scheduling existed)
+  easeFactor?: number
+  interval?: number // days
+  repetitions?: number
+  state?: CardState // Absent on records saved before learning steps existed
+  learningStep?: number
+  // FSRS memory state (absent until FSRS has scheduled the card)
+  stability?: number // days
+  memoryDifficulty?: number // 1-10
+  lapses?: number // Times the card was failed after it had been learned
+  leech?: boolean
+  suspended?: boolean // Kept out of reviews until reactivated
+  buriedUntil?: number // Hidden from sessions until this time
+  flagColor?: FlagColor
+  updatedAt?: number // Last change of any kind (review, action or reset); absent on older records
+}
+
+// When a record last changed; sync keeps whichever copy changed last
+export function lastModified(progress: CardProgress): number {
+  return progress.updatedAt ?? progress.lastStudied
+}
+
+export interface StarredCard {
+  cardId: string
+  starredAt: number
+}
+
+// The in-progress session, saved as it goes so it can be resumed after a reload
+export interface SessionCheckpoint {
+  session: StudySessionState
+  elapsed: number // ms of the session already spent
+  savedAt: number
 }
 
 export interface ChapterProgress {
@@ -57,9 +94,11 @@ export interface ProgressStats {
   studyGoalDays: number[]
 }
 
+const CHECKPOINT_KEY = 'current'
+
 class ProgressStorage {
   private dbName = 'ChapterFlashEMT_Progress'
-  private dbVersion = 1
+  private dbVersion = 3
   private db: IDBDatabase | null = null
 
   // Initialize IndexedDB
@@ -101,6 +140,16 @@ class ProgressStorage {
           const streaksStore = db.createObjectStore('dailyStreaks', { keyPath: 'date' })
           streaksStore.createIndex('date', 'date', { unique: true })
         }
+
+        if (!db.objectStoreNames.contains('starredCards')) {
+          const starredStore = db.createObjectStore('starredCards', { keyPath: 'cardId' })
+          starredStore.createIndex('starredAt', 'starredAt', { unique: false })
+        }
+
+        // Holds a single record under CHECKPOINT_KEY
+        if (!db.objectStoreNames.contains('sessionCheckpoint')) {
+          db.createObjectStore('sessionCheckpoint')
+        }
       }
     })
   }
@@ -135,7 +184,7 @@ class ProgressStorage {
       request.onsuccess = (event) => {
         const cursor = (event.target as IDBRequest).result
         if (cursor && (!limit || sessions.length < limit)) {
-          sessions.push(cursor.value)
+          sessions.push(this.normalizeSession(cursor.value))
           cursor.continue()
         } else {
           resolve(sessions)
@@ -145,6 +194,14 @@ class ProgressStorage {
     })
   }
 
+  // Older builds stored other mode ids (e.g. 'deep-study'); map them onto the registry
+  private normalizeSession(session: StudySession): StudySession {
+    return {
+      ...session,
+      mode: normalizeStudyMode(session.mode) ?? 'custom-drill'
+    }
+  }
+
   // Card Progress
   async saveCardProgress(progress: CardProgress): Promise<void> {
     if (!this.db) await this.init()
@@ -185,6 +242,88 @@ class ProgressStorage {
     })
   }
 
+  // Starred Cards
+  async starCard(cardId: string, starredAt: number = Date.now()): Promise<StarredCard> {
+    if (!this.db) await this.init()
+
+    const starred: StarredCard = { cardId, starredAt }
+    return new Promise((resolve, reject) => {
+      const transaction = this.db!.transaction(['starredCards'], 'readwrite')
+      const store = transaction.objectStore('starredCards')
+      const request = store.put(starred)
+
+      request.onsuccess = () => resolve(starred)
+      request.onerror = () => reject(request.error)
+    })
+  }
+
+  async unstarCard(cardId: string): Promise<void> {
+    if (!this.db) await this.init()
+
+    return new Promise((resolve, reject) => {
+      const transaction = this.db!.transaction(['starredCards'], 'readwrite')
+      const store = transaction.objectStore('starredCards')
+      const request = store.delete(cardId)
+
+      request.onsuccess = () => resolve()
+      request.onerror = () => reject(request.error)
+    })
+  }
+
+  // Most recently starred first
+  async getStarredCards(): Promise<StarredCard[]> {
+    if (!this.db) await this.init()
+
+    return new Promise((resolve, reject) => {
+      const transaction = this.db!.transaction(['starredCards'], 'readonly')
+      const store = transaction.objectStore('starredCards')
+      const request = store.index('starredAt').getAll()
+
+      request.onsuccess = () => resolve((request.result as StarredCard[]).reverse())
+      request.onerror = () => reject(request.error)
+    })
+  }
+
+  // Session Checkpoint
+  async saveSessionCheckpoint(checkpoint: SessionCheckpoint): Promise<void> {
+    if (!this.db) await this.init()
+
+    return new Promise((resolve, reject) => {
+      const transaction = this.db!.transaction(['sessionCheckpoint'], 'readwrite')
+      const store = transaction.objectStore('sessionCheckpoint')
+      const request = store.put(checkpoint, CHECKPOINT_KEY)
+
+      request.onsuccess = () => resolve()
+      request.onerror = () => reject(request.error)
+    })
+  }
+
+  async getSessionCheckpoint(): Promise<SessionCheckpoint | null> {
+    if (!this.db) await this.init()
+
+    return new Promise((resolve, reject) => {
+      const transaction = this.db!.transaction(['sessionCheckpoint'], 'readonly')
+      const store = transaction.objectStore('sessionCheckpoint')
+      const request = store.get(CHECKPOINT_KEY)
+
+      request.onsuccess = () => resolve(request.result || null)
+      request.onerror = () => reject(request.error)
+    })
+  }
+
+  async clearSessionCheckpoint(): Promise<void> {
+    if (!this.db) await this.init()
+
+    return new Promise((resolve, reject) => {
+      const transaction = this.db!.transaction(['sessionCheckpoint'], 'readwrite')
+      const store = transaction.objectStore('sessionCheckpoint')
+      const request = store.delete(CHECKPOINT_KEY)
+
+      request.onsuccess = () => resolve()
+      request.onerror = () => reject(request.error)
+    })
+  }
+
   // Chapter Progress
   async saveChapterProgress(progress: ChapterProgress): Promise<void> {
     if (!this.db) await this.init()
@@ -214,7 +353,8 @@ class ProgressStorage {
 
   // Daily Streaks
   private async updateDailyStreak(session: StudySession): Promise<void> {
-    const today = new Date().toISOString().split('T')[0]
+    // Credit the day the session happened (synced sessions can arrive later)
+    const today = new Date(session.timestamp).toISOString().split('T')[0]
     
     return new Promise((resolve, reject) => {
       const transaction = this.db!.transaction(['dailyStreaks'], 'readwrite')
@@ -354,6 +494,7 @@ class ProgressStorage {
     const cardProgress = await this.getAllCardProgress()
     const chapterProgress = await this.getAllChapterProgress()
     const streaks = await this.getDailyStreaks(365)
+    const starredCards = await this.getStarredCards()
 
     const data = {
       version: 1,
@@ -361,7 +502,8 @@ class ProgressStorage {
       sessions,
       cardProgress,
       chapterProgress,
-      streaks
+      streaks,
+      starredCards
     }
 
     return JSON.stringify(data)
@@ -372,7 +514,7 @@ class ProgressStorage {
     
     // Import sessions
     for (const session of data.sessions) {
-      await this.saveSession(session)
+      await this.saveSession(this.normalizeSession(session))
     }
 
     // Import card progress
@@ -384,6 +526,11 @@ class ProgressStorage {
     for (const progress of data.chapterProgress) {
       await this.saveChapterProgress(progress)
     }
+
+    // Import starred cards (absent from older backups)
+    for (const starred of data.starredCards ?? []) {
+      await this.starCard(starred.cardId, starred.starredAt)
+    }
   }
 
   // Clear all data
@@ -392,11 +539,11 @@ class ProgressStorage {
 
     return new Promise((resolve, reject) => {
       const transaction = this.db!.transaction(
-        ['sessions', 'cardProgress', 'chapterProgress', 'dailyStreaks'],
+        ['sessions', 'cardProgress', 'chapterProgress', 'dailyStreaks', 'starredCards', 'sessionCheckpoint'],
         'readwrite'
       )
 
-      const stores = ['sessions', 'cardProgress', 'chapterProgress', 'dailyStreaks']
+      const stores = ['sessions', 'cardProgress', 'chapterProgress', 'dailyStreaks', 'starredCards', 'sessionCheckpoint']
       let completed = 0
 
       stores.forEach(storeName => {
@@ -0,0 +1,309 @@
+import { prisma } from '@/lib/prisma'
+import { normalizeStudyMode } from '@/lib/types'
+import { isValidLicenseFormat } from '@/lib/license'
+import { isCardState } from '@/lib/spaced-repetition'
+import { isFlagColor } from '@/lib/card-actions'
+import { buildReviewForecast, type ForecastDay, type ForecastOptions } from '@/lib/review-forecast'
+import { lastModified, type CardProgress, type StudySession } from '@/lib/progress-storage'
+import type { UserProgress, StudySession as StudySessionRecord } from '@prisma/client'
+
+export interface ProgressSnapshot {
+  cards: CardProgress[]
+  sessions: StudySession[]
+}
+
+export interface ProgressSyncResult extends ProgressSnapshot {
+  applied: number // Local card records that replaced (or created) the server copy
+  skipped: string[] // Card ids the server does not know about
+  syncedAt: number
+}
+
+const DIFFICULTY_RATINGS: Record<CardProgress['difficulty'], number> = {
+  easy: 2,
+  medium: 3,
+  hard: 4
+}
+
+const isCount = (value: unknown) => Number.isInteger(value) && (value as number) >= 0
+const isNumber = (value: unknown) => typeof value === 'number' && Number.isFinite(value)
+// Within the range a Date can hold
+const isTime = (value: unknown) => isNumber(value) && Math.abs(value as number) <= 8.64e15
+
+const CARD_COUNTS = ['timesStudied', 'timesCorrect', 'masteryLevel'] as const
+const CARD_TIMES = ['lastStudied', 'nextReview'] as const
+const OPTIONAL_CARD_COUNTS = ['interval', 'repetitions', 'learningStep', 'lapses'] as const
+const OPTIONAL_CARD_NUMBERS = ['easeFactor', 'stability', 'memoryDifficulty'] as const
+const OPTIONAL_CARD_TIMES = ['buriedUntil', 'updatedAt'] as const
+
+function cardProgressError(value: unknown): string | null {
+  if (!value || typeof value !== 'object') return 'expected an object'
+  const card = value as Record<string, unknown>
+  if (typeof card.cardId !== 'string' || !card.cardId) return 'missing cardId'
+
+  const invalid = [
+    ...CARD_COUNTS.filter(field => !isCount(card[field])),
+    ...CARD_TIMES.filter(field => !isTime(card[field])),
+    ...OPTIONAL_CARD_COUNTS.filter(field => card[field] != null && !isCount(card[field])),
+    ...OPTIONAL_CARD_NUMBERS.filter(field => card[field] != null && !isNumber(card[field])),
+    ...OPTIONAL_CARD_TIMES.filter(field => card[field] != null && !isTime(card[field]))
+  ]
+  if (card.state != null && !isCardState(card.state)) invalid.push('state' as never)
+  if (card.flagColor != null && !isFlagColor(card.flagColor)) invalid.push('flagColor' as never)
+  return invalid.length > 0 ? `invalid ${invalid.join(', ')}` : null
+}
+
+function sessionError(value: unknown): string | null {
+  if (!value || typeof value !== 'object') return 'expected an object'
+  const session = value as Record<string, unknown>
+  if (typeof session.id !== 'string' || !session.id) return 'missing id'
+  if (!isTime(session.timestamp)) return 'invalid timestamp'
+  if (!isNumber(session.duration) || (session.duration as number) < 0) return 'invalid duration'
+  if (!isCount(session.cardsStudied) || !isCount(session.correctAnswers)) return 'invalid answer counts'
+  if (typeof session.mode !== 'string') return 'invalid mode'
+  const isStrings = (list: unknown) => list == null || (Array.isArray(list) && list.every(item => typeof item === 'string'))
+  if (!isStrings(session.chapters) || !isStrings(session.categories)) return 'invalid chapters or categories'
+  return null
+}
+
+// Check every record a device sends before anything is written
+export function parseProgressSnapshot(body: unknown): { snapshot: ProgressSnapshot } | { error: string } {
+  const { cards, sessions } = (body ?? {}) as Record<string, unknown>
+  if (!Array.isArray(cards) || !Array.isArray(sessions)) return { error: 'Expected { cards: [], sessions: [] }' }
+
+  for (const [index, card] of cards.entries()) {
+    const error = cardProgressError(card)
+    if (error) return { error: `cards[${index}]: ${error}` }
+  }
+  for (const [index, session] of sessions.entries()) {
+    const error = sessionError(session)
+    if (error) return { error: `sessions[${index}]: ${error}` }
+  }
+  return { snapshot: { cards: cards as CardProgress[], sessions: sessions as StudySession[] } }
+}
+
+function toDifficulty(rating: number): CardProgress['difficulty'] {
+  if (rating <= DIFFICULTY_RATINGS.easy) return 'easy'
+  if (rating >= DIFFICULTY_RATINGS.hard) return 'hard'
+  return 'medium'
+}
+
+function toCardProgress(record: UserProgress): CardProgress {
+  return {
+    cardId: record.flashcardId,
+    timesStudied: record.totalSeen,
+    timesCorrect: record.totalCorrect,
+    timesIncorrect: record.totalSeen - record.totalCorrect,
+    lastStudied: record.lastSeen.getTime(),
+    nextReview: record.nextReview.getTime(),
+    difficulty: toDifficulty(record.difficultyRating),
+    masteryLevel: record.masteryLevel,
+    easeFactor: record.easeFactor,
+    interval: record.interval,
+    repetitions: record.repetitions,
+    state: isCardState(record.state) ? record.state : 'review',
+    learningStep: record.learningStep,
+    stability: record.stability ?? undefined,
+    memoryDifficulty: record.memoryDifficulty ?? undefined,
+    lapses: record.lapses,
+    leech: record.leech,
+    suspended: record.suspended,
+    buriedUntil: record.buriedUntil?.getTime(),
+    flagColor: isFlagColor(record.flagColor) ? record.flagColor : undefined,
+    updatedAt: record.updatedAt.getTime()
+  }
+}
+
+function fromCardProgress(progress: CardProgress) {
+  return {
+    totalSeen: progress.timesStudied,
+    totalCorrect: progress.timesCorrect,
+    lastSeen: new Date(progress.lastStudied),
+    nextReview: new Date(progress.nextReview),
+    difficultyRating: DIFFICULTY_RATINGS[progress.difficulty] ?? DIFFICULTY_RATINGS.medium,
+    masteryLevel: progress.masteryLevel,
+    easeFactor: progress.easeFactor ?? 2.5,
+    interval: progress.interval ?? 0,
+    repetitions: progress.repetitions ?? 0,
+    state: progress.state ?? (progress.timesStudied > 0 ? 'review' : 'new'), // As getCardState in review-queue
+    learningStep: progress.learningStep ?? 0,
+    stability: progress.stability ?? null,
+    memoryDifficulty: progress.memoryDifficulty ?? null,
+    lapses: progress.lapses ?? 0,
+    leech: progress.leech ?? false,
+    suspended: progress.suspended ?? false,
+    buriedUntil: progress.buriedUntil ? new Date(progress.buriedUntil) : null,
+    flagColor: progress.flagColor ?? null,
+    updatedAt: new Date(lastModified(progress)) // The device's change time, not the time of the sync
+  }
+}
+
+function toStudySession(record: StudySessionRecord): StudySession {
+  const duration = record.endTime
+    ? Math.round((record.endTime.getTime() - record.startTime.getTime()) / 1000)
+    : 0
+
+  return {
+    id: record.clientId ?? record.id,
+    timestamp: record.startTime.getTime(),
+    duration,
+    cardsStudied: record.totalCards,
+    correctAnswers: record.correctAnswers,
+    incorrectAnswers: record.totalCards - record.correctAnswers,
+    mode: normalizeStudyMode(record.mode) ?? 'custom-drill',
+    chapters: JSON.parse(record.chapterFilter || '[]'),
+    categories: JSON.parse(record.categoryFilter || '[]')
+  }
+}
+
+function fromStudySession(session: StudySession) {
+  const endTime = new Date(session.timestamp + session.duration * 1000)
+
+  return {
+    clientId: session.id,
+    startTime: new Date(session.timestamp),
+    endTime,
+    completedAt: endTime,
+    mode: session.mode,
+    totalCards: session.cardsStudied,
+    correctAnswers: session.correctAnswers,
+    chapterFilter: JSON.stringify(session.chapters ?? []),
+    categoryFilter: JSON.stringify(session.categories ?? [])
+  }
+}
+
+export class ProgressSyncService {
+
+  // Resolve the user behind a request's license key; null when the key is missing or malformed
+  static async getUserForLicense(licenseKey: string | null, email?: string) {
+    if (!licenseKey || !isValidLicenseFormat(licenseKey)) return null
+    return this.getOrCreateUser(licenseKey, email)
+  }
+
+  // Devices on the same license share one user record
+  static async getOrCreateUser(licenseKey: string, email?: string) {
+    return prisma.user.upsert({
+      where: { licenseKey },
+      update: email ? { email } : {},
+      create: { licenseKey, email }
+    })
+  }
+
+  // Everything stored for a user, optionally only what changed after `since`
+  static async getProgress(userId: string, since?: number): Promise<ProgressSnapshot> {
+    const after = since ? new Date(since) : undefined
+
+    const [progress, sessions] = await Promise.all([
+      prisma.userProgress.findMany({
+        where: { userId, ...(after && { updatedAt: { gt: after } }) },
+        orderBy: { updatedAt: 'asc' }
+      }),
+      // By when the server stored it; a device can upload a session long after it started
+      prisma.studySession.findMany({
+        where: { userId, ...(after && { createdAt: { gt: after } }) },
+        orderBy: { createdAt: 'asc' }
+      })
+    ])
+
+    return {
+      cards: progress.map(toCardProgress),
+      sessions: sessions.map(toStudySession)
+    }
+  }
+
+  // Daily review load projected from the user's stored schedules
+  static async getReviewForecast(
+    userId: string,
+    options: Omit<ForecastOptions, 'unseenCards'>
+  ): Promise<ForecastDay[]> {
+    // Suspended cards are left out of the load but still count as seen; records that are
+    // still new (flagged or buried before being studied) have no schedule. Only published
+    // cards are offered for study, so drafts and retired cards are not counted as unseen
+    const [schedules, seenCards, totalCards] = await Promise.all([
+      prisma.userProgress.findMany({
+        where: { userId, suspended: false, state: { not: 'new' } },
+        select: { nextReview: true, interval: true, easeFactor: true }
+      }),
+      prisma.userProgress.count({ where: { userId, flashcard: { status: 'published' } } }),
+      prisma.flashcard.count({ where: { status: 'published' } })
+    ])
+
+    return buildReviewForecast(
+      schedules.map(schedule => ({ ...schedule, nextReview: schedule.nextReview.getTime() })),
+      { ...options, unseenCards: Math.max(0, totalCards - seenCards) }
+    )
+  }
+
+  // Merge a device's local progress into the server copy. For each card the
+  // most recent change wins (a review, suspend, flag or reset); the result
+  // holds what the device is missing.
+  static async syncProgress(userId: string, local: ProgressSnapshot): Promise<ProgressSyncResult> {
+    // A repeated card keeps its latest change; a repeated session is only inserted once
+    const localCards = new Map<string, CardProgress>()
+    for (const card of local.cards) {
+      const seen = localCards.get(card.cardId)
+      if (!seen || lastModified(card) > lastModified(seen)) localCards.set(card.cardId, card)
+    }
+    const localSessions = [...new Map(local.sessions.map(session => [session.id, session])).values()]
+
+    const [knownFlashcards, serverProgress, serverSessions] = await Promise.all([
+      prisma.flashcard.findMany({
+        where: { id: { in: [...localCards.keys()] } },
+        select: { id: true }
+      }),
+      prisma.userProgress.findMany({ where: { userId } }),
+      prisma.studySession.findMany({ where: { userId }, select: { clientId: true } })
+    ])
+
+    const knownIds = new Set(knownFlashcards.map(card => card.id))
+    const serverById = new Map(serverProgress.map(record => [record.flashcardId, record]))
+    const skipped: string[] = []
+
+    const cardWrites = [...localCards.values()]
+      .filter(card => {
+        if (!knownIds.has(card.cardId)) {
+          skipped.push(card.cardId)
+          return false
+        }
+        // Ties keep the server copy so repeated syncs are no-ops
+        const current = serverById.get(card.cardId)
+        return !current || lastModified(card) > current.updatedAt.getTime()
+      })
+      .map(card => prisma.userProgress.upsert({
+        where: { userId_flashcardId: { userId, flashcardId: card.cardId } },
+        update: fromCardProgress(card),
+        create: { userId, flashcardId: card.cardId, ...fromCardProgress(card) }
+      }))
+
+    // Sessions are immutable once recorded, so only unseen ones are inserted
+    const storedSessionIds = new Set(serverSessions.map(session => session.clientId))
+    const sessionWrites = localSessions
+      .filter(session => !storedSessionIds.has(session.id))
+      .map(session => prisma.studySession.create({
+        data: { userId, ...fromStudySession(session) }
+      }))
+
+    await prisma.$transaction([...cardWrites, ...sessionWrites])
+
+    const merged = await this.getProgress(userId)
+    const localSessionIds = new Set(localSessions.map(session => session.id))
+    const syncedAt = Date.now()
+
+    await prisma.user.update({
+      where: { id: userId },
+      data: { lastSyncAt: new Date(syncedAt) }
+    })
+
+    return {
+      cards: merged.cards.filter(card => {
+        const localCard = localCards.get(card.cardId)
+        return !localCard || lastModified(card) > lastModified(localCard)
+      }),
+      sessions: merged.sessions.filter(session => !localSessionIds.has(session.id)),
+      applied: cardWrites.length,
+      skipped,
+      syncedAt
+    }
+  }
+}
+
+export default ProgressSyncService
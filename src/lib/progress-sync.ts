@@ -0,0 +1,86 @@
+/**
+ * Progress Sync - pushes offline progress to the server and pulls what other devices recorded
+ * IndexedDB stays the source of truth on the device; the server merges by last change time
+ */
+
+import { getAllLocalFlashcards } from '@/lib/local-flashcards'
+import { getStoredLicense, LICENSE_KEY_HEADER } from '@/lib/license'
+import { lastModified, progressStorage } from '@/lib/progress-storage'
+import { recomputeChapterProgress } from '@/lib/session-recorder'
+import type { ProgressSyncResult } from '@/lib/progress-sync-service'
+
+const LAST_SYNC_KEY = 'chapterflash_last_sync'
+
+export interface SyncSummary {
+  pushed: number
+  pulledCards: number
+  pulledSessions: number
+  skipped: number
+  syncedAt: number
+}
+
+export function getLastSyncTime(): number | null {
+  if (typeof window === 'undefined') return null
+  const stored = localStorage.getItem(LAST_SYNC_KEY)
+  return stored ? parseInt(stored) : null
+}
+
+export async function syncProgress(): Promise<SyncSummary> {
+  const license = getStoredLicense()
+  if (!license) {
+    throw new Error('Activate a license to sync progress between devices')
+  }
+
+  const [cards, sessions] = await Promise.all([
+    progressStorage.getAllCardProgress(),
+    progressStorage.getSessions()
+  ])
+
+  const response = await fetch('/api/progress/sync', {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      [LICENSE_KEY_HEADER]: license.key
+    },
+    body: JSON.stringify({ cards, sessions, email: license.email })
+  })
+  const body = await response.json()
+  if (!response.ok || !body.success) {
+    throw new Error(body.error || 'Failed to sync progress')
+  }
+
+  const result = body.data as ProgressSyncResult
+  const localById = new Map(cards.map(card => [card.cardId, card]))
+  const touchedCardIds = new Set<string>()
+
+  // Re-check against the local copy in case a review landed while the request was in flight
+  for (const card of result.cards) {
+    const local = await progressStorage.getCardProgress(card.cardId)
+    if (local && lastModified(local) >= lastModified(card)) continue
+    await progressStorage.saveCardProgress({ ...localById.get(card.cardId), ...card })
+    touchedCardIds.add(card.cardId)
+  }
+
+  for (const session of result.sessions) {
+    await progressStorage.saveSession(session)
+  }
+
+  const chapters = new Set(
+    getAllLocalFlashcards()
+      .filter(card => touchedCardIds.has(card.id) && typeof card.chapterNumber === 'number')
+      .map(card => card.chapterNumber as number)
+  )
+  for (const chapterNumber of chapters) {
+    await recomputeChapterProgress(chapterNumber)
+  }
+
+  localStorage.setItem(LAST_SYNC_KEY, String(result.syncedAt))
+
+  return {
+    pushed: result.applied,
+    pulledCards: touchedCardIds.size,
+    pulledSessions: result.sessions.length,
+    skipped: result.skipped.length,
+    syncedAt: result.syncedAt
+  }
+}
@@ -0,0 +1,83 @@
+/**
+ * Review Forecast - projects daily review load from stored schedules
+ * Shared by the /api/progress/forecast route and the offline progress page
+ */
+
+export interface ScheduledReview {
+  nextReview: number
+  interval: number // days
+  easeFactor: number
+}
+
+export interface ForecastDay {
+  date: number // Local midnight
+  reviews: number // Reviews of cards already being studied
+  newCards: number // Cards introduced by the what-if simulation
+  newCardReviews: number // Follow-up reviews of those introduced cards
+}
+
+export interface ForecastOptions {
+  days: number
+  newCardsPerDay?: number // What-if: introduce this many unseen cards each day
+  unseenCards?: number // Caps the what-if at the cards actually left
+  graduatingInterval?: number
+  now?: Date
+}
+
+export const FORECAST_RANGES = [30, 90] as const
+
+const DAY_MS = 24 * 60 * 60 * 1000
+const PROJECTED_EASE = 2.5 // Cards without a stored ease, and new cards, assume the SM-2 default
+
+function startOfDay(date: Date): Date {
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate())
+}
+
+// Add the reviews a card will need from `day` onwards, assuming it is always answered
+// Good: `gap` days after the first review, then growing by `ease` each time. With
+// `capToEnd`, gaps are shortened so every review lands before the last day.
+export function projectReviews(reviews: number[], day: number, gap: number, ease: number, capToEnd = false): void {
+  let current = day
+  let next = gap
+
+  while (current < reviews.length) {
+    reviews[current]++
+    const step = Math.max(1, Math.round(next))
+    current += capToEnd ? Math.min(step, Math.max(1, reviews.length - current - 1)) : step
+    next *= ease
+  }
+}
+
+// Overdue cards all land on the first day
+export function buildReviewForecast(schedules: ScheduledReview[], options: ForecastOptions): ForecastDay[] {
+  const today = startOfDay(options.now ?? new Date())
+  const reviews = new Array<number>(options.days).fill(0)
+  const newCardReviews = new Array<number>(options.days).fill(0)
+  const newCards = new Array<number>(options.days).fill(0)
+
+  schedules.forEach(schedule => {
+    const dueDay = Math.max(0, Math.floor((schedule.nextReview - today.getTime()) / DAY_MS))
+    const ease = schedule.easeFactor || PROJECTED_EASE
+    projectReviews(reviews, dueDay, Math.max(1, schedule.interval) * ease, ease)
+  })
+
+  let remaining = options.unseenCards ?? Infinity
+  const perDay = options.newCardsPerDay ?? 0
+  const graduatingInterval = options.graduatingInterval ?? 4
+
+  for (let day = 0; day < options.days && perDay > 0 && remaining > 0; day++) {
+    newCards[day] = Math.min(perDay, remaining)
+    remaining -= newCards[day]
+    // A new card comes back the next day, then at the graduating interval
+    for (let i = 0; i < newCards[day]; i++) {
+      projectReviews(newCardReviews, day + 1, graduatingInterval, PROJECTED_EASE)
+    }
+  }
+
+  return reviews.map((count, day) => ({
+    date: new Date(today.getFullYear(), today.getMonth(), today.getDate() + day).getTime(),
+    reviews: count,
+    newCards: newCards[day],
+    newCardReviews: newCardReviews[day]
+  }))
+}
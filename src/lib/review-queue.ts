@@ -0,0 +1,290 @@
+/**
+ * Review Queue - connects the review scheduler to offline progress storage
+ * Schedules each rated card, builds "Due Today" sessions from IndexedDB and
+ * stores per-card actions such as suspend, bury and flags
+ */
+
+import { FlashcardData } from '@/components/flashcard/Flashcard'
+import { progressStorage, type CardProgress } from '@/lib/progress-storage'
+import { SpacedRepetitionEngine, type CardState, type ReviewRating } from '@/lib/spaced-repetition'
+import { DEFAULT_SCHEDULER_CONFIG } from '@/lib/scheduler-config'
+import { createScheduler, type Scheduler, type SchedulingCard } from '@/lib/scheduler'
+import { newCardsPerDayForExam } from '@/lib/exam-plan'
+import { orderCards } from '@/lib/card-ordering'
+import { DEFAULT_LEECH_POLICY, isLeechLapse, type LeechGroup, type LeechPolicy } from '@/lib/leeches'
+import { endOfBury, isBuried, type FlagColor } from '@/lib/card-actions'
+import type { UserSettings } from '@/lib/user-settings'
+
+export interface DueQueueOptions {
+  maxReviewCards: number
+  maxNewCards: number
+  reviewToNewRatio: number // e.g. 3 review cards per new card
+  examDate?: string // Ramps new cards so the whole deck is seen before this date
+}
+
+export interface DueQueue {
+  cards: FlashcardData[]
+  reviewCount: number
+  newCount: number
+}
+
+// Mirrors the UserSettings defaults (maxReviewsPerDay / newCardsPerDay)
+export const DEFAULT_DUE_QUEUE_OPTIONS: DueQueueOptions = {
+  maxReviewCards: 50,
+  maxNewCards: 10,
+  reviewToNewRatio: 3
+}
+
+export function dueQueueOptionsFromSettings(settings: UserSettings): DueQueueOptions {
+  return {
+    ...DEFAULT_DUE_QUEUE_OPTIONS,
+    maxReviewCards: settings.maxReviewsPerDay,
+    maxNewCards: settings.newCardsPerDay,
+    examDate: settings.examDate ?? undefined
+  }
+}
+
+function createCardProgress(cardId: string): CardProgress {
+  return {
+    cardId,
+    timesStudied: 0,
+    timesCorrect: 0,
+    timesIncorrect: 0,
+    lastStudied: 0,
+    nextReview: 0,
+    difficulty: 'medium',
+    masteryLevel: 0
+  }
+}
+
+// Records saved before learning steps existed have no state; anything studied is in review
+export function getCardState(progress: CardProgress | null): CardState {
+  if (!progress) return 'new'
+  return progress.state ?? (progress.timesStudied > 0 ? 'review' : 'new')
+}
+
+function toSchedulingCard(progress: CardProgress): SchedulingCard {
+  return {
+    id: progress.cardId,
+    easeFactor: progress.easeFactor ?? DEFAULT_SCHEDULER_CONFIG.initialEaseFactor,
+    interval: progress.interval ?? 0,
+    repetitions: progress.repetitions ?? 0,
+    nextReview: new Date(progress.nextReview),
+    lastSeen: new Date(progress.lastStudied),
+    state: getCardState(progress),
+    learningStep: progress.learningStep ?? 0,
+    stability: progress.stability,
+    memoryDifficulty: progress.memoryDifficulty
+  }
+}
+
+function endOfToday(): Date {
+  const end = new Date()
+  end.setHours(23, 59, 59, 999)
+  return end
+}
+
+// Mastery blends lifetime accuracy with how many successful reviews in a row the card has
+function calculateMasteryLevel(progress: CardProgress): number {
+  if (progress.timesStudied === 0) return 0
+  const accuracy = progress.timesCorrect / progress.timesStudied
+  const retention = Math.min(progress.repetitions ?? 0, 5) / 5
+  return Math.round((accuracy * 0.6 + retention * 0.4) * 100)
+}
+
+const RATING_DIFFICULTY: Record<ReviewRating, CardProgress['difficulty']> = {
+  again: 'hard',
+  hard: 'hard',
+  good: 'medium',
+  easy: 'easy'
+}
+
+export interface AnswerMarking {
+  isCorrect: boolean
+  graded: boolean // Marked against the card, by the chosen option or typed key terms, rather than self-assessed
+  answerShown: boolean // The learner saw the answer before rating; false in modes that withhold feedback
+}
+
+// The rating to schedule with, or null when the card should not be scheduled.
+// A wrong answer that was marked against the card is a lapse, however the learner rated it;
+// a rating given before seeing the answer is only a guess, so correctness alone decides
+export function schedulingRating(rating: ReviewRating, { isCorrect, graded, answerShown }: AnswerMarking): ReviewRating | null {
+  if (graded && !isCorrect) return 'again'
+  if (!answerShown) return graded ? 'good' : null
+  return rating
+}
+
+// Every write stamps the record so sync can tell it is newer than other devices' copies
+async function saveCardProgress(progress: CardProgress): Promise<CardProgress> {
+  const stamped: CardProgress = { ...progress, updatedAt: Date.now() }
+  await progressStorage.saveCardProgress(stamped)
+  return stamped
+}
+
+// Apply a rating to a card's schedule and counters and persist the result
+export async function recordCardReview(
+  cardId: string,
+  rating: ReviewRating,
+  isCorrect: boolean,
+  responseTime?: number,
+  scheduler: Scheduler = createScheduler('sm2'),
+  leechPolicy: LeechPolicy = DEFAULT_LEECH_POLICY
+): Promise<CardProgress> {
+  const progress = (await progressStorage.getCardProgress(cardId)) ?? createCardProgress(cardId)
+  const next = scheduler.schedule(toSchedulingCard(progress), rating, responseTime)
+
+  // Failing a learned card is a lapse; enough of them make it a leech
+  const lapsed = rating === 'again' && getCardState(progress) === 'review'
+  const lapses = (progress.lapses ?? 0) + (lapsed ? 1 : 0)
+  const becameLeech = lapsed && isLeechLapse(lapses, leechPolicy)
+
+  const updated: CardProgress = {
+    ...progress,
+    timesStudied: progress.timesStudied + 1,
+    timesCorrect: progress.timesCorrect + (isCorrect ? 1 : 0),
+    timesIncorrect: progress.timesIncorrect + (isCorrect ? 0 : 1),
+    difficulty: RATING_DIFFICULTY[rating],
+    easeFactor: next.easeFactor,
+    interval: next.interval,
+    repetitions: next.repetitions,
+    state: next.state,
+    learningStep: next.learningStep,
+    stability: next.stability,
+    memoryDifficulty: next.memoryDifficulty,
+    lapses,
+    leech: progress.leech || becameLeech,
+    suspended: progress.suspended || (becameLeech && leechPolicy.action === 'suspend'),
+    nextReview: next.nextReview.getTime(),
+    lastStudied: next.lastSeen.getTime()
+  }
+  updated.masteryLevel = calculateMasteryLevel(updated)
+
+  return saveCardProgress(updated)
+}
+
+// Build today's queue: overdue cards first, then a capped number of unseen cards
+export async function buildDueQueue(
+  cards: FlashcardData[],
+  options: DueQueueOptions = DEFAULT_DUE_QUEUE_OPTIONS
+): Promise<DueQueue> {
+  const cardsById = new Map(cards.map(card => [card.id, card]))
+  const allProgress = await progressStorage.getAllCardProgress()
+  const available = (progress: CardProgress) => !progress.suspended && !isBuried(progress)
+
+  // Flagging, burying or suspending an unstudied card saves a record that is still new;
+  // it has no schedule, so only studied cards can be due
+  const tracked = allProgress.filter(progress => cardsById.has(progress.cardId))
+  const studied = tracked.filter(progress => getCardState(progress) !== 'new')
+  const dueCards = SpacedRepetitionEngine.getCardsForReview(
+    studied.filter(available).map(toSchedulingCard),
+    options.maxReviewCards,
+    endOfToday()
+  )
+
+  // Suspended and buried cards still count as seen, so they are not offered as new cards either
+  const seenIds = tracked
+    .filter(progress => getCardState(progress) !== 'new' || !available(progress))
+    .map(progress => progress.cardId)
+  const { examDate } = options
+  const maxNewCards = examDate
+    ? newCardsPerDayForExam(cards.length - studied.length, examDate, options.maxNewCards)
+    : options.maxNewCards
+  // Before an exam, new cards rotate through the chapters so every chapter is covered in time
+  const unseenIds = SpacedRepetitionEngine.getNewCards(
+    (examDate ? orderCards(cards, 'interleaved') : cards).map(card => card.id),
+    seenIds,
+    maxNewCards
+  )
+
+  // The exam ramp has already sized today's new cards, so they are not rationed against reviews
+  const { reviewCards, newCardIds } = examDate
+    ? { reviewCards: dueCards, newCardIds: unseenIds }
+    : SpacedRepetitionEngine.generateStudySession(dueCards, unseenIds, options)
+
+  const queue = [
+    ...reviewCards.map(card => cardsById.get(card.id)),
+    ...newCardIds.map(id => cardsById.get(id))
+  ].filter((card): card is FlashcardData => card !== undefined)
+
+  return {
+    cards: queue,
+    reviewCount: reviewCards.length,
+    newCount: newCardIds.length
+  }
+}
+
+// Every tagged leech in the deck, grouped by chapter in chapter order
+export async function getLeechGroups(cards: FlashcardData[]): Promise<LeechGroup[]> {
+  const cardsById = new Map(cards.map(card => [card.id, card]))
+  const allProgress = await progressStorage.getAllCardProgress()
+  const groups = new Map<number | null, LeechGroup>()
+
+  allProgress
+    .filter(progress => progress.leech)
+    .forEach(progress => {
+      const card = cardsById.get(progress.cardId)
+      if (!card) return
+
+      const chapterNumber = card.chapterNumber ?? null
+      const group = groups.get(chapterNumber) ?? {
+        chapterNumber,
+        chapterTitle: card.chapterTitle ?? 'Other cards',
+        cards: []
+      }
+      group.cards.push({ card, progress })
+      groups.set(chapterNumber, group)
+    })
+
+  return [...groups.values()]
+    .map(group => ({ ...group, cards: group.cards.sort((a, b) => (b.progress.lapses ?? 0) - (a.progress.lapses ?? 0)) }))
+    .sort((a, b) => (a.chapterNumber ?? Infinity) - (b.chapterNumber ?? Infinity))
+}
+
+// Bring a leech back into reviews with its schedule and lapse history intact
+export async function reactivateCard(cardId: string): Promise<CardProgress | null> {
+  const progress = await progressStorage.getCardProgress(cardId)
+  if (!progress) return null
+
+  return saveCardProgress({ ...progress, leech: false, suspended: false })
+}
+
+// Start a leech over as a new card; lifetime answer counts are kept for statistics
+export async function resetCard(cardId: string): Promise<CardProgress | null> {
+  const progress = await progressStorage.getCardProgress(cardId)
+  if (!progress) return null
+
+  return saveCardProgress({
+    ...progress,
+    nextReview: 0,
+    masteryLevel: 0,
+    easeFactor: undefined,
+    interval: undefined,
+    repetitions: undefined,
+    state: 'new',
+    learningStep: 0,
+    stability: undefined,
+    memoryDifficulty: undefined,
+    lapses: 0,
+    leech: false,
+    suspended: false
+  })
+}
+
+async function updateCardProgress(cardId: string, changes: Partial<CardProgress>): Promise<CardProgress> {
+  const progress = (await progressStorage.getCardProgress(cardId)) ?? createCardProgress(cardId)
+  return saveCardProgress({ ...progress, ...changes })
+}
+
+// Keep a card out of every session until it is reactivated
+export async function suspendCard(cardId: string): Promise<CardProgress> {
+  return updateCardProgress(cardId, { suspended: true })
+}
+
+// Hide a card until tomorrow without touching its schedule
+export async function buryCard(cardId: string): Promise<CardProgress> {
+  return updateCardProgress(cardId, { buriedUntil: endOfBury() })
+}
+
+export async function setCardFlag(cardId: string, flagColor: FlagColor | null): Promise<CardProgress> {
+  return updateCardProgress(cardId, { flagColor: flagColor ?? undefined })
+}
@@ -0,0 +1,175 @@
+import { prisma } from '@/lib/prisma'
+import RevisionService, { maskEmail, type RevisionAction } from '@/lib/revision-service'
+import { canSignOff, requiredApprovals, type CardStatus, type ReviewDecision } from '@/lib/content-review'
+import type { Flashcard, Prisma } from '@prisma/client'
+
+export type ReviewAction = 'submit' | 'approve' | 'request_changes' | 'withdraw' | 'reopen'
+
+export interface ReviewEntry {
+  revision: number
+  reviewer: string | null // Masked email on the reviewer's license, when known
+  decision: ReviewDecision
+  comment: string | null
+  createdAt: number
+}
+
+export interface ReviewState {
+  status: CardStatus
+  revision: number | null // Revision under review while the card is in review
+  requiredApprovals: number
+  approvals: ReviewEntry[] // Sign-offs on the revision under review
+  reviews: ReviewEntry[] // Every decision on the card, newest first
+}
+
+export type ReviewResult = { state: ReviewState } | { error: string; status: number }
+
+// Revisions whose author counts as a contributor to the content under review
+const CONTRIBUTING_ACTIONS: RevisionAction[] = ['created', 'updated', 'reverted', 'submitted']
+
+// Status changes that need no reviewer: where each one may start and where it leads
+const TRANSITIONS: Record<'submit' | 'withdraw' | 'reopen', { from: CardStatus; to: CardStatus; action: RevisionAction }> = {
+  submit: { from: 'draft', to: 'in_review', action: 'submitted' },
+  withdraw: { from: 'in_review', to: 'draft', action: 'returned' },
+  reopen: { from: 'retired', to: 'draft', action: 'reopened' }
+}
+
+export function isReviewAction(value: unknown): value is ReviewAction {
+  return value === 'approve' || value === 'request_changes' || (typeof value === 'string' && value in TRANSITIONS)
+}
+
+function approvalsNeeded(card: Flashcard): number {
+  return requiredApprovals({ tags: JSON.parse(card.tags || '[]'), type: card.type })
+}
+
+export class ReviewService {
+
+  static async getReviewState(flashcardId: string, db: Prisma.TransactionClient = prisma): Promise<ReviewState | null> {
+    const card = await db.flashcard.findUnique({ where: { id: flashcardId } })
+    if (!card) return null
+
+    const [latest, reviews] = await Promise.all([
+      RevisionService.getLatestRevision(flashcardId, db),
+      db.flashcardReview.findMany({
+        where: { flashcardId },
+        include: { reviewer: { select: { email: true } } },
+        orderBy: { createdAt: 'desc' }
+      })
+    ])
+
+    const entries: ReviewEntry[] = reviews.map(review => ({
+      revision: review.revision,
+      reviewer: maskEmail(review.reviewer?.email),
+      decision: review.decision as ReviewDecision,
+      comment: review.comment,
+      createdAt: review.createdAt.getTime()
+    }))
+    // Edits return a card to draft, so while it is in review the latest revision is the submitted one
+    const revision = card.status === 'in_review' ? latest?.revision ?? null : null
+
+    return {
+      status: card.status as CardStatus,
+      revision,
+      requiredApprovals: approvalsNeeded(card),
+      approvals: entries.filter(entry => entry.revision === revision && entry.decision === 'approved'),
+      reviews: entries
+    }
+  }
+
+  // Everyone who changed or submitted the card since it was last published;
+  // none of them may sign off on it
+  private static async getContributors(flashcardId: string, db: Prisma.TransactionClient): Promise<Set<string>> {
+    const lastPublished = await db.flashcardRevision.findFirst({
+      where: { flashcardId, action: 'published' },
+      orderBy: { revision: 'desc' }
+    })
+    const revisions = await db.flashcardRevision.findMany({
+      where: {
+        flashcardId,
+        revision: { gt: lastPublished?.revision ?? 0 },
+        action: { in: CONTRIBUTING_ACTIONS }
+      },
+      select: { authorId: true }
+    })
+    return new Set(revisions.flatMap(revision => revision.authorId ? [revision.authorId] : []))
+  }
+
+  private static async setStatus(
+    card: Flashcard,
+    status: CardStatus,
+    action: RevisionAction,
+    userId: string,
+    db: Prisma.TransactionClient
+  ): Promise<void> {
+    const updated = await db.flashcard.update({ where: { id: card.id }, data: { status } })
+    await RevisionService.recordRevision(updated, action, userId, false, db)
+  }
+
+  // Move a card through draft -> in review -> published, or back to draft.
+  // Published needs sign-off from distinct reviewers who did not write the
+  // change: one for most cards, two for protocol and medication content.
+  // Only users with a reviewer or instructor role may sign off.
+  static async applyAction(
+    flashcardId: string,
+    action: ReviewAction,
+    userId: string,
+    comment: string | null = null
+  ): Promise<ReviewResult> {
+    return prisma.$transaction(async tx => {
+      const card = await tx.flashcard.findUnique({ where: { id: flashcardId } })
+      if (!card) return { error: `Flashcard not found: ${flashcardId}`, status: 404 }
+
+      await RevisionService.ensureBaseline(card, tx)
+
+      if (action === 'submit' || action === 'withdraw' || action === 'reopen') {
+        const transition = TRANSITIONS[action]
+        if (card.status !== transition.from) {
+          return { error: `Cannot ${action} a card that is ${card.status}`, status: 409 }
+        }
+        await this.setStatus(card, transition.to, transition.action, userId, tx)
+        return { state: (await this.getReviewState(flashcardId, tx))! }
+      }
+
+      if (card.status !== 'in_review') {
+        return { error: 'Only cards in review can be signed off', status: 409 }
+      }
+      const reviewer = await tx.user.findUnique({ where: { id: userId }, select: { role: true } })
+      if (!reviewer || !canSignOff(reviewer.role)) {
+        return { error: 'Only reviewers and instructors can sign off on cards', status: 403 }
+      }
+      if (action === 'request_changes' && !comment) {
+        return { error: 'Say what needs to change when requesting changes', status: 400 }
+      }
+      if ((await this.getContributors(flashcardId, tx)).has(userId)) {
+        return { error: 'Reviewers cannot sign off on changes they made or submitted', status: 403 }
+      }
+
+      const state = (await this.getReviewState(flashcardId, tx))!
+      const revision = state.revision!
+      const alreadyApproved = await tx.flashcardReview.count({
+        where: { flashcardId, revision, reviewerId: userId, decision: 'approved' }
+      })
+      if (alreadyApproved > 0) {
+        return { error: 'You have already approved this revision; it needs another reviewer', status: 409 }
+      }
+
+      await tx.flashcardReview.create({
+        data: {
+          flashcardId,
+          revision,
+          reviewerId: userId,
+          decision: action === 'approve' ? 'approved' : 'changes_requested',
+          comment
+        }
+      })
+
+      if (action === 'request_changes') {
+        await this.setStatus(card, 'draft', 'returned', userId, tx)
+      } else if (state.approvals.length + 1 >= state.requiredApprovals) {
+        await this.setStatus(card, 'published', 'published', userId, tx)
+      }
+      return { state: (await this.getReviewState(flashcardId, tx))! }
+    })
+  }
+}
+
+export default ReviewService
@@ -0,0 +1,182 @@
+import { prisma } from '@/lib/prisma'
+import type { Flashcard, FlashcardRevision, Prisma } from '@prisma/client'
+import type { CardStatus } from '@/lib/content-review'
+
+// The first four change content; the rest move the card through review
+export type RevisionAction =
+  | 'created'
+  | 'imported'
+  | 'updated'
+  | 'reverted'
+  | 'submitted'
+  | 'returned'
+  | 'published'
+  | 'retired'
+  | 'reopened'
+
+// Card fields captured in every revision, in the order the history viewer lists them
+export const REVISED_FIELDS = [
+  'question',
+  'answer',
+  'tags',
+  'difficulty',
+  'type',
+  'chapterNumber',
+  'categoryId',
+  'status'
+] as const
+
+export type RevisedField = typeof REVISED_FIELDS[number]
+
+export type CardSnapshot = Pick<Flashcard, RevisedField>
+
+export interface RevisionChange {
+  field: RevisedField
+  before: string
+  after: string
+}
+
+export interface RevisionEntry {
+  revision: number
+  action: RevisionAction
+  author: string | null // Masked email on the author's license, when known
+  createdAt: number
+  snapshot: Omit<CardSnapshot, 'tags' | 'status'> & { tags: string[]; status: CardStatus }
+  changes: RevisionChange[] // Against the previous revision; empty for the first
+  resetScheduling: boolean
+}
+
+// Enough of a license email to tell authors apart without handing out the address
+export function maskEmail(email: string | null | undefined): string | null {
+  if (!email) return null
+  const at = email.indexOf('@')
+  return at > 0 ? `${email[0]}•••${email.slice(at)}` : '•••'
+}
+
+function snapshotOf(card: CardSnapshot): CardSnapshot {
+  return {
+    question: card.question,
+    answer: card.answer,
+    tags: card.tags,
+    difficulty: card.difficulty,
+    type: card.type,
+    chapterNumber: card.chapterNumber,
+    categoryId: card.categoryId,
+    status: card.status
+  }
+}
+
+// Tags are compared as lists so reformatting the JSON is not a change
+function displayValue(field: RevisedField, card: CardSnapshot): string {
+  if (field === 'tags') return (JSON.parse(card.tags || '[]') as string[]).join(', ')
+  const value = card[field]
+  return value === null ? '' : String(value)
+}
+
+export function diffSnapshots(before: CardSnapshot | null, after: CardSnapshot): RevisionChange[] {
+  if (!before) return []
+  return REVISED_FIELDS
+    .map(field => ({ field, before: displayValue(field, before), after: displayValue(field, after) }))
+    .filter(change => change.before !== change.after)
+}
+
+export class RevisionService {
+
+  static async getLatestRevision(
+    flashcardId: string,
+    db: Prisma.TransactionClient = prisma
+  ): Promise<FlashcardRevision | null> {
+    return db.flashcardRevision.findFirst({
+      where: { flashcardId },
+      orderBy: { revision: 'desc' }
+    })
+  }
+
+  static async getRevision(flashcardId: string, revision: number): Promise<FlashcardRevision | null> {
+    return prisma.flashcardRevision.findUnique({
+      where: { flashcardId_revision: { flashcardId, revision } }
+    })
+  }
+
+  // Cards seeded before revisions existed get their current state recorded
+  // before the first edit, so the original text is never lost
+  static async ensureBaseline(card: Flashcard, db: Prisma.TransactionClient = prisma): Promise<void> {
+    if (await this.getLatestRevision(card.id, db)) return
+    await this.recordRevision(card, 'imported', null, false, db)
+  }
+
+  static async recordRevision(
+    card: Flashcard,
+    action: RevisionAction,
+    authorId: string | null,
+    resetScheduling: boolean,
+    db: Prisma.TransactionClient = prisma
+  ): Promise<FlashcardRevision> {
+    const latest = await this.getLatestRevision(card.id, db)
+    const snapshot = snapshotOf(card)
+
+    return db.flashcardRevision.create({
+      data: {
+        flashcardId: card.id,
+        revision: (latest?.revision ?? 0) + 1,
+        action,
+        authorId,
+        ...snapshot,
+        changedFields: JSON.stringify(diffSnapshots(latest, snapshot).map(change => change.field)),
+        resetScheduling
+      }
+    })
+  }
+
+  // Full history with the change each revision made, newest first
+  static async getHistory(flashcardId: string): Promise<RevisionEntry[]> {
+    const revisions = await prisma.flashcardRevision.findMany({
+      where: { flashcardId },
+      include: { author: { select: { email: true } } },
+      orderBy: { revision: 'asc' }
+    })
+
+    return revisions
+      .map((revision, index) => ({
+        revision: revision.revision,
+        action: revision.action as RevisionAction,
+        author: maskEmail(revision.author?.email),
+        createdAt: revision.createdAt.getTime(),
+        snapshot: {
+          ...snapshotOf(revision),
+          tags: JSON.parse(revision.tags || '[]') as string[],
+          status: revision.status as CardStatus
+        },
+        changes: diffSnapshots(index > 0 ? revisions[index - 1] : null, revision),
+        resetScheduling: revision.resetScheduling
+      }))
+      .reverse()
+  }
+
+  // Put every learner back to the start of the card's schedule. Review counts are
+  // kept for the record; updatedAt moves to now so devices take the reset on sync.
+  static async resetLearnerScheduling(flashcardId: string, db: Prisma.TransactionClient = prisma): Promise<number> {
+    const now = new Date()
+    const { count } = await db.userProgress.updateMany({
+      where: { flashcardId },
+      data: {
+        easeFactor: 2.5,
+        interval: 0,
+        repetitions: 0,
+        consecutiveCorrect: 0,
+        state: 'new',
+        learningStep: 0,
+        lapses: 0,
+        leech: false,
+        stability: null,
+        memoryDifficulty: null,
+        masteryLevel: 0,
+        nextReview: now,
+        updatedAt: now
+      }
+    })
+    return count
+  }
+}
+
+export default RevisionService
@@ -0,0 +1,257 @@
+import scenarioChainData from '@/data/scenario-chains.json'
+import { getAllLocalFlashcards } from '@/lib/local-flashcards'
+import { SessionStats } from '@/lib/study-session'
+import type { FlashcardData } from '@/components/flashcard/Flashcard'
+
+export type ScenarioPhase = 'dispatch' | 'scene-size-up' | 'primary-assessment' | 'treatment' | 'transport'
+
+export const SCENARIO_PHASES: { phase: ScenarioPhase; label: string }[] = [
+  { phase: 'dispatch', label: 'Dispatch' },
+  { phase: 'scene-size-up', label: 'Scene Size-up' },
+  { phase: 'primary-assessment', label: 'Primary Assessment' },
+  { phase: 'treatment', label: 'Treatment' },
+  { phase: 'transport', label: 'Transport' }
+]
+
+export interface ScenarioOption {
+  id: string
+  text: string
+  correct: boolean
+  feedback: string
+  nextStepId: string | null // null ends the encounter
+}
+
+export interface ScenarioStep {
+  id: string
+  phase: ScenarioPhase
+  prompt: string
+  options: ScenarioOption[]
+}
+
+export interface ScenarioChain {
+  id: string
+  title: string
+  summary: string
+  difficulty: string
+  chapterNumbers: number[]
+  tags: string[]
+  relatedCardIds: string[] // Scenario flashcards that drill the same encounter
+  startStepId: string
+  steps: ScenarioStep[]
+}
+
+export interface ScenarioChoice {
+  stepId: string
+  phase: ScenarioPhase
+  optionId: string
+  correct: boolean
+  timeSpent: number
+}
+
+export interface ScenarioChainState {
+  id: string
+  chain: ScenarioChain
+  currentStepId: string | null
+  choices: ScenarioChoice[]
+  startTime: number
+  stepStartTime: number
+  isComplete: boolean
+}
+
+// Steps a depth-first walk from the start reaches, plus the first loop found
+// on the way (a loop would let an encounter run forever)
+function walkSteps(chain: ScenarioChain): { reached: Set<string>; loop: string[] | null } {
+  const stepsById = new Map(chain.steps.map(step => [step.id, step]))
+  const reached = new Set<string>()
+  const path: string[] = []
+  let loop: string[] | null = null
+
+  const visit = (stepId: string) => {
+    const looped = path.indexOf(stepId)
+    if (looped >= 0) {
+      loop ??= [...path.slice(looped), stepId]
+      return
+    }
+    const step = stepsById.get(stepId)
+    if (!step || reached.has(stepId)) return
+
+    reached.add(stepId)
+    path.push(stepId)
+    step.options.forEach(option => {
+      if (option.nextStepId !== null) visit(option.nextStepId)
+    })
+    path.pop()
+  }
+
+  visit(chain.startStepId)
+  return { reached, loop }
+}
+
+// Returns a list of problems; an empty list means the chain can be played.
+// Pass the deck to also check that related cards are scenario cards in it.
+export function validateScenarioChain(chain: ScenarioChain, cards?: FlashcardData[]): string[] {
+  const errors: string[] = []
+  const stepIds = new Set(chain.steps.map(step => step.id))
+  const phases = new Set(SCENARIO_PHASES.map(p => p.phase))
+
+  if (!stepIds.has(chain.startStepId)) {
+    errors.push(`Unknown start step: ${chain.startStepId}`)
+  }
+
+  chain.steps.forEach(step => {
+    if (!phases.has(step.phase)) {
+      errors.push(`Step ${step.id} has invalid phase: ${step.phase}`)
+    }
+    if (!step.options.some(option => option.correct)) {
+      errors.push(`Step ${step.id} has no correct option`)
+    }
+    step.options.forEach(option => {
+      if (option.nextStepId !== null && !stepIds.has(option.nextStepId)) {
+        errors.push(`Step ${step.id} option ${option.id} points to unknown step: ${option.nextStepId}`)
+      }
+    })
+  })
+
+  if (stepIds.has(chain.startStepId)) {
+    const { reached, loop } = walkSteps(chain)
+    if (loop) {
+      errors.push(`Steps loop back on themselves: ${loop.join(' -> ')}`)
+    }
+    chain.steps
+      .filter(step => !reached.has(step.id))
+      .forEach(step => errors.push(`Step ${step.id} cannot be reached from the start step`))
+  }
+
+  if (cards) {
+    const cardTypes = new Map(cards.map(card => [card.id, card.type]))
+    chain.relatedCardIds.forEach(cardId => {
+      if (cardTypes.get(cardId) !== 'scenario') {
+        errors.push(`Related card ${cardId} is not a scenario card in the deck`)
+      }
+    })
+  }
+
+  return errors
+}
+
+export const getAllScenarioChains = (): ScenarioChain[] => {
+  const chains = (scenarioChainData.chains || []) as ScenarioChain[]
+  const cards = getAllLocalFlashcards()
+
+  return chains.filter(chain => {
+    const errors = validateScenarioChain(chain, cards)
+    if (errors.length > 0) {
+      console.warn(`Skipping invalid scenario chain ${chain.id}:`, errors)
+      return false
+    }
+    return true
+  })
+}
+
+// Pick a random chain, preferring ones that cover the requested chapters
+export const pickScenarioChain = (chapterIds?: number[]): ScenarioChain | null => {
+  const chains = getAllScenarioChains()
+  const matching = chapterIds?.length
+    ? chains.filter(chain => chain.chapterNumbers.some(chapter => chapterIds.includes(chapter)))
+    : []
+  const pool = matching.length > 0 ? matching : chains
+
+  if (pool.length === 0) return null
+  return pool[Math.floor(Math.random() * pool.length)]
+}
+
+// The scenario flashcards to practice after playing a chain
+export const getRelatedScenarioCards = (chain: ScenarioChain): FlashcardData[] => {
+  const cardsById = new Map(getAllLocalFlashcards().map(card => [card.id, card]))
+  return chain.relatedCardIds
+    .map(cardId => cardsById.get(cardId))
+    .filter((card): card is FlashcardData => card !== undefined)
+}
+
+export class ScenarioChainManager {
+  private state: ScenarioChainState | null = null
+
+  start(chain: ScenarioChain): ScenarioChainState {
+    this.state = {
+      id: `scenario_${Date.now()}`,
+      chain,
+      currentStepId: chain.startStepId,
+      choices: [],
+      startTime: Date.now(),
+      stepStartTime: Date.now(),
+      isComplete: false
+    }
+    return this.state
+  }
+
+  getState(): ScenarioChainState | null {
+    return this.state
+  }
+
+  getCurrentStep(): ScenarioStep | null {
+    if (!this.state || this.state.isComplete) return null
+    return this.state.chain.steps.find(step => step.id === this.state!.currentStepId) || null
+  }
+
+  // Record the learner's choice for the current step; the step stays current until advance()
+  choose(optionId: string): ScenarioOption | null {
+    const step = this.getCurrentStep()
+    if (!this.state || !step) return null
+    if (this.state.choices.some(choice => choice.stepId === step.id)) return null
+
+    const option = step.options.find(o => o.id === optionId)
+    if (!option) return null
+
+    this.state.choices.push({
+      stepId: step.id,
+      phase: step.phase,
+      optionId: option.id,
+      correct: option.correct,
+      timeSpent: Date.now() - this.state.stepStartTime
+    })
+    return option
+  }
+
+  // Follow the chosen option to the next step, ending the chain when it has none
+  advance(): ScenarioStep | null {
+    const step = this.getCurrentStep()
+    if (!this.state || !step) return null
+
+    const choice = this.state.choices.find(c => c.stepId === step.id)
+    if (!choice) return null
+
+    const option = step.options.find(o => o.id === choice.optionId)
+    this.state.currentStepId = option?.nextStepId ?? null
+    this.state.stepStartTime = Date.now()
+
+    if (!this.state.currentStepId) {
+      this.state.isComplete = true
+      return null
+    }
+    return this.getCurrentStep()
+  }
+
+  getStats(): SessionStats | null {
+    if (!this.state) return null
+
+    const { choices } = this.state
+    const correct = choices.filter(choice => choice.correct).length
+    const totalTime = choices.reduce((sum, choice) => sum + choice.timeSpent, 0)
+    const phaseLabel = (phase: ScenarioPhase) =>
+      SCENARIO_PHASES.find(p => p.phase === phase)?.label || phase
+
+    const missedPhases = new Set(choices.filter(c => !c.correct).map(c => c.phase))
+    const strongPhases = new Set(choices.filter(c => c.correct && !missedPhases.has(c.phase)).map(c => c.phase))
+
+    return {
+      totalCards: choices.length,
+      completedCards: choices.length,
+      averageTime: choices.length > 0 ? Math.round(totalTime / choices.length / 1000) : 0,
+      accuracy: choices.length > 0 ? Math.round((correct / choices.length) * 100) : 0,
+      weakAreas: [...missedPhases].map(phaseLabel),
+      strongAreas: [...strongPhases].map(phaseLabel),
+      sessionDuration: Math.round((Date.now() - this.state.startTime) / 1000),
+      mode: 'scenario-chain'
+    }
+  }
+}
@@ -0,0 +1,146 @@
+// Scheduler configuration for the spaced repetition engine
+// Presets cover common study situations; instructors can override any value
+
+export interface SchedulerConfig {
+  minEaseFactor: number;
+  maxEaseFactor: number;
+  initialEaseFactor: number;
+  initialInterval: number; // Days after the first successful review
+  graduatingInterval: number; // Days after the second successful review
+  maxInterval: number; // Upper bound on any interval, in days
+  hardFactor: number; // Hard answers divide the interval by this (1.25 is the original x0.8)
+  easyBonus: number; // Easy answers multiply the interval by this
+  fastResponseMs: number; // Answers quicker than this nudge ease up
+  slowResponseMs: number; // Answers slower than this nudge ease down
+  fastResponseBonus: number;
+  slowResponsePenalty: number;
+  learningSteps: number[]; // Minutes between reviews of a new card before it graduates
+  relearningSteps: number[]; // Minutes between reviews of a lapsed card before it returns to review
+}
+
+export type SchedulerPresetId = 'standard' | 'cram' | 'long-term';
+
+export interface SchedulerPreset {
+  id: SchedulerPresetId;
+  name: string;
+  description: string;
+  config: SchedulerConfig;
+}
+
+export const DEFAULT_SCHEDULER_CONFIG: SchedulerConfig = {
+  minEaseFactor: 1.3,
+  maxEaseFactor: 3.0,
+  initialEaseFactor: 2.5,
+  initialInterval: 1,
+  graduatingInterval: 4,
+  maxInterval: 365,
+  hardFactor: 1.25,
+  easyBonus: 1.3,
+  fastResponseMs: 3000,
+  slowResponseMs: 15000,
+  fastResponseBonus: 1.05,
+  slowResponsePenalty: 0.95,
+  learningSteps: [1, 10],
+  relearningSteps: [10]
+};
+
+export const SCHEDULER_PRESETS: Record<SchedulerPresetId, SchedulerPreset> = {
+  standard: {
+    id: 'standard',
+    name: 'Standard',
+    description: 'Balanced SM-2 intervals for steady coursework',
+    config: DEFAULT_SCHEDULER_CONFIG
+  },
+  cram: {
+    id: 'cram',
+    name: 'Exam Cram',
+    description: 'Short intervals capped at a week for a cohort with a test date coming up',
+    config: {
+      ...DEFAULT_SCHEDULER_CONFIG,
+      graduatingInterval: 2,
+      maxInterval: 7,
+      hardFactor: 1.5,
+      easyBonus: 1.1
+    }
+  },
+  'long-term': {
+    id: 'long-term',
+    name: 'Long-Term Retention',
+    description: 'Wider spacing for keeping certification knowledge fresh between recerts',
+    config: {
+      ...DEFAULT_SCHEDULER_CONFIG,
+      graduatingInterval: 6,
+      maxInterval: 730,
+      easyBonus: 1.5
+    }
+  }
+};
+
+export function isSchedulerPresetId(value: unknown): value is SchedulerPresetId {
+  return typeof value === 'string' && value in SCHEDULER_PRESETS;
+}
+
+// Returns a list of problems; an empty list means the config is usable
+export function validateSchedulerConfig(config: SchedulerConfig): string[] {
+  const errors: string[] = [];
+
+  for (const [key, value] of Object.entries(config)) {
+    if (Array.isArray(value)) {
+      if (!value.every(step => typeof step === 'number' && Number.isFinite(step) && step > 0)) {
+        errors.push(`${key} must only contain positive numbers of minutes`);
+      }
+    } else if (typeof value !== 'number' || !Number.isFinite(value) || value <= 0) {
+      errors.push(`${key} must be a positive number`);
+    }
+  }
+  if (errors.length > 0) return errors;
+
+  if (config.minEaseFactor < 1.1) {
+    errors.push('minEaseFactor must be at least 1.1');
+  }
+  if (config.maxEaseFactor < config.minEaseFactor) {
+    errors.push('maxEaseFactor must not be below minEaseFactor');
+  }
+  if (config.initialEaseFactor < config.minEaseFactor || config.initialEaseFactor > config.maxEaseFactor) {
+    errors.push('initialEaseFactor must be between minEaseFactor and maxEaseFactor');
+  }
+  if (config.graduatingInterval < config.initialInterval) {
+    errors.push('graduatingInterval must not be shorter than initialInterval');
+  }
+  if (config.maxInterval < config.graduatingInterval) {
+    errors.push('maxInterval must not be shorter than graduatingInterval');
+  }
+  if (config.hardFactor < 1) {
+    errors.push('hardFactor must be at least 1 so Hard never lengthens an interval');
+  }
+  if (config.easyBonus < 1) {
+    errors.push('easyBonus must be at least 1 so Easy never shortens an interval');
+  }
+  if (config.slowResponseMs <= config.fastResponseMs) {
+    errors.push('slowResponseMs must be greater than fastResponseMs');
+  }
+  for (const key of ['learningSteps', 'relearningSteps'] as const) {
+    if (config[key].some((step, index) => index > 0 && step < config[key][index - 1])) {
+      errors.push(`${key} must be in ascending order`);
+    }
+    if (config[key].some(step => step >= 24 * 60)) {
+      errors.push(`${key} must be shorter than a day`);
+    }
+  }
+
+  return errors;
+}
+
+// Build a config from a preset plus overrides, rejecting invalid combinations
+export function createSchedulerConfig(
+  preset: SchedulerPresetId = 'standard',
+  overrides: Partial<SchedulerConfig> = {}
+): SchedulerConfig {
+  const config = { ...SCHEDULER_PRESETS[preset].config, ...overrides };
+  const errors = validateSchedulerConfig(config);
+
+  if (errors.length > 0) {
+    throw new Error(`Invalid scheduler config: ${errors.join('; ')}`);
+  }
+  return config;
+}
@@ -0,0 +1,200 @@
+/**
+ * Scheduler - pluggable review scheduling algorithms
+ * SM-2 wraps SpacedRepetitionEngine; FSRS models stability and difficulty.
+ * Both run new and lapsed cards through the same learning steps first.
+ */
+
+import {
+  SpacedRepetitionEngine,
+  type CardState,
+  type ReviewRating,
+  type SpacedRepetitionCard
+} from '@/lib/spaced-repetition'
+import { DEFAULT_SCHEDULER_CONFIG, type SchedulerConfig } from '@/lib/scheduler-config'
+import {
+  DEFAULT_FSRS_PARAMETERS,
+  elapsedDaysSince,
+  initialFsrsState,
+  intervalForStability,
+  nextFsrsState,
+  seedFsrsState,
+  type FsrsParameters
+} from '@/lib/fsrs'
+import { capIntervalForExam } from '@/lib/exam-plan'
+
+export type SchedulerAlgorithm = 'sm2' | 'fsrs'
+
+// SM-2 state plus the FSRS memory state, which is absent until FSRS first schedules the card
+export interface SchedulingCard extends SpacedRepetitionCard {
+  state: CardState
+  learningStep: number // Index into the learning or relearning steps
+  stability?: number
+  memoryDifficulty?: number
+}
+
+export type ScheduleResult = Omit<SchedulingCard, 'id'>
+
+export interface Scheduler {
+  readonly algorithm: SchedulerAlgorithm
+  schedule(card: SchedulingCard, rating: ReviewRating, responseTime?: number, now?: Date): ScheduleResult
+}
+
+export const SCHEDULER_ALGORITHMS: Record<SchedulerAlgorithm, { name: string; description: string }> = {
+  sm2: {
+    name: 'SM-2',
+    description: 'Ease-factor intervals tuned by the preset and fields below'
+  },
+  fsrs: {
+    name: 'FSRS',
+    description: 'Memory model that schedules each card for 90% predicted recall'
+  }
+}
+
+export function isSchedulerAlgorithm(value: unknown): value is SchedulerAlgorithm {
+  return typeof value === 'string' && value in SCHEDULER_ALGORITHMS
+}
+
+function addDays(date: Date, days: number): Date {
+  const result = new Date(date)
+  result.setDate(result.getDate() + days)
+  return result
+}
+
+function addMinutes(date: Date, minutes: number): Date {
+  return new Date(date.getTime() + minutes * 60 * 1000)
+}
+
+// Again restarts the steps, Hard repeats the current one, Good advances and
+// Easy graduates straight away. Returns null once the card has graduated.
+function nextLearningStep(step: number, rating: ReviewRating, steps: number[]): number | null {
+  if (rating === 'easy') return null
+  const next = rating === 'again' ? 0 : rating === 'hard' ? step : step + 1
+  return next < steps.length ? next : null
+}
+
+// Route a rating through the learning steps; `review` runs the long-term algorithm
+function scheduleWithSteps(
+  card: SchedulingCard,
+  rating: ReviewRating,
+  now: Date,
+  config: SchedulerConfig,
+  review: () => ScheduleResult
+): ScheduleResult {
+  if (card.state === 'review') {
+    const result = review()
+    if (rating !== 'again' || config.relearningSteps.length === 0) return result
+
+    // Lapse: the algorithm records the failure and its new interval starts once relearning is done
+    return {
+      ...result,
+      state: 'relearning',
+      learningStep: 0,
+      nextReview: addMinutes(now, config.relearningSteps[0])
+    }
+  }
+
+  if (card.state === 'relearning') {
+    const step = nextLearningStep(card.learningStep, rating, config.relearningSteps)
+    if (step === null) {
+      return { ...card, state: 'review', learningStep: 0, nextReview: addDays(now, card.interval), lastSeen: now }
+    }
+    return { ...card, learningStep: step, nextReview: addMinutes(now, config.relearningSteps[step]), lastSeen: now }
+  }
+
+  const step = nextLearningStep(card.state === 'new' ? 0 : card.learningStep, rating, config.learningSteps)
+  if (step === null) return review()
+  return { ...card, state: 'learning', learningStep: step, nextReview: addMinutes(now, config.learningSteps[step]), lastSeen: now }
+}
+
+export class Sm2Scheduler implements Scheduler {
+  readonly algorithm = 'sm2'
+
+  constructor(private config: SchedulerConfig = DEFAULT_SCHEDULER_CONFIG) {}
+
+  schedule(card: SchedulingCard, rating: ReviewRating, responseTime?: number, now: Date = new Date()): ScheduleResult {
+    return scheduleWithSteps(card, rating, now, this.config, () => this.review(card, rating, responseTime, now))
+  }
+
+  private review(card: SchedulingCard, rating: ReviewRating, responseTime: number | undefined, now: Date): ScheduleResult {
+    const quality = SpacedRepetitionEngine.qualityFromRating(rating)
+    const next = SpacedRepetitionEngine.calculateNextReview(card, quality, responseTime, this.config)
+    const interval = next.interval ?? this.config.initialInterval
+
+    return {
+      easeFactor: next.easeFactor ?? card.easeFactor,
+      interval,
+      repetitions: next.repetitions ?? 0,
+      nextReview: addDays(now, interval),
+      lastSeen: now,
+      state: 'review',
+      learningStep: 0,
+      // FSRS state is left as-is so switching back resumes where it stopped
+      stability: card.stability,
+      memoryDifficulty: card.memoryDifficulty
+    }
+  }
+}
+
+export class FsrsScheduler implements Scheduler {
+  readonly algorithm = 'fsrs'
+
+  constructor(
+    private config: SchedulerConfig = DEFAULT_SCHEDULER_CONFIG,
+    private parameters: FsrsParameters = DEFAULT_FSRS_PARAMETERS
+  ) {}
+
+  schedule(card: SchedulingCard, rating: ReviewRating, _responseTime?: number, now: Date = new Date()): ScheduleResult {
+    return scheduleWithSteps(card, rating, now, this.config, () => this.review(card, rating, now))
+  }
+
+  private review(card: SchedulingCard, rating: ReviewRating, now: Date): ScheduleResult {
+    const previous = card.stability !== undefined && card.memoryDifficulty !== undefined
+      ? { stability: card.stability, difficulty: card.memoryDifficulty }
+      : seedFsrsState(card.easeFactor, card.interval, card.repetitions)
+
+    const state = previous
+      ? nextFsrsState(previous, rating, elapsedDaysSince(card.lastSeen, now), this.parameters)
+      : initialFsrsState(rating, this.parameters)
+
+    const interval = Math.min(
+      this.config.maxInterval,
+      Math.max(1, Math.round(intervalForStability(state.stability, this.parameters.requestRetention)))
+    )
+
+    return {
+      // Ease is SM-2 state; it is kept for switching back
+      easeFactor: card.easeFactor,
+      interval,
+      repetitions: rating === 'again' ? 0 : card.repetitions + 1,
+      nextReview: addDays(now, interval),
+      lastSeen: now,
+      state: 'review',
+      learningStep: 0,
+      stability: Math.round(state.stability * 100) / 100,
+      memoryDifficulty: Math.round(state.difficulty * 100) / 100
+    }
+  }
+}
+
+export function createScheduler(
+  algorithm: SchedulerAlgorithm,
+  config: SchedulerConfig = DEFAULT_SCHEDULER_CONFIG
+): Scheduler {
+  return algorithm === 'fsrs' ? new FsrsScheduler(config) : new Sm2Scheduler(config)
+}
+
+// Wrap a scheduler so review intervals never run past the day before the exam
+export function withExamDate(scheduler: Scheduler, examDate: string): Scheduler {
+  return {
+    algorithm: scheduler.algorithm,
+    schedule(card, rating, responseTime, now = new Date()) {
+      const result = scheduler.schedule(card, rating, responseTime, now)
+      if (result.state !== 'review') return result
+
+      const interval = capIntervalForExam(result.interval, examDate, now)
+      return interval === result.interval
+        ? result
+        : { ...result, interval, nextReview: addDays(now, interval) }
+    }
+  }
+}
@@ -1,6 +1,4 @@
-import { PrismaClient } from '@prisma/client'
-
-const prisma = new PrismaClient()
+import { prisma } from '@/lib/prisma'
 
 export interface FlashcardSeedData {
   id: string
@@ -14,6 +12,13 @@ export interface FlashcardSeedData {
   categoryId?: string
 }
 
+// A record validateFlashcardData left out, and why
+export interface FlashcardReject {
+  row: number // 1-based position in the records that were validated
+  id: string
+  reason: string
+}
+
 export async function seedFlashcards(flashcards: FlashcardSeedData[]) {
   console.log('🌱 Starting flashcard seeding...')
   
@@ -92,7 +97,7 @@ export async function seedFlashcards(flashcards: FlashcardSeedData[]) {
               chapter: {
                 connect: { number: cardData.chapterNumber }
               },
-              isActive: true
+              status: 'published'
             }
           })
           
@@ -166,8 +171,60 @@ export async function clearExistingData() {
   }
 }
 
-// Utility function to validate flashcard data
-export function validateFlashcardData(cards: any[]): FlashcardSeedData[] {
+export const FLASHCARD_DIFFICULTIES: FlashcardSeedData['difficulty'][] = ['Basic', 'Intermediate', 'Advanced']
+export const FLASHCARD_TYPES: FlashcardSeedData['type'][] = ['definition', 'recognition', 'application', 'scenario', 'assessment']
+
+// Validate and normalize a single flashcard record, throwing on the first problem
+export function validateFlashcard(input: unknown): FlashcardSeedData {
+  const card = (input ?? {}) as Record<string, unknown>
+
+  // Required fields validation
+  if (!card.id || typeof card.id !== 'string') {
+    throw new Error('Missing or invalid id')
+  }
+  
+  if (!card.question || typeof card.question !== 'string' || card.question.trim().length === 0) {
+    throw new Error('Missing or invalid question')
+  }
+  
+  if (!card.answer || typeof card.answer !== 'string' || card.answer.trim().length === 0) {
+    throw new Error('Missing or invalid answer')
+  }
+  
+  if (!FLASHCARD_DIFFICULTIES.includes(card.difficulty as FlashcardSeedData['difficulty'])) {
+    throw new Error(`Invalid difficulty: ${card.difficulty}`)
+  }
+  
+  if (!FLASHCARD_TYPES.includes(card.type as FlashcardSeedData['type'])) {
+    throw new Error(`Invalid type: ${card.type}`)
+  }
+  
+  if (!Array.isArray(card.tags) || card.tags.length === 0 || card.tags.some((tag: unknown) => typeof tag !== 'string')) {
+    throw new Error('Tags must be a non-empty array')
+  }
+  
+  if (!card.chapterNumber || typeof card.chapterNumber !== 'number' || card.chapterNumber < 1) {
+    throw new Error('Missing or invalid chapterNumber')
+  }
+  
+  if (!card.chapterTitle || typeof card.chapterTitle !== 'string' || card.chapterTitle.trim().length === 0) {
+    throw new Error('Missing or invalid chapterTitle')
+  }
+  
+  return {
+    id: card.id.trim(),
+    question: card.question.trim(),
+    answer: card.answer.trim(),
+    difficulty: card.difficulty as FlashcardSeedData['difficulty'],
+    type: card.type as FlashcardSeedData['type'],
+    tags: (card.tags as string[]).map(tag => tag.trim().toLowerCase()),
+    chapterNumber: card.chapterNumber,
+    chapterTitle: card.chapterTitle.trim()
+  }
+}
+
+// Utility function to validate flashcard data; invalid records are added to `rejects`
+export function validateFlashcardData(cards: any[], rejects: FlashcardReject[] = []): FlashcardSeedData[] {
   console.log(`🔍 Validating ${cards.length} flashcard records...`)
   
   const validCards: FlashcardSeedData[] = []
@@ -177,55 +234,14 @@ export function validateFlashcardData(cards: any[]): FlashcardSeedData[] {
     const card = cards[i]
     
     try {
-      // Required fields validation
-      if (!card.id || typeof card.id !== 'string') {
-        throw new Error('Missing or invalid id')
-      }
-      
-      if (!card.question || typeof card.question !== 'string' || card.question.trim().length === 0) {
-        throw new Error('Missing or invalid question')
-      }
-      
-      if (!card.answer || typeof card.answer !== 'string' || card.answer.trim().length === 0) {
-        throw new Error('Missing or invalid answer')
-      }
-      
-      if (!['Basic', 'Intermediate', 'Advanced'].includes(card.difficulty)) {
-        throw new Error(`Invalid difficulty: ${card.difficulty}`)
-      }
-      
-      if (!['definition', 'recognition', 'application', 'scenario', 'assessment'].includes(card.type)) {
-        throw new Error(`Invalid type: ${card.type}`)
-      }
-      
-      if (!Array.isArray(card.tags) || card.tags.length === 0) {
-        throw new Error('Tags must be a non-empty array')
-      }
-      
-      if (!card.chapterNumber || typeof card.chapterNumber !== 'number' || card.chapterNumber < 1) {
-        throw new Error('Missing or invalid chapterNumber')
-      }
-      
-      if (!card.chapterTitle || typeof card.chapterTitle !== 'string' || card.chapterTitle.trim().length === 0) {
-        throw new Error('Missing or invalid chapterTitle')
-      }
-      
-      // Create validated card
-      const validCard: FlashcardSeedData = {
-        id: card.id.trim(),
-        question: card.question.trim(),
-        answer: card.answer.trim(),
-        difficulty: card.difficulty,
-        type: card.type,
-        tags: card.tags.map((tag: string) => tag.trim().toLowerCase()),
-        chapterNumber: card.chapterNumber,
-        chapterTitle: card.chapterTitle.trim()
-      }
-      
-      validCards.push(validCard)
-      
+      validCards.push(validateFlashcard(card))
     } catch (error) {
       errors.push(`Card ${i + 1} (id: ${card?.id || 'unknown'}): ${error}`)
+      rejects.push({
+        row: i + 1,
+        id: typeof card?.id === 'string' ? card.id : '',
+        reason: error instanceof Error ? error.message : String(error)
+      })
     }
   }
   
@@ -0,0 +1,99 @@
+/**
+ * Session Recorder - writes finished study sessions into offline progress
+ * Saves the session summary and recomputes progress for every chapter touched
+ */
+
+import { getChapterFlashcards } from '@/lib/local-flashcards'
+import { progressStorage, type ChapterProgress, type StudySession } from '@/lib/progress-storage'
+import type { StudySessionState } from '@/lib/study-session'
+import type { ScenarioChainState } from '@/lib/scenario-chain'
+
+// Rebuild a chapter's rollup from the stored progress of each of its cards
+export async function recomputeChapterProgress(chapterNumber: number): Promise<ChapterProgress | null> {
+  const chapterCards = getChapterFlashcards(chapterNumber)
+  if (chapterCards.length === 0) return null
+
+  const cardProgress = await Promise.all(
+    chapterCards.map(card => progressStorage.getCardProgress(card.id))
+  )
+  const studied = cardProgress.filter(
+    (progress): progress is NonNullable<typeof progress> => progress !== null && progress.timesStudied > 0
+  )
+
+  const totalMastery = studied.reduce((sum, p) => sum + p.masteryLevel, 0)
+  const timesStudied = studied.reduce((sum, p) => sum + p.timesStudied, 0)
+  const timesCorrect = studied.reduce((sum, p) => sum + p.timesCorrect, 0)
+
+  const chapterProgress: ChapterProgress = {
+    chapterId: String(chapterNumber),
+    chapterName: chapterCards[0].chapterTitle || `Chapter ${chapterNumber}`,
+    cardsStudied: studied.length,
+    totalCards: chapterCards.length,
+    masteryPercentage: Math.round(totalMastery / chapterCards.length),
+    lastStudied: Math.max(0, ...studied.map(p => p.lastStudied)),
+    averageAccuracy: timesStudied > 0 ? Math.round((timesCorrect / timesStudied) * 100) : 0
+  }
+
+  await progressStorage.saveChapterProgress(chapterProgress)
+  return chapterProgress
+}
+
+// Persist a session once it ends; sessions without any answered cards are ignored
+export async function recordStudySession(session: StudySessionState): Promise<StudySession | null> {
+  const { responses } = session
+  if (responses.length === 0) return null
+
+  const answeredCards = responses
+    .map(response => session.cards.find(card => card.id === response.cardId))
+    .filter((card): card is NonNullable<typeof card> => card !== undefined)
+
+  const chapterNumbers = Array.from(new Set(
+    answeredCards
+      .map(card => card.chapterNumber)
+      .filter((chapter): chapter is number => typeof chapter === 'number')
+  ))
+  const correctAnswers = responses.filter(response => response.isCorrect).length
+
+  const record: StudySession = {
+    id: session.id,
+    timestamp: session.startTime,
+    duration: Math.round((Date.now() - session.startTime) / 1000),
+    cardsStudied: responses.length,
+    correctAnswers,
+    incorrectAnswers: responses.length - correctAnswers,
+    mode: session.config.mode,
+    chapters: chapterNumbers.map(String),
+    categories: Array.from(new Set(answeredCards.flatMap(card => card.tags)))
+  }
+
+  await progressStorage.saveSession(record)
+
+  for (const chapterNumber of chapterNumbers) {
+    await recomputeChapterProgress(chapterNumber)
+  }
+
+  return record
+}
+
+// Scenario chains have no flashcards, so only the session summary and streak are stored
+export async function recordScenarioChainSession(state: ScenarioChainState): Promise<StudySession | null> {
+  const { choices, chain } = state
+  if (choices.length === 0) return null
+
+  const correctAnswers = choices.filter(choice => choice.correct).length
+
+  const record: StudySession = {
+    id: state.id,
+    timestamp: state.startTime,
+    duration: Math.round((Date.now() - state.startTime) / 1000),
+    cardsStudied: choices.length,
+    correctAnswers,
+    incorrectAnswers: choices.length - correctAnswers,
+    mode: 'scenario-chain',
+    chapters: chain.chapterNumbers.map(String),
+    categories: chain.tags
+  }
+
+  await progressStorage.saveSession(record)
+  return record
+}
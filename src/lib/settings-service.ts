@@ -0,0 +1,39 @@
+import { prisma } from '@/lib/prisma'
+import { validateUserSettings, type UserSettings } from '@/lib/user-settings'
+import type { UserSettings as UserSettingsRecord } from '@prisma/client'
+
+// Exam dates are calendar days, stored as UTC midnight
+function toUserSettings(record: UserSettingsRecord): UserSettings {
+  return validateUserSettings({
+    ...record,
+    examDate: record.examDate?.toISOString().slice(0, 10) ?? null,
+    updatedAt: record.updatedAt.getTime()
+  })
+}
+
+export class SettingsService {
+
+  // Stored settings for a user, or null if they have never saved any
+  static async getSettings(userId: string): Promise<UserSettings | null> {
+    const record = await prisma.userSettings.findUnique({ where: { userId } })
+    return record ? toUserSettings(record) : null
+  }
+
+  static async saveSettings(userId: string, input: unknown): Promise<UserSettings> {
+    const { updatedAt, examDate, ...settings } = validateUserSettings(input)
+    const data = {
+      ...settings,
+      examDate: examDate ? new Date(`${examDate}T00:00:00.000Z`) : null,
+      updatedAt: new Date(updatedAt || Date.now())
+    }
+
+    const record = await prisma.userSettings.upsert({
+      where: { userId },
+      update: data,
+      create: { userId, ...data }
+    })
+    return toUserSettings(record)
+  }
+}
+
+export default SettingsService
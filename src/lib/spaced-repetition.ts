@@ -1,6 +1,8 @@
 // Spaced Repetition Algorithm (Modified SM-2)
 // Based on SuperMemo algorithm for optimal learning intervals
 
+import { DEFAULT_SCHEDULER_CONFIG, type SchedulerConfig } from '@/lib/scheduler-config';
+
 export interface SpacedRepetitionCard {
   id: string;
   easeFactor: number;
@@ -19,12 +21,34 @@ export enum AnswerQuality {
   VERY_EASY = 5     // Too easy
 }
 
+// Self-ratings offered after a card is revealed
+export type ReviewRating = 'again' | 'hard' | 'good' | 'easy';
+
+// Where a card is in its lifecycle: learning and relearning cards repeat on
+// short same-day steps before (re)entering day-based review intervals
+export type CardState = 'new' | 'learning' | 'review' | 'relearning';
+
+export const CARD_STATES: CardState[] = ['new', 'learning', 'review', 'relearning'];
+
+export function isCardState(value: unknown): value is CardState {
+  return CARD_STATES.includes(value as CardState);
+}
+
+const RATING_QUALITY: Record<ReviewRating, AnswerQuality> = {
+  again: AnswerQuality.INCORRECT,
+  hard: AnswerQuality.HARD,
+  good: AnswerQuality.GOOD,
+  easy: AnswerQuality.EASY
+};
+
 export class SpacedRepetitionEngine {
-  private static readonly MIN_EASE_FACTOR = 1.3;
-  private static readonly MAX_EASE_FACTOR = 3.0;
-  private static readonly INITIAL_EASE_FACTOR = 2.5;
-  private static readonly INITIAL_INTERVAL = 1;
-  private static readonly GRADUATING_INTERVAL = 4;
+
+  /**
+   * Map a learner's Again/Hard/Good/Easy rating onto an answer quality
+   */
+  static qualityFromRating(rating: ReviewRating): AnswerQuality {
+    return RATING_QUALITY[rating];
+  }
 
   /**
    * Calculate next review parameters based on answer quality
@@ -32,19 +56,20 @@ export class SpacedRepetitionEngine {
   static calculateNextReview(
     card: SpacedRepetitionCard,
     quality: AnswerQuality,
-    responseTime?: number
+    responseTime?: number,
+    config: SchedulerConfig = DEFAULT_SCHEDULER_CONFIG
   ): Partial<SpacedRepetitionCard> {
     let { easeFactor, interval, repetitions } = card;
     
     // Adjust ease factor based on quality
     if (quality >= AnswerQuality.GOOD) {
       easeFactor = Math.min(
-        this.MAX_EASE_FACTOR,
+        config.maxEaseFactor,
         easeFactor + (0.1 - (5 - quality) * (0.08 + (5 - quality) * 0.02))
       );
     } else {
       easeFactor = Math.max(
-        this.MIN_EASE_FACTOR,
+        config.minEaseFactor,
         easeFactor - 0.2
       );
     }
@@ -53,24 +78,26 @@ export class SpacedRepetitionEngine {
     if (quality < AnswerQuality.HARD) {
       // Incorrect answer - reset to beginning
       repetitions = 0;
-      interval = this.INITIAL_INTERVAL;
+      interval = config.initialInterval;
     } else {
       repetitions += 1;
       
       if (repetitions === 1) {
-        interval = this.INITIAL_INTERVAL;
+        interval = config.initialInterval;
       } else if (repetitions === 2) {
-        interval = this.GRADUATING_INTERVAL;
+        interval = config.graduatingInterval;
       } else {
         interval = Math.round(interval * easeFactor);
       }
 
       // Apply quality modifiers
       if (quality === AnswerQuality.HARD) {
-        interval = Math.max(1, Math.round(interval * 0.8));
-      } else if (quality === AnswerQuality.VERY_EASY) {
-        interval = Math.round(interval * 1.3);
+        interval = Math.max(1, Math.round(interval / config.hardFactor));
+      } else if (quality >= AnswerQuality.EASY) {
+        interval = Math.round(interval * config.easyBonus);
       }
+
+      interval = Math.min(interval, config.maxInterval);
     }
 
     // Calculate next review date
@@ -79,10 +106,10 @@ export class SpacedRepetitionEngine {
 
     // Factor in response time for ease adjustment
     if (responseTime) {
-      const timeModifier = this.calculateTimeModifier(responseTime);
+      const timeModifier = this.calculateTimeModifier(responseTime, config);
       easeFactor = Math.max(
-        this.MIN_EASE_FACTOR,
-        Math.min(this.MAX_EASE_FACTOR, easeFactor * timeModifier)
+        config.minEaseFactor,
+        Math.min(config.maxEaseFactor, easeFactor * timeModifier)
       );
     }
 
@@ -96,13 +123,14 @@ export class SpacedRepetitionEngine {
   }
 
   /**
-   * Get cards due for review
+   * Get cards due for review (due on or before `asOf`, defaulting to now)
    */
   static getCardsForReview(
     cards: SpacedRepetitionCard[],
-    maxCards: number = 50
+    maxCards: number = 50,
+    asOf: Date = new Date()
   ): SpacedRepetitionCard[] {
-    const now = new Date();
+    const now = asOf;
     
     return cards
       .filter(card => card.nextReview <= now)
@@ -149,12 +177,12 @@ export class SpacedRepetitionEngine {
   /**
    * Calculate response time modifier for ease factor
    */
-  private static calculateTimeModifier(responseTime: number): number {
-    // Fast response (< 3 seconds) slightly increases ease
-    if (responseTime < 3000) return 1.05;
+  private static calculateTimeModifier(responseTime: number, config: SchedulerConfig): number {
+    // Fast response (< 3 seconds by default) slightly increases ease
+    if (responseTime < config.fastResponseMs) return config.fastResponseBonus;
     
-    // Slow response (> 15 seconds) decreases ease
-    if (responseTime > 15000) return 0.95;
+    // Slow response (> 15 seconds by default) decreases ease
+    if (responseTime > config.slowResponseMs) return config.slowResponsePenalty;
     
     // Normal response time
     return 1.0;
@@ -177,11 +205,14 @@ export class SpacedRepetitionEngine {
     // Limit review cards
     const limitedReviewCards = reviewCards.slice(0, maxReviewCards);
     
-    // Calculate optimal new cards based on ratio
-    const optimalNewCards = Math.min(
-      maxNewCards,
-      Math.floor(limitedReviewCards.length / reviewToNewRatio)
-    );
+    // Calculate optimal new cards based on ratio. With nothing due the
+    // ratio would starve the session, so fall back to the full allowance.
+    const optimalNewCards = limitedReviewCards.length === 0
+      ? maxNewCards
+      : Math.min(
+          maxNewCards,
+          Math.max(1, Math.floor(limitedReviewCards.length / reviewToNewRatio))
+        );
     
     const limitedNewCardIds = newCardIds.slice(0, optimalNewCards);
 
@@ -1,8 +1,15 @@
 import { FlashcardData } from '@/components/flashcard/Flashcard'
+import { STUDY_MODES, CARD_TYPES, type QuestionFormat, type StudyMode } from '@/lib/types'
+import { toMultipleChoice } from '@/lib/distractors'
+import { DEFAULT_USER_SETTINGS, type UserSettings } from '@/lib/user-settings'
+import { filterByCardStatus, type CardStatusFilters } from '@/lib/card-actions'
+import { selectWeakAreaCards } from '@/lib/weak-areas'
+import { orderCards, type CardOrder } from '@/lib/card-ordering'
+import type { CardProgress } from '@/lib/progress-storage'
 
-export type StudyMode = 'quick-drill' | 'deep-session' | 'exam-mimic' | 'custom-drill' | 'random-250'
+export type { StudyMode }
 
-export interface StudySessionConfig {
+export interface StudySessionConfig extends CardStatusFilters {
   mode: StudyMode
   duration?: number // minutes
   cardCount?: number
@@ -10,8 +17,11 @@ export interface StudySessionConfig {
   chapterId?: number
   chapterIds?: number[]
   difficulty?: string[]
-  includeWeakAreas?: boolean
+  includeWeakAreas?: boolean // Over-sample weak cards, chapters and tags when trimming to cardCount
   shuffled?: boolean
+  order?: CardOrder // Practice order applied after shuffling and trimming
+  questionFormat?: QuestionFormat // Overrides the mode's default format
+  cardIds?: string[] // Only these cards, e.g. the starred set for Favorites
 }
 
 export interface StudySessionState {
@@ -22,8 +32,10 @@ export interface StudySessionState {
   startTime: number
   cardStartTime: number
   responses: StudyResponse[]
+  flaggedCardIds: string[]
   isComplete: boolean
   isPaused: boolean
+  timedOut: boolean
 }
 
 export interface StudyResponse {
@@ -33,24 +45,55 @@ export interface StudyResponse {
   confidence: number // 1-5 scale
   timestamp: number
   isCorrect?: boolean
+  selectedOption?: number // Index chosen on a multiple-choice card
+  typedAnswer?: string // Free-text response in typed-answer sessions
+  skipped?: boolean // Passed over without an answer; counts against accuracy but is never scheduled
+}
+
+export interface QuestionReviewItem {
+  card: FlashcardData
+  status: 'missed' | 'unanswered' | 'correct'
+  flagged: boolean
 }
 
 export interface SessionStats {
   totalCards: number
   completedCards: number
   averageTime: number
-  accuracy: number
+  accuracy: number // Percentage of responses marked correct
+  averageConfidence?: number // Self-rated confidence as a percentage, tracked separately
   weakAreas: string[]
   strongAreas: string[]
   sessionDuration: number
   mode: StudyMode
+  timedOut?: boolean
+  questionReview?: QuestionReviewItem[] // Missed, unanswered and flagged cards
 }
 
+// A card rated Again comes back this many cards later, or at the end of the session
+const REQUEUE_GAP = 3
+
 export class StudySessionManager {
   private session: StudySessionState | null = null
 
-  createSession(config: StudySessionConfig, cards: FlashcardData[]): StudySessionState {
-    let sessionCards = [...cards]
+  constructor(private settings: UserSettings = DEFAULT_USER_SETTINGS) {}
+
+  // `progress` supplies suspend, bury and flag state for the card status filters,
+  // and the accuracy history used for weak-area targeting
+  createSession(config: StudySessionConfig, cards: FlashcardData[], progress: CardProgress[] = []): StudySessionState {
+    const modeConfig = STUDY_MODES[config.mode]
+    const progressById = new Map(progress.map(cardProgress => [cardProgress.cardId, cardProgress]))
+    let sessionCards = filterByCardStatus(cards, progressById, config)
+
+    if (config.cardIds) {
+      const cardIds = new Set(config.cardIds)
+      sessionCards = sessionCards.filter(card => cardIds.has(card.id))
+    }
+
+    // Some modes leave multi-step scenarios out entirely
+    if (!modeConfig.includeScenarios) {
+      sessionCards = sessionCards.filter(card => card.type !== CARD_TYPES.SCENARIO)
+    }
 
     // Filter by chapterId if specified
     if (config.chapterId) {
@@ -81,30 +124,35 @@ export class StudySessionManager {
       )
     }
 
+    // Limit card count, falling back to the mode's default limit and then the
+    // daily goal. The due queue is already capped by the review/new card limits,
+    // and Favorites covers every starred card.
+    const cardLimit = config.cardCount
+      ?? modeConfig.cardLimit
+      ?? (config.mode === 'spaced-repetition' || config.mode === 'favorites' ? undefined : this.settings.dailyGoal)
+
+    // Pick which cards make the cut by weakness instead of at random
+    if (config.includeWeakAreas && cardLimit) {
+      sessionCards = selectWeakAreaCards(sessionCards, progressById, cardLimit)
+    }
+
     // Shuffle if requested (before slicing to ensure random selection from full pool)
     if (config.shuffled !== false) {
       sessionCards = this.shuffleArray(sessionCards)
     }
 
-    // Limit card count based on mode
-    if (config.cardCount) {
-      sessionCards = sessionCards.slice(0, config.cardCount)
-    } else {
-      // Default limits based on mode
-      switch (config.mode) {
-        case 'quick-drill':
-          sessionCards = sessionCards.slice(0, 10)
-          break
-        case 'deep-session':
-          sessionCards = sessionCards.slice(0, 25)
-          break
-        case 'exam-mimic':
-          sessionCards = sessionCards.slice(0, 50)
-          break
-        case 'random-250':
-          sessionCards = sessionCards.slice(0, 250)
-          break
-      }
+    if (cardLimit) {
+      sessionCards = sessionCards.slice(0, cardLimit)
+    }
+
+    // Order only the cards that made the cut, so a ramp still reaches its last stage
+    if (config.order) {
+      sessionCards = orderCards(sessionCards, config.order)
+    }
+
+    // Build options from the full deck so distractors can come from any chapter
+    if ((config.questionFormat ?? modeConfig.questionFormat) === 'multiple-choice') {
+      sessionCards = sessionCards.map(card => toMultipleChoice(card, cards))
     }
 
     const session: StudySessionState = {
@@ -115,14 +163,33 @@ export class StudySessionManager {
       startTime: Date.now(),
       cardStartTime: Date.now(),
       responses: [],
+      flaggedCardIds: [],
       isComplete: false,
-      isPaused: false
+      isPaused: false,
+      timedOut: false
     }
 
     this.session = session
     return session
   }
 
+  // Pick a checkpointed session back up; `elapsed` keeps durations and exam deadlines
+  // counting from where the session left off rather than from the original start
+  restoreSession(state: StudySessionState, elapsed: number): StudySessionState {
+    const now = Date.now()
+    this.session = {
+      ...state,
+      startTime: now - elapsed,
+      cardStartTime: now,
+      isPaused: false
+    }
+    return this.session
+  }
+
+  getElapsedTime(): number {
+    return this.session ? Date.now() - this.session.startTime : 0
+  }
+
   getCurrentCard(): FlashcardData | null {
     if (!this.session || this.session.isComplete) return null
     return this.session.cards[this.session.currentIndex] || null
@@ -159,14 +226,90 @@ export class StudySessionManager {
     return this.getCurrentCard()
   }
 
+  // Show the current card again later in this session while it is on a learning step.
+  // Modes that withhold answers have nothing to relearn from, so they never requeue.
+  requeueCurrentCard(): boolean {
+    const currentCard = this.getCurrentCard()
+    if (!this.session || !currentCard) return false
+    if (!STUDY_MODES[this.session.config.mode].showAnswersImmediately) return false
+
+    const position = Math.min(this.session.currentIndex + 1 + REQUEUE_GAP, this.session.cards.length)
+    // A copy, so the repeat is a distinct entry even when it directly follows the original
+    this.session.cards.splice(position, 0, { ...currentCard })
+    return true
+  }
+
+  // Drop the current card, and any requeued repeats, from the rest of the session
+  // without recording an answer. Returns the card now showing, if any.
+  removeCurrentCard(): FlashcardData | null {
+    const currentCard = this.getCurrentCard()
+    if (!this.session || !currentCard) return null
+
+    const { cards, currentIndex } = this.session
+    this.session.cards = [
+      ...cards.slice(0, currentIndex),
+      ...cards.slice(currentIndex).filter(card => card.id !== currentCard.id)
+    ]
+    this.session.cardStartTime = Date.now()
+
+    if (this.session.currentIndex >= this.session.cards.length) {
+      this.session.isComplete = true
+      return null
+    }
+    return this.getCurrentCard()
+  }
+
   previousCard(): FlashcardData | null {
     if (!this.session || this.session.currentIndex <= 0) return null
+    if (!STUDY_MODES[this.session.config.mode].allowRetries) return null
     
     this.session.currentIndex--
     this.session.cardStartTime = Date.now()
     return this.getCurrentCard()
   }
 
+  // Flag the current card so it is listed for review when the session ends
+  toggleFlag(): boolean {
+    const currentCard = this.getCurrentCard()
+    if (!this.session || !currentCard) return false
+
+    const flagged = this.session.flaggedCardIds
+    const index = flagged.indexOf(currentCard.id)
+    if (index >= 0) {
+      flagged.splice(index, 1)
+      return false
+    }
+    flagged.push(currentCard.id)
+    return true
+  }
+
+  isFlagged(cardId: string): boolean {
+    return this.session?.flaggedCardIds.includes(cardId) ?? false
+  }
+
+  // Milliseconds left for modes that enforce their time limit, otherwise null
+  getTimeRemaining(): number | null {
+    if (!this.session) return null
+    const { config } = this.session
+    if (!STUDY_MODES[config.mode].enforceTimeLimit || !config.duration) return null
+
+    const deadline = this.session.startTime + config.duration * 60 * 1000
+    return Math.max(0, deadline - Date.now())
+  }
+
+  // Auto-submit: close the session, leaving any remaining cards unanswered
+  expireSession(): void {
+    if (!this.session || this.session.isComplete) return
+    this.session.isComplete = true
+    this.session.timedOut = true
+  }
+
+  getQuestionFormat(): QuestionFormat {
+    if (!this.session) return 'recall'
+    const { config } = this.session
+    return config.questionFormat ?? STUDY_MODES[config.mode].questionFormat
+  }
+
   pauseSession(): void {
     if (this.session) {
       this.session.isPaused = true
@@ -201,29 +344,61 @@ export class StudySessionManager {
       ? responses.reduce((sum, r) => sum + r.timeSpent, 0) / responses.length 
       : 0
 
-    // Calculate accuracy based on confidence and difficulty ratings
+    // Accuracy counts correct answers; confidence is reported on its own
+    const correctCount = responses.filter(r => r.isCorrect).length
+    const accuracy = responses.length > 0 ? (correctCount / responses.length) * 100 : 0
     const totalConfidence = responses.reduce((sum, r) => sum + r.confidence, 0)
-    const accuracy = responses.length > 0 ? (totalConfidence / (responses.length * 5)) * 100 : 0
+    const averageConfidence = responses.length > 0 ? (totalConfidence / (responses.length * 5)) * 100 : 0
 
     // Identify weak and strong areas
     const areaPerformance = this.analyzeAreas(responses)
 
     return {
-      totalCards: this.session.cards.length,
+      totalCards: this.uniqueCards().length,
       completedCards: responses.length,
       averageTime: Math.round(averageTime / 1000), // Convert to seconds
       accuracy: Math.round(accuracy),
+      averageConfidence: Math.round(averageConfidence),
       weakAreas: areaPerformance.weak,
       strongAreas: areaPerformance.strong,
       sessionDuration: Math.round(totalTime / 1000), // Convert to seconds
-      mode: this.session.config.mode
+      mode: this.session.config.mode,
+      timedOut: this.session.timedOut,
+      questionReview: this.buildQuestionReview(responses)
     }
   }
 
+  private buildQuestionReview(responses: StudyResponse[]): QuestionReviewItem[] {
+    if (!this.session) return []
+    const { flaggedCardIds } = this.session
+
+    return this.uniqueCards()
+      .map(card => {
+        // The latest response wins if a card was answered more than once
+        const response = [...responses].reverse().find(r => r.cardId === card.id)
+        const status: QuestionReviewItem['status'] = !response || response.skipped
+          ? 'unanswered'
+          : response.isCorrect ? 'correct' : 'missed'
+        return { card, status, flagged: flaggedCardIds.includes(card.id) }
+      })
+      .filter(item => item.status !== 'correct' || item.flagged)
+  }
+
+  // Session cards without the repeats added by requeueCurrentCard
+  private uniqueCards(): FlashcardData[] {
+    if (!this.session) return []
+    const seen = new Set<string>()
+    return this.session.cards.filter(card => {
+      if (seen.has(card.id)) return false
+      seen.add(card.id)
+      return true
+    })
+  }
+
   private analyzeAreas(responses: StudyResponse[]): { weak: string[]; strong: string[] } {
     if (!this.session) return { weak: [], strong: [] }
 
-    const areaScores: Record<string, { total: number; count: number }> = {}
+    const areaScores: Record<string, { correct: number; count: number }> = {}
 
     responses.forEach(response => {
       const card = this.session!.cards.find(c => c.id === response.cardId)
@@ -231,20 +406,20 @@ export class StudySessionManager {
 
       card.tags.forEach(tag => {
         if (!areaScores[tag]) {
-          areaScores[tag] = { total: 0, count: 0 }
+          areaScores[tag] = { correct: 0, count: 0 }
         }
-        areaScores[tag].total += response.confidence
+        areaScores[tag].correct += response.isCorrect ? 1 : 0
         areaScores[tag].count += 1
       })
     })
 
     const areas = Object.entries(areaScores).map(([tag, scores]) => ({
       tag,
-      average: scores.total / scores.count
+      correctRate: scores.correct / scores.count
     }))
 
-    const weak = areas.filter(area => area.average < 3).map(area => area.tag)
-    const strong = areas.filter(area => area.average >= 4).map(area => area.tag)
+    const weak = areas.filter(area => area.correctRate < 0.6).map(area => area.tag)
+    const strong = areas.filter(area => area.correctRate >= 0.8).map(area => area.tag)
 
     return { weak, strong }
   }
@@ -274,44 +449,15 @@ export class StudySessionManager {
 // Singleton instance for app-wide session management
 export const studySessionManager = new StudySessionManager()
 
-// Helper functions for different study modes
+// Default session config for a mode, derived from the STUDY_MODES registry
 export function getDefaultConfig(mode: StudyMode): StudySessionConfig {
-  const configs: Record<StudyMode, StudySessionConfig> = {
-    'quick-drill': {
-      mode: 'quick-drill',
-      duration: 10,
-      cardCount: 10,
-      shuffled: true,
-      includeWeakAreas: false
-    },
-    'deep-session': {
-      mode: 'deep-session',
-      duration: 30,
-      cardCount: 25,
-      shuffled: true,
-      includeWeakAreas: true
-    },
-    'exam-mimic': {
-      mode: 'exam-mimic',
-      duration: 60,
-      cardCount: 50,
-      shuffled: true,
-      includeWeakAreas: false
-    },
-    'custom-drill': {
-      mode: 'custom-drill',
-      duration: 0, // Unlimited
-      shuffled: true,
-      includeWeakAreas: false
-    },
-    'random-250': {
-      mode: 'random-250',
-      duration: 120,
-      cardCount: 250,
-      shuffled: true,
-      includeWeakAreas: false
-    }
+  const modeConfig = STUDY_MODES[mode]
+
+  return {
+    mode,
+    duration: modeConfig.timeLimit ?? 0, // 0 = unlimited
+    cardCount: modeConfig.cardLimit,
+    shuffled: modeConfig.shuffleCards,
+    includeWeakAreas: modeConfig.includeWeakAreas
   }
-
-  return configs[mode]
-}
\ No newline at end of file
+}
@@ -44,7 +44,29 @@ export function parseFlashcardTags(tagsJson: string): FlashcardTag[] {
 }
 
 // Study session mode types
-export type StudyMode = 'quick_drill' | 'deep_session' | 'exam_mimic' | 'spaced_repetition' | 'scenario_chain';
+export type StudyMode =
+  | 'custom-drill'
+  | 'spaced-repetition'
+  | 'quick-drill'
+  | 'deep-session'
+  | 'exam-mimic'
+  | 'random-250'
+  | 'scenario-chain'
+  | 'favorites';
+
+// Free-recall flip cards, options generated from related cards' answers,
+// or a typed response marked against the answer's key terms
+export type QuestionFormat = 'recall' | 'multiple-choice' | 'typed';
+
+export interface StudyModeDisplay {
+  title: string;
+  durationLabel: string;
+  cardCountLabel: string;
+  features: string[];
+  color: string; // gradient stops, e.g. "from-cyan-400 to-blue-500"
+  textColor: string;
+  bgColor: string;
+}
 
 export interface StudyModeConfig {
   mode: StudyMode;
@@ -53,65 +75,215 @@ export interface StudyModeConfig {
   timeLimit?: number; // minutes
   cardLimit?: number;
   showAnswersImmediately: boolean;
-  allowRetries: boolean;
+  allowRetries: boolean; // Going back to re-answer earlier cards
+  enforceTimeLimit: boolean; // Count down and auto-submit at timeLimit
+  questionFormat: QuestionFormat;
   shuffleCards: boolean;
   includeScenarios: boolean;
+  includeWeakAreas: boolean;
+  display: StudyModeDisplay;
 }
 
+// Single registry for every study mode, in the order the mode cards are shown
 export const STUDY_MODES: Record<StudyMode, StudyModeConfig> = {
-  quick_drill: {
-    mode: 'quick_drill',
+  'custom-drill': {
+    mode: 'custom-drill',
+    name: 'Custom Drill',
+    description: 'Select specific chapters to focus your study session',
+    showAnswersImmediately: true,
+    allowRetries: true,
+    enforceTimeLimit: false,
+    questionFormat: 'recall',
+    shuffleCards: true,
+    includeScenarios: true,
+    includeWeakAreas: false,
+    display: {
+      title: 'Custom Drill',
+      durationLabel: 'Flexible',
+      cardCountLabel: 'Custom',
+      features: ['Target specific chapters', 'Focus on weak areas', 'Unlimited duration'],
+      color: 'from-emerald-400 to-teal-500',
+      textColor: 'text-emerald-400',
+      bgColor: 'bg-emerald-400/10 border-emerald-400/30'
+    }
+  },
+  'spaced-repetition': {
+    mode: 'spaced-repetition',
+    name: 'Due Today',
+    description: 'Spaced repetition review of cards scheduled for today plus a few new ones',
+    showAnswersImmediately: true,
+    allowRetries: true,
+    enforceTimeLimit: false,
+    questionFormat: 'recall',
+    shuffleCards: false, // Keep the queue's overdue-first order
+    includeScenarios: true,
+    includeWeakAreas: false,
+    display: {
+      title: 'Due Today',
+      durationLabel: 'Daily review',
+      cardCountLabel: 'Scheduled',
+      features: ['Overdue cards first', 'Capped new cards', 'Adapts to your ratings'],
+      color: 'from-amber-400 to-orange-500',
+      textColor: 'text-amber-400',
+      bgColor: 'bg-amber-400/10 border-amber-400/30'
+    }
+  },
+  'quick-drill': {
+    mode: 'quick-drill',
     name: 'Quick Drill',
-    description: 'Fast-paced review of 10-20 cards with immediate feedback',
+    description: 'Fast-paced review session for quick retention checks',
     timeLimit: 10,
-    cardLimit: 20,
+    cardLimit: 10,
     showAnswersImmediately: true,
     allowRetries: false,
+    enforceTimeLimit: false,
+    questionFormat: 'recall',
     shuffleCards: true,
-    includeScenarios: false
+    includeScenarios: false,
+    includeWeakAreas: false,
+    display: {
+      title: 'Quick Drill',
+      durationLabel: '5-10 minutes',
+      cardCountLabel: '10 cards',
+      features: ['Rapid fire questions', 'Perfect for breaks', 'Basic concepts focus'],
+      color: 'from-cyan-400 to-blue-500',
+      textColor: 'text-cyan-400',
+      bgColor: 'bg-cyan-400/10 border-cyan-400/30'
+    }
   },
-  deep_session: {
-    mode: 'deep_session',
+  'deep-session': {
+    mode: 'deep-session',
     name: 'Deep Session',
-    description: 'Comprehensive study session with detailed explanations',
-    cardLimit: 50,
-    showAnswersImmediately: false,
+    description: 'Comprehensive study session with spaced repetition',
+    timeLimit: 30,
+    cardLimit: 25,
+    showAnswersImmediately: true,
     allowRetries: true,
+    enforceTimeLimit: false,
+    questionFormat: 'recall',
     shuffleCards: true,
-    includeScenarios: true
+    includeScenarios: true,
+    includeWeakAreas: true,
+    display: {
+      title: 'Deep Session',
+      durationLabel: '20-30 minutes',
+      cardCountLabel: '25 cards',
+      features: ['Spaced repetition', 'Weak area targeting', 'All difficulty levels'],
+      color: 'from-blue-400 to-purple-500',
+      textColor: 'text-blue-400',
+      bgColor: 'bg-blue-400/10 border-blue-400/30'
+    }
   },
-  exam_mimic: {
-    mode: 'exam_mimic',
+  'exam-mimic': {
+    mode: 'exam-mimic',
     name: 'Exam Mimic',
-    description: 'Practice test conditions with timed questions',
-    timeLimit: 90,
-    cardLimit: 100,
+    description: 'Full practice test simulation with realistic timing',
+    timeLimit: 60,
+    cardLimit: 50,
     showAnswersImmediately: false,
     allowRetries: false,
+    enforceTimeLimit: true,
+    questionFormat: 'multiple-choice',
     shuffleCards: true,
-    includeScenarios: true
+    includeScenarios: true,
+    includeWeakAreas: false,
+    display: {
+      title: 'Exam Mimic',
+      durationLabel: '45-60 minutes',
+      cardCountLabel: '50 cards',
+      features: ['Exam conditions', 'Comprehensive coverage', 'Performance analytics'],
+      color: 'from-purple-400 to-pink-500',
+      textColor: 'text-purple-400',
+      bgColor: 'bg-purple-400/10 border-purple-400/30'
+    }
   },
-  spaced_repetition: {
-    mode: 'spaced_repetition',
-    name: 'Spaced Repetition',
-    description: 'AI-powered review based on your learning progress',
+  'random-250': {
+    mode: 'random-250',
+    name: 'Test Mode',
+    description: 'Intensive 250-card session drawn randomly from all chapters',
+    timeLimit: 120,
+    cardLimit: 250,
     showAnswersImmediately: true,
     allowRetries: true,
-    shuffleCards: false,
-    includeScenarios: true
+    enforceTimeLimit: false,
+    questionFormat: 'recall',
+    shuffleCards: true,
+    includeScenarios: true,
+    includeWeakAreas: false,
+    display: {
+      title: 'Test Mode',
+      durationLabel: '120+ minutes',
+      cardCountLabel: '250 cards',
+      features: ['Massive review', 'Random selection', 'Endurance training'],
+      color: 'from-red-400 to-orange-500',
+      textColor: 'text-red-400',
+      bgColor: 'bg-red-400/10 border-red-400/30'
+    }
   },
-  scenario_chain: {
-    mode: 'scenario_chain',
+  'scenario-chain': {
+    mode: 'scenario-chain',
     name: 'Scenario Chain',
-    description: 'Sequential clinical scenarios building on each other',
-    cardLimit: 15,
-    showAnswersImmediately: false,
-    allowRetries: false,
+    description: 'Sequential clinical scenarios building on each other, from dispatch to transport',
+    showAnswersImmediately: true, // Feedback after every decision
+    allowRetries: false, // Later steps depend on earlier choices
+    enforceTimeLimit: false,
+    questionFormat: 'recall',
     shuffleCards: false,
-    includeScenarios: true
+    includeScenarios: true,
+    includeWeakAreas: false,
+    display: {
+      title: 'Scenario Chain',
+      durationLabel: '5-10 minutes',
+      cardCountLabel: '5 phases',
+      features: ['Dispatch to transport', 'Branching decisions', 'Clinical feedback each step'],
+      color: 'from-rose-400 to-red-500',
+      textColor: 'text-rose-400',
+      bgColor: 'bg-rose-400/10 border-rose-400/30'
+    }
+  },
+  favorites: {
+    mode: 'favorites',
+    name: 'Favorites',
+    description: 'Review the cards you have starred, from any chapter',
+    showAnswersImmediately: true,
+    allowRetries: true,
+    enforceTimeLimit: false,
+    questionFormat: 'recall',
+    shuffleCards: true,
+    includeScenarios: true,
+    includeWeakAreas: false,
+    display: {
+      title: 'Favorites',
+      durationLabel: 'Flexible',
+      cardCountLabel: 'Starred',
+      features: ['Your starred cards', 'Mixed chapters', 'Star cards while studying'],
+      color: 'from-yellow-300 to-amber-500',
+      textColor: 'text-yellow-300',
+      bgColor: 'bg-yellow-300/10 border-yellow-300/30'
+    }
   }
 };
 
+// Mode ids written by earlier versions (IndexedDB history, Prisma sessions)
+const LEGACY_STUDY_MODES: Record<string, StudyMode> = {
+  'deep-study': 'deep-session',
+  quick_drill: 'quick-drill',
+  deep_session: 'deep-session',
+  exam_mimic: 'exam-mimic',
+  spaced_repetition: 'spaced-repetition',
+  scenario_chain: 'scenario-chain'
+};
+
+export function isStudyMode(value: string): value is StudyMode {
+  return Object.prototype.hasOwnProperty.call(STUDY_MODES, value);
+}
+
+// Resolve a stored mode id to the current registry, or null if unknown
+export function normalizeStudyMode(value: string): StudyMode | null {
+  if (isStudyMode(value)) return value;
+  return LEGACY_STUDY_MODES[value] ?? null;
+}
+
 // Difficulty levels for EMT-B
 export const DIFFICULTY_LEVELS = {
   BASIC: 'Basic',
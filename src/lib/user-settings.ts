@@ -0,0 +1,185 @@
+/**
+ * User Settings - study preferences mirrored from the Prisma UserSettings model
+ * Stored on the device first and copied to the server when a license is active
+ */
+
+import { getStoredLicense, LICENSE_KEY_HEADER } from '@/lib/license'
+import {
+  SCHEDULER_PRESETS,
+  createSchedulerConfig,
+  isSchedulerPresetId,
+  type SchedulerConfig,
+  type SchedulerPresetId
+} from '@/lib/scheduler-config'
+import {
+  createScheduler,
+  isSchedulerAlgorithm,
+  withExamDate,
+  type Scheduler,
+  type SchedulerAlgorithm
+} from '@/lib/scheduler'
+import { parseExamDate } from '@/lib/exam-plan'
+import { isLeechAction, type LeechAction } from '@/lib/leeches'
+
+export interface UserSettings {
+  dailyGoal: number // Cards per day
+  newCardsPerDay: number
+  maxReviewsPerDay: number
+  graduatingInterval: number // Days
+  easyBonus: number // Interval multiplier for Easy answers
+  hardFactor: number // Interval divisor for Hard answers
+  schedulerPreset: SchedulerPresetId // Base for the remaining scheduler parameters
+  schedulerAlgorithm: SchedulerAlgorithm
+  examDate: string | null // YYYY-MM-DD; reviews are planned to finish before it
+  leechThreshold: number // Lapses before a card counts as a leech
+  leechAction: LeechAction
+  showDifficulty: boolean
+  showProgress: boolean
+  animationEnabled: boolean
+  updatedAt: number
+}
+
+// Same defaults as prisma/schema.prisma
+export const DEFAULT_USER_SETTINGS: UserSettings = {
+  dailyGoal: 20,
+  newCardsPerDay: 10,
+  maxReviewsPerDay: 50,
+  graduatingInterval: 4,
+  easyBonus: 1.3,
+  hardFactor: 1.25,
+  schedulerPreset: 'standard',
+  schedulerAlgorithm: 'sm2',
+  examDate: null,
+  leechThreshold: 8,
+  leechAction: 'suspend',
+  showDifficulty: true,
+  showProgress: true,
+  animationEnabled: true,
+  updatedAt: 0
+}
+
+type NumericSetting = {
+  [K in keyof UserSettings]: UserSettings[K] extends number ? K : never
+}[keyof UserSettings]
+
+export const SETTING_LIMITS: Record<Exclude<NumericSetting, 'updatedAt'>, { min: number; max: number; step: number }> = {
+  dailyGoal: { min: 5, max: 500, step: 5 },
+  newCardsPerDay: { min: 0, max: 100, step: 1 },
+  maxReviewsPerDay: { min: 10, max: 1000, step: 10 },
+  graduatingInterval: { min: 1, max: 30, step: 1 },
+  easyBonus: { min: 1, max: 3, step: 0.05 },
+  hardFactor: { min: 1, max: 3, step: 0.05 },
+  leechThreshold: { min: 2, max: 30, step: 1 }
+}
+
+export const SETTINGS_STORAGE_KEY = 'chapterflash_settings'
+export const SETTINGS_CHANGE_EVENT = 'chapterflash-settings-change'
+
+// Fill gaps with defaults and clamp numbers into range; accepts untrusted input
+export function validateUserSettings(input: unknown): UserSettings {
+  const source = (input && typeof input === 'object' ? input : {}) as Partial<Record<keyof UserSettings, unknown>>
+  const settings: UserSettings = { ...DEFAULT_USER_SETTINGS }
+
+  for (const key of Object.keys(SETTING_LIMITS) as (keyof typeof SETTING_LIMITS)[]) {
+    const value = Number(source[key])
+    if (Number.isFinite(value)) {
+      const { min, max } = SETTING_LIMITS[key]
+      settings[key] = Math.min(max, Math.max(min, value))
+    }
+  }
+
+  for (const key of ['showDifficulty', 'showProgress', 'animationEnabled'] as const) {
+    if (typeof source[key] === 'boolean') settings[key] = source[key]
+  }
+
+  if (isSchedulerPresetId(source.schedulerPreset)) settings.schedulerPreset = source.schedulerPreset
+  if (isSchedulerAlgorithm(source.schedulerAlgorithm)) settings.schedulerAlgorithm = source.schedulerAlgorithm
+  if (typeof source.examDate === 'string' && parseExamDate(source.examDate)) settings.examDate = source.examDate
+  if (isLeechAction(source.leechAction)) settings.leechAction = source.leechAction
+
+  const updatedAt = Number(source.updatedAt)
+  settings.updatedAt = Number.isFinite(updatedAt) ? updatedAt : 0
+
+  return settings
+}
+
+export function loadUserSettings(): UserSettings {
+  if (typeof window === 'undefined') return DEFAULT_USER_SETTINGS
+
+  try {
+    const stored = localStorage.getItem(SETTINGS_STORAGE_KEY)
+    return stored ? validateUserSettings(JSON.parse(stored)) : DEFAULT_USER_SETTINGS
+  } catch (error) {
+    console.error('Failed to read settings:', error)
+    return DEFAULT_USER_SETTINGS
+  }
+}
+
+// Scheduler parameters for these settings: the chosen preset with the learner's own overrides
+export function schedulerConfigFromSettings(settings: UserSettings): SchedulerConfig {
+  const preset = SCHEDULER_PRESETS[settings.schedulerPreset].config
+  return createSchedulerConfig(settings.schedulerPreset, {
+    graduatingInterval: Math.min(settings.graduatingInterval, preset.maxInterval),
+    easyBonus: settings.easyBonus,
+    hardFactor: settings.hardFactor
+  })
+}
+
+export function schedulerFromSettings(settings: UserSettings): Scheduler {
+  const scheduler = createScheduler(settings.schedulerAlgorithm, schedulerConfigFromSettings(settings))
+  return settings.examDate ? withExamDate(scheduler, settings.examDate) : scheduler
+}
+
+function storeLocally(settings: UserSettings): void {
+  localStorage.setItem(SETTINGS_STORAGE_KEY, JSON.stringify(settings))
+  window.dispatchEvent(new Event(SETTINGS_CHANGE_EVENT))
+}
+
+// Save on the device, then copy to the server; returns whether the server copy was updated
+export async function saveUserSettings(changes: Partial<UserSettings>): Promise<boolean> {
+  const settings = validateUserSettings({ ...loadUserSettings(), ...changes, updatedAt: Date.now() })
+  storeLocally(settings)
+
+  const license = getStoredLicense()
+  if (!license) return false
+
+  try {
+    const response = await fetch('/api/settings', {
+      method: 'PUT',
+      headers: {
+        'Content-Type': 'application/json',
+        [LICENSE_KEY_HEADER]: license.key
+      },
+      body: JSON.stringify(settings)
+    })
+    return response.ok
+  } catch (error) {
+    console.error('Failed to save settings to server:', error)
+    return false
+  }
+}
+
+// Adopt the server copy when another device saved more recently
+export async function pullUserSettings(): Promise<UserSettings> {
+  const local = loadUserSettings()
+  const license = getStoredLicense()
+  if (!license) return local
+
+  try {
+    const response = await fetch('/api/settings', {
+      headers: { [LICENSE_KEY_HEADER]: license.key }
+    })
+    const body = await response.json()
+    if (!response.ok || !body.success || !body.data) return local
+
+    const remote = validateUserSettings(body.data)
+    if (remote.updatedAt > local.updatedAt) {
+      storeLocally(remote)
+      return remote
+    }
+  } catch (error) {
+    console.error('Failed to load settings from server:', error)
+  }
+
+  return local
+}
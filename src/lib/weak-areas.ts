@@ -0,0 +1,114 @@
+/**
+ * Weak Areas - weights card selection towards the learner's weakest material
+ * Scores each card with SpacedRepetitionEngine.calculateWeaknessScore, then
+ * averages those scores per chapter and per tag so unseen cards in a weak
+ * chapter are pulled in too
+ */
+
+import type { FlashcardData } from '@/components/flashcard/Flashcard'
+import type { CardProgress } from '@/lib/progress-storage'
+import { SpacedRepetitionEngine } from '@/lib/spaced-repetition'
+
+export interface AreaWeakness {
+  chapters: Map<number, number>
+  tags: Map<string, number>
+}
+
+// Share of a session drawn evenly from the pool, so strong areas still get reviewed
+export const STRONG_AREA_SHARE = 0.25
+
+// Weakness from which a card or area counts as weak when filtering
+export const WEAK_AREA_THRESHOLD = 0.4
+
+// Every card keeps some chance of being picked; weakness adds to it
+const BASE_WEIGHT = 0.2
+const CARD_WEIGHT = 1
+const AREA_WEIGHT = 0.6
+
+// 0 for unseen cards, up to 1 for cards that are always missed
+export function cardWeakness(progress: CardProgress | undefined): number {
+  if (!progress) return 0
+  return SpacedRepetitionEngine.calculateWeaknessScore(
+    progress.timesStudied,
+    progress.timesCorrect,
+    progress.repetitions ?? 0, // SM-2 repetitions reset on a miss, so they track the current streak
+    null // Response times are not kept per card
+  )
+}
+
+// Average weakness of the studied cards in each chapter and tag
+export function getAreaWeakness(cards: FlashcardData[], progressById: Map<string, CardProgress>): AreaWeakness {
+  const chapterTotals = new Map<number, { sum: number; count: number }>()
+  const tagTotals = new Map<string, { sum: number; count: number }>()
+
+  const add = <K>(totals: Map<K, { sum: number; count: number }>, key: K, score: number) => {
+    const total = totals.get(key) ?? { sum: 0, count: 0 }
+    total.sum += score
+    total.count++
+    totals.set(key, total)
+  }
+
+  cards.forEach(card => {
+    const progress = progressById.get(card.id)
+    if (!progress || progress.timesStudied === 0) return
+
+    const score = cardWeakness(progress)
+    if (card.chapterNumber !== undefined) add(chapterTotals, card.chapterNumber, score)
+    card.tags.forEach(tag => add(tagTotals, tag.toLowerCase(), score))
+  })
+
+  const averages = <K>(totals: Map<K, { sum: number; count: number }>) =>
+    new Map([...totals].map(([key, { sum, count }]) => [key, sum / count]))
+
+  return { chapters: averages(chapterTotals), tags: averages(tagTotals) }
+}
+
+// Weakness of the card's weakest chapter or tag
+function areaScore(card: FlashcardData, areas: AreaWeakness): number {
+  const chapterScore = card.chapterNumber !== undefined ? areas.chapters.get(card.chapterNumber) ?? 0 : 0
+  const tagScore = Math.max(0, ...card.tags.map(tag => areas.tags.get(tag.toLowerCase()) ?? 0))
+  return Math.max(chapterScore, tagScore)
+}
+
+export function selectionWeight(card: FlashcardData, progress: CardProgress | undefined, areas: AreaWeakness): number {
+  return BASE_WEIGHT + cardWeakness(progress) * CARD_WEIGHT + areaScore(card, areas) * AREA_WEIGHT
+}
+
+// Every card that is weak itself or sits in a weak chapter or tag
+export function filterWeakAreaCards(cards: FlashcardData[], progressById: Map<string, CardProgress>): FlashcardData[] {
+  const areas = getAreaWeakness(cards, progressById)
+  return cards.filter(card =>
+    Math.max(cardWeakness(progressById.get(card.id)), areaScore(card, areas)) >= WEAK_AREA_THRESHOLD
+  )
+}
+
+// Pick `count` cards: most by weakness-weighted sampling, the rest uniformly.
+// Uses weighted sampling without replacement (key = random^(1 / weight)).
+export function selectWeakAreaCards(
+  cards: FlashcardData[],
+  progressById: Map<string, CardProgress>,
+  count: number
+): FlashcardData[] {
+  if (cards.length <= count) return cards
+
+  const areas = getAreaWeakness(cards, progressById)
+  const weakCount = Math.round(count * (1 - STRONG_AREA_SHARE))
+
+  const ranked = cards
+    .map(card => ({
+      card,
+      key: Math.pow(Math.random(), 1 / selectionWeight(card, progressById.get(card.id), areas))
+    }))
+    .sort((a, b) => b.key - a.key)
+    .map(({ card }) => card)
+
+  const weakCards = ranked.slice(0, weakCount)
+  const coverageCards = ranked
+    .slice(weakCount)
+    .map(card => ({ card, key: Math.random() }))
+    .sort((a, b) => a.key - b.key)
+    .slice(0, count - weakCount)
+    .map(({ card }) => card)
+
+  return [...weakCards, ...coverageCards]
+}
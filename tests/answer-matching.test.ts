@@ -0,0 +1,62 @@
+import { describe, test } from 'node:test'
+import assert from 'node:assert/strict'
+import { extractKeyTerms, gradeTypedAnswer } from '@/lib/answer-matching'
+
+describe('extractKeyTerms', () => {
+  test('keeps content words and numbers, once each', () => {
+    assert.deepEqual(extractKeyTerms('Check the airway, then the airway again'), ['check', 'airway', 'again'])
+    assert.deepEqual(extractKeyTerms('Give 15 L/min by NRB'), ['give', '15', 'l/min', 'nrb'])
+  })
+
+  test('folds compatibility characters and dashes', () => {
+    assert.deepEqual(extractKeyTerms('SpO₂ 94–99%'), ['spo2', '94-99%'])
+  })
+})
+
+describe('gradeTypedAnswer', () => {
+  const answer = 'Airway, breathing and circulation'
+
+  test('an exact answer scores full marks', () => {
+    assert.deepEqual(gradeTypedAnswer(answer, answer), {
+      isCorrect: true,
+      score: 1,
+      matchedTerms: ['airway', 'breathing', 'circulation'],
+      missingTerms: []
+    })
+  })
+
+  test('tolerates typos and plurals but not in short words', () => {
+    assert.equal(gradeTypedAnswer('airwey breathng circulations', answer).score, 1)
+    assert.deepEqual(gradeTypedAnswer('cpx', 'CPR'), { isCorrect: false, score: 0, matchedTerms: [], missingTerms: ['cpr'] })
+  })
+
+  test('passes with most key terms and reports what is missing', () => {
+    const result = gradeTypedAnswer('airway and breathing', answer)
+    assert.equal(result.isCorrect, true)
+    assert.deepEqual(result.missingTerms, ['circulation'])
+
+    assert.equal(gradeTypedAnswer('airway', answer).isCorrect, false)
+  })
+
+  test('numbers must match exactly', () => {
+    const ratio = '30 compressions to 2 breaths'
+    const result = gradeTypedAnswer('15 compressions, 2 breaths', ratio)
+
+    assert.deepEqual(result.missingTerms, ['30'])
+    assert.equal(result.score, 0.75)
+    assert.equal(gradeTypedAnswer('15 compressions', ratio).isCorrect, false)
+  })
+
+  test('long answers need at most six key terms', () => {
+    const long = 'Scene safety, standard precautions, mechanism injury, number patients, additional resources, spinal stabilization, general impression'
+    const result = gradeTypedAnswer('scene safety standard precautions mechanism injury', long)
+
+    assert.equal(result.matchedTerms.length, 6)
+    assert.equal(result.isCorrect, true)
+  })
+
+  test('answers without key terms fall back to an exact comparison', () => {
+    assert.equal(gradeTypedAnswer(' b ', 'B').isCorrect, true)
+    assert.equal(gradeTypedAnswer('c', 'B').isCorrect, false)
+  })
+})
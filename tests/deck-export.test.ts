@@ -0,0 +1,126 @@
+// The importer shares the app's Prisma client; no test here touches the database
+import './helpers/fake-prisma'
+import { describe, test } from 'node:test'
+import assert from 'node:assert/strict'
+import {
+  EMPTY_EXPORT_FILTER,
+  exportFilename,
+  filterExportCards,
+  toAnkiPackage,
+  toCSV,
+  toPrintSheets,
+  type ExportProgress
+} from '@/lib/deck-export'
+import { transformFromAnki, transformFromCSV } from '@/data/flashcard-transformer'
+import { readAnkiPackage } from '@/data/anki-package'
+import type { FlashcardData } from '@/components/flashcard/Flashcard'
+
+function card(id: string, overrides: Partial<FlashcardData> = {}): FlashcardData {
+  return {
+    id,
+    question: `Question ${id}`,
+    answer: `Answer ${id}`,
+    difficulty: 'Basic',
+    type: 'definition',
+    tags: ['airway'],
+    chapterNumber: 8,
+    chapterTitle: 'Airway Management',
+    ...overrides
+  }
+}
+
+const noProgress: ExportProgress = { starredIds: new Set(), progressById: new Map() }
+
+describe('CSV export', () => {
+  test('reads back through the deck importer', () => {
+    const exported = card('ch8-001', {
+      question: 'Oxygen, "by NRB", runs at?',
+      answer: '10-15 L/min\nuntil the bag stays inflated',
+      difficulty: 'Intermediate',
+      type: 'application',
+      tags: ['airway', 'oxygen']
+    })
+    const csv = toCSV([exported])
+    assert.ok(csv.startsWith('\uFEFFid,question,answer'))
+    assert.ok(csv.endsWith('\r\n'))
+
+    const [imported] = transformFromCSV(csv)
+    assert.equal(imported.id, exported.id)
+    assert.equal(imported.question, exported.question)
+    assert.equal(imported.answer, exported.answer)
+    assert.equal(imported.difficulty, 'Intermediate')
+    assert.equal(imported.type, 'application')
+    assert.equal(imported.chapterNumber, 8)
+    assert.equal(imported.chapterTitle, 'Airway Management')
+    assert.ok(exported.tags.every(tag => imported.tags.includes(tag)))
+  })
+})
+
+describe('Anki export', () => {
+  test('reads back through the .apkg importer with text intact', async () => {
+    const cards = [
+      card('ch8-001', { question: 'Is SpO2 < 94% & falling a concern?', answer: 'Yes\nGive oxygen' }),
+      card('ch8-002', { question: 'Best airway adjunct?', options: ['OPA', 'NPA'], correctIndex: 0, answer: 'OPA', tags: ['airway adjuncts'] })
+    ]
+    const apkg = await toAnkiPackage(cards, 'ChapterFlashEMT')
+
+    const notes = await readAnkiPackage(apkg)
+    assert.deepEqual(notes.map(note => note.tags), [['airway'], ['airway-adjuncts']])
+
+    const imported = await transformFromAnki(apkg)
+    assert.equal(imported[0].question, cards[0].question)
+    assert.equal(imported[0].answer, cards[0].answer)
+    assert.equal(imported[1].question, 'Best airway adjunct?\nA. OPA\nB. NPA')
+  })
+
+  test('writes decks that span many pages and fields that overflow a page', async () => {
+    const longAnswer = 'Ventilate every 6 seconds. '.repeat(400)
+    const cards = Array.from({ length: 600 }, (_, i) => card(`card-${i}`, i === 300 ? { answer: longAnswer } : {}))
+
+    const notes = await readAnkiPackage(await toAnkiPackage(cards, 'Large deck'))
+    assert.equal(notes.length, 600)
+    assert.equal(notes[599].fields[0], 'Question card-599')
+    assert.equal(notes[300].fields[1], longAnswer)
+  })
+})
+
+describe('export filters', () => {
+  const deck = [
+    card('a', { chapterNumber: 8, tags: ['Airway'], difficulty: 'Basic' }),
+    card('b', { chapterNumber: 9, tags: ['cardiac'], difficulty: 'Advanced' }),
+    card('c', { chapterNumber: 9, tags: ['airway', 'pediatric'], difficulty: 'Intermediate' })
+  ]
+  const ids = (cards: FlashcardData[]) => cards.map(({ id }) => id)
+
+  test('combines chapter, tag, difficulty and starred filters', () => {
+    assert.deepEqual(ids(filterExportCards(deck, EMPTY_EXPORT_FILTER, noProgress)), ['a', 'b', 'c'])
+    assert.deepEqual(ids(filterExportCards(deck, { ...EMPTY_EXPORT_FILTER, chapters: [9] }, noProgress)), ['b', 'c'])
+    assert.deepEqual(ids(filterExportCards(deck, { ...EMPTY_EXPORT_FILTER, tags: ['AIRWAY'] }, noProgress)), ['a', 'c'])
+    assert.deepEqual(
+      ids(filterExportCards(deck, { ...EMPTY_EXPORT_FILTER, chapters: [9], difficulties: ['Advanced'] }, noProgress)),
+      ['b']
+    )
+
+    const starred = { ...noProgress, starredIds: new Set(['c']) }
+    assert.deepEqual(ids(filterExportCards(deck, { ...EMPTY_EXPORT_FILTER, starredOnly: true }, starred)), ['c'])
+  })
+})
+
+describe('print layout', () => {
+  test('mirrors each row of backs and pads the last sheet', () => {
+    const cards = Array.from({ length: 10 }, (_, i) => card(String(i)))
+    const sheets = toPrintSheets(cards)
+    const ids = (side: (FlashcardData | null)[]) => side.map(slot => slot?.id ?? null)
+
+    assert.equal(sheets.length, 2)
+    assert.deepEqual(ids(sheets[0].fronts), ['0', '1', '2', '3', '4', '5', '6', '7'])
+    assert.deepEqual(ids(sheets[0].backs), ['1', '0', '3', '2', '5', '4', '7', '6'])
+    assert.deepEqual(ids(sheets[1].backs), ['9', '8', null, null, null, null, null, null])
+  })
+
+  test('names files by format and date', () => {
+    const now = new Date('2026-05-04T10:00:00Z')
+    assert.equal(exportFilename('anki', now), 'chapterflashemt-deck-2026-05-04.apkg')
+    assert.equal(exportFilename('csv', now), 'chapterflashemt-deck-2026-05-04.csv')
+  })
+})
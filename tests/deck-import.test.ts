@@ -0,0 +1,237 @@
+// The transformer shares the app's Prisma client; no test here touches the database
+import './helpers/fake-prisma'
+import { describe, test } from 'node:test'
+import assert from 'node:assert/strict'
+import { buildImportReport, parseImportOptions, transformFromAnki, transformFromCSV } from '@/data/flashcard-transformer'
+import { readAnkiPackage, writeAnkiPackage } from '@/data/anki-package'
+
+interface ZipEntry {
+  name: string
+  data: Uint8Array
+  declaredSize?: number // What the zip directory claims the entry inflates to
+}
+
+async function deflateRaw(data: Uint8Array): Promise<Uint8Array> {
+  const stream = new Blob([data as BlobPart]).stream().pipeThrough(new CompressionStream('deflate-raw'))
+  return new Uint8Array(await new Response(stream).arrayBuffer())
+}
+
+// Just enough of a zip for the reader: deflated entries and the central directory
+async function deflatedZip(entries: ZipEntry[]): Promise<Uint8Array> {
+  const encoder = new TextEncoder()
+  const parts: Uint8Array[] = []
+  const centrals: Uint8Array[] = []
+  let offset = 0
+
+  for (const entry of entries) {
+    const name = encoder.encode(entry.name)
+    const compressed = await deflateRaw(entry.data)
+    const size = entry.declaredSize ?? entry.data.length
+
+    const local = new Uint8Array(30 + name.length + compressed.length)
+    const localView = new DataView(local.buffer)
+    localView.setUint32(0, 0x04034b50, true)
+    localView.setUint16(8, 8, true)
+    localView.setUint32(18, compressed.length, true)
+    localView.setUint32(22, size, true)
+    localView.setUint16(26, name.length, true)
+    local.set(name, 30)
+    local.set(compressed, 30 + name.length)
+
+    const central = new Uint8Array(46 + name.length)
+    const centralView = new DataView(central.buffer)
+    centralView.setUint32(0, 0x02014b50, true)
+    centralView.setUint16(10, 8, true)
+    centralView.setUint32(20, compressed.length, true)
+    centralView.setUint32(24, size, true)
+    centralView.setUint16(28, name.length, true)
+    centralView.setUint32(42, offset, true)
+    central.set(name, 46)
+
+    parts.push(local)
+    centrals.push(central)
+    offset += local.length
+  }
+
+  const directorySize = centrals.reduce((sum, central) => sum + central.length, 0)
+  const end = new Uint8Array(22)
+  const endView = new DataView(end.buffer)
+  endView.setUint32(0, 0x06054b50, true)
+  endView.setUint16(8, entries.length, true)
+  endView.setUint16(10, entries.length, true)
+  endView.setUint32(12, directorySize, true)
+  endView.setUint32(16, offset, true)
+
+  const zip = new Uint8Array(offset + directorySize + end.length)
+  let position = 0
+  for (const part of [...parts, ...centrals, end]) {
+    zip.set(part, position)
+    position += part.length
+  }
+  return zip
+}
+
+// The collection database out of an exported package, whose entries are stored uncompressed
+async function exportedCollection(): Promise<Uint8Array> {
+  const apkg = await writeAnkiPackage('Airway', [
+    { guid: 'g1', front: 'Normal adult respiratory rate?', back: '12-20 <b>breaths</b> per minute', tags: ['airway', 'vitals'] },
+    { guid: 'g2', front: 'OPA sizing', back: 'Corner of the mouth to the earlobe', tags: ['airway'] }
+  ])
+  const view = new DataView(apkg.buffer, apkg.byteOffset, apkg.byteLength)
+  const nameLength = view.getUint16(26, true)
+  assert.equal(new TextDecoder().decode(apkg.subarray(30, 30 + nameLength)), 'collection.anki2')
+  return apkg.subarray(30 + nameLength, 30 + nameLength + view.getUint32(18, true))
+}
+
+describe('CSV import', () => {
+  test('reads headers by alias and RFC 4180 quoting', () => {
+    const csv = 'Front,Back,Tags\r\n"Signs of shock, early","Anxiety, ""restlessness""\nand tachycardia",circulation\r\n'
+    const [card] = transformFromCSV(csv)
+
+    assert.equal(card.question, 'Signs of shock, early')
+    assert.equal(card.answer, 'Anxiety, "restlessness"\nand tachycardia')
+    assert.ok(card.tags.includes('circulation'))
+  })
+
+  test('reads headerless Quizlet exports as question, answer, tags', () => {
+    const cards = transformFromCSV('\uFEFFWhat is BVM?\tBag-valve-mask\tairway equipment\nNPA?\tNasopharyngeal airway\n')
+
+    assert.deepEqual(cards.map(card => [card.question, card.answer]), [
+      ['What is BVM?', 'Bag-valve-mask'],
+      ['NPA?', 'Nasopharyngeal airway']
+    ])
+    assert.ok(cards[0].tags.includes('equipment'))
+  })
+
+  test('detects semicolon delimiters and applies file-wide options', () => {
+    const [card] = transformFromCSV('question;answer;difficulty\nAPGAR stands for?;Appearance, Pulse, Grimace, Activity, Respiration;advanced\n', {
+      chapterNumber: 35,
+      defaultTags: ['obstetrics']
+    })
+
+    assert.equal(card.answer, 'Appearance, Pulse, Grimace, Activity, Respiration')
+    assert.equal(card.difficulty, 'Advanced')
+    assert.equal(card.chapterNumber, 35)
+    assert.ok(card.tags.includes('obstetrics'))
+  })
+
+  test('maps columns explicitly by header or position', () => {
+    const csv = 'Prompt,Notes,Response\nWhat is AED?,device,Automated external defibrillator\n'
+    const byHeader = transformFromCSV(csv, { columns: { question: 'Prompt', answer: 'Response' } })
+    const byPosition = transformFromCSV(csv, { hasHeader: true, columns: { question: 0, answer: 2 } })
+
+    assert.equal(byHeader[0].answer, 'Automated external defibrillator')
+    assert.equal(byPosition[0].answer, 'Automated external defibrillator')
+    assert.throws(
+      () => transformFromCSV(csv, { columns: { question: 'Term', answer: 'Response' } }),
+      /Column not found for question: Term/
+    )
+  })
+
+  test('gives the same row the same id on every import', () => {
+    const [first] = transformFromCSV('Front,Back\nWhat is CPR?,Cardiopulmonary resuscitation\n')
+    const [second] = transformFromCSV('Front,Back\nWhat is CPR?,Cardiopulmonary resuscitation\n')
+    assert.match(first.id, /^import-[0-9a-f]{8}$/)
+    assert.equal(first.id, second.id)
+  })
+})
+
+describe('import options', () => {
+  test('accepts well-formed options', () => {
+    const options = { columns: { question: 'Prompt', answer: 2 }, delimiter: ';', hasHeader: true, chapterNumber: 8, defaultTags: ['airway'] }
+    assert.deepEqual(parseImportOptions(options), { options })
+    assert.deepEqual(parseImportOptions({}), { options: {} })
+  })
+
+  test('names every option with the wrong shape', () => {
+    assert.deepEqual(
+      parseImportOptions({ columns: { question: -1 }, delimiter: '"', chapterNumber: '8', defaultTags: 'airway' }),
+      { error: 'Invalid import options: columns, delimiter, chapterNumber, defaultTags' }
+    )
+    assert.deepEqual(parseImportOptions({ columns: { toString: 0 } }), { error: 'Invalid import options: columns' })
+    assert.deepEqual(parseImportOptions([]), { error: 'Expected import options as an object' })
+  })
+})
+
+describe('import report', () => {
+  test('holds back duplicates of the deck and of earlier rows, and rejects invalid rows', () => {
+    const cards = transformFromCSV([
+      'Front,Back',
+      'What is CPR?,Cardiopulmonary resuscitation',
+      'What is the normal pulse?,60-100 beats per minute',
+      'what is the normal pulse,60 to 100',
+      'Missing answer?,'
+    ].join('\n'), { chapterNumber: 1 })
+    const report = buildImportReport(cards, [{ id: 'ch1-001', question: 'What is CPR' }])
+
+    assert.equal(report.total, 4)
+    assert.deepEqual(report.cards.map(card => card.question), ['What is the normal pulse?'])
+    assert.deepEqual(report.duplicates.map(({ row, match, duplicateOf }) => [row, match, duplicateOf]), [
+      [1, 'question', 'ch1-001'],
+      [3, 'question', report.cards[0].id]
+    ])
+    assert.deepEqual(report.rejects.map(({ row, reason }) => [row, reason]), [[4, 'Missing or invalid answer']])
+  })
+})
+
+describe('Anki package import', () => {
+  test('reads notes from a deflated package and strips field HTML', async () => {
+    const apkg = await deflatedZip([
+      { name: 'collection.anki2', data: await exportedCollection() },
+      { name: 'media', data: new TextEncoder().encode('{}') }
+    ])
+
+    const notes = await readAnkiPackage(apkg)
+    assert.deepEqual(notes.map(note => note.fieldNames), [['Front', 'Back'], ['Front', 'Back']])
+    assert.deepEqual(notes[0].tags, ['airway', 'vitals'])
+
+    const cards = await transformFromAnki(apkg)
+    assert.equal(cards[0].answer, '12-20 breaths per minute')
+    assert.equal(cards[0].id, `anki-${notes[0].id}`)
+  })
+
+  test('refuses entries that inflate past their declared size', async () => {
+    const collection = await exportedCollection()
+    const apkg = await deflatedZip([{ name: 'collection.anki2', data: collection, declaredSize: collection.length / 2 }])
+
+    await assert.rejects(readAnkiPackage(apkg), /expands to more data than it declares/)
+  })
+
+  test('refuses entries that declare an oversized collection', async () => {
+    const apkg = await deflatedZip([{ name: 'collection.anki2', data: new Uint8Array(1024), declaredSize: 0xffffffff }])
+
+    await assert.rejects(readAnkiPackage(apkg), /collection.anki2 in the .apkg file is too large to import/)
+  })
+
+  test('explains that the newest Anki format is not supported', async () => {
+    const apkg = await deflatedZip([
+      { name: 'collection.anki2', data: new Uint8Array(16) },
+      { name: 'collection.anki21b', data: new Uint8Array(16) }
+    ])
+
+    await assert.rejects(readAnkiPackage(apkg), /Support older Anki versions/)
+  })
+
+  test('refuses collections whose pages loop or point outside the file', async () => {
+    // Page 1 is an interior page with no cells, whose right-most child is `child`
+    const collection = (child: number) => {
+      const page = new Uint8Array(512)
+      const view = new DataView(page.buffer)
+      page.set(new TextEncoder().encode('SQLite format 3\0'))
+      view.setUint16(16, 512)
+      view.setUint32(56, 1)
+      page[100] = 0x05
+      view.setUint32(108, child)
+      return page
+    }
+
+    for (const child of [1, 99]) {
+      const apkg = await deflatedZip([{ name: 'collection.anki2', data: collection(child) }])
+      await assert.rejects(readAnkiPackage(apkg), /Could not read the deck file/)
+    }
+  })
+
+  test('rejects files that are not zips', async () => {
+    await assert.rejects(readAnkiPackage(new TextEncoder().encode('question,answer\n')), /zip directory not found/)
+  })
+})
@@ -0,0 +1,78 @@
+import { describe, test } from 'node:test'
+import assert from 'node:assert/strict'
+import { generateDistractors, isMultipleChoice, toMultipleChoice } from '@/lib/distractors'
+import type { FlashcardData } from '@/components/flashcard/Flashcard'
+
+function card(id: string, answer: string, overrides: Partial<FlashcardData> = {}): FlashcardData {
+  return {
+    id,
+    question: `Question ${id}`,
+    answer,
+    difficulty: 'Basic',
+    type: 'definition',
+    tags: [],
+    ...overrides
+  }
+}
+
+const target = card('target', 'Nasopharyngeal airway', { chapterNumber: 10, tags: ['airway', 'adjuncts'] })
+const related = [
+  card('r1', 'Oropharyngeal airway', { chapterNumber: 10, tags: ['airway', 'adjuncts'] }),
+  card('r2', 'Bag-valve-mask', { chapterNumber: 10, tags: ['airway'] }),
+  card('r3', 'Nasal cannula', { chapterNumber: 10, tags: ['adjuncts'] })
+]
+const unrelated = Array.from({ length: 20 }, (_, i) =>
+  card(`u${i}`, `Unrelated answer number ${i} about something else entirely`, { chapterNumber: 30, type: 'scenario' })
+)
+
+describe('isMultipleChoice', () => {
+  test('needs at least two options and a correct index among them', () => {
+    assert.equal(isMultipleChoice(card('a', 'x')), false)
+    assert.equal(isMultipleChoice(card('a', 'x', { options: ['x'], correctIndex: 0 })), false)
+    assert.equal(isMultipleChoice(card('a', 'x', { options: ['x', 'y'], correctIndex: 2 })), false)
+    assert.equal(isMultipleChoice(card('a', 'x', { options: ['x', 'y'], correctIndex: 1 })), true)
+  })
+})
+
+describe('generateDistractors', () => {
+  test('draws from the most closely related cards', () => {
+    for (let run = 0; run < 20; run++) {
+      const [distractor] = generateDistractors(target, [target, ...unrelated, ...related], 1)
+      assert.ok(related.some(candidate => candidate.answer === distractor), distractor)
+    }
+  })
+
+  test('never repeats the correct answer or another distractor', () => {
+    const pool = [
+      card('same', 'nasopharyngeal airway!'),
+      card('dup1', 'Oropharyngeal airway'),
+      card('dup2', 'oropharyngeal  AIRWAY'),
+      card('other', 'Suction'),
+      card('empty', '...')
+    ]
+    const distractors = generateDistractors(target, pool, 3)
+      .map(answer => answer.toLowerCase().replace(/\s+/g, ' '))
+
+    assert.deepEqual(distractors.sort(), ['oropharyngeal airway', 'suction'])
+  })
+})
+
+describe('toMultipleChoice', () => {
+  test('adds shuffled options that include the answer', () => {
+    const multipleChoice = toMultipleChoice(target, [...related, ...unrelated])
+
+    assert.equal(multipleChoice.options?.length, 4)
+    assert.equal(new Set(multipleChoice.options).size, 4)
+    assert.equal(multipleChoice.options?.[multipleChoice.correctIndex!], target.answer)
+    assert.equal(isMultipleChoice(multipleChoice), true)
+  })
+
+  test('leaves the card alone when the pool is too small', () => {
+    assert.equal(toMultipleChoice(target, related.slice(0, 2)), target)
+  })
+
+  test('keeps authored options', () => {
+    const authored = card('mc', 'OPA', { options: ['NPA', 'OPA'], correctIndex: 1 })
+    assert.equal(toMultipleChoice(authored, related), authored)
+  })
+})
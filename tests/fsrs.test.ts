@@ -0,0 +1,100 @@
+import { describe, test } from 'node:test'
+import assert from 'node:assert/strict'
+import {
+  DEFAULT_FSRS_PARAMETERS,
+  initialFsrsState,
+  intervalForStability,
+  nextFsrsState,
+  retrievability,
+  seedFsrsState
+} from '@/lib/fsrs'
+import { FsrsScheduler, createScheduler, type SchedulingCard } from '@/lib/scheduler'
+import type { ReviewRating } from '@/lib/spaced-repetition'
+
+const DAY_MS = 24 * 60 * 60 * 1000
+const RATINGS: ReviewRating[] = ['again', 'hard', 'good', 'easy']
+
+describe('FSRS memory model', () => {
+  test('recall is 90% once the elapsed days equal the stability', () => {
+    assert.ok(Math.abs(retrievability(12, 12) - 0.9) < 1e-9)
+    assert.equal(retrievability(12, 0), 1)
+    assert.ok(Math.abs(intervalForStability(12, 0.9) - 12) < 1e-9)
+  })
+
+  test('a higher retention target gives shorter intervals', () => {
+    assert.ok(intervalForStability(12, 0.95) < intervalForStability(12, 0.9))
+  })
+
+  test('the first rating sets stability from the weights', () => {
+    const w = DEFAULT_FSRS_PARAMETERS.weights
+    assert.deepEqual(RATINGS.map(rating => initialFsrsState(rating).stability), w.slice(0, 4))
+    assert.equal(initialFsrsState('good').difficulty, w[4])
+    assert.ok(initialFsrsState('again').difficulty > initialFsrsState('easy').difficulty)
+  })
+
+  test('better ratings grow stability more', () => {
+    const state = { stability: 10, difficulty: 5 }
+    const stabilities = RATINGS.map(rating => nextFsrsState(state, rating, 10).stability)
+    assert.ok(stabilities[0] <= state.stability)
+    for (let i = 1; i < stabilities.length; i++) {
+      assert.ok(stabilities[i] > stabilities[i - 1], `${RATINGS[i]} should beat ${RATINGS[i - 1]}`)
+    }
+  })
+
+  test('difficulty stays between 1 and 10', () => {
+    let state = { stability: 5, difficulty: 9.5 }
+    for (let i = 0; i < 20; i++) state = nextFsrsState(state, 'again', 1)
+    assert.ok(state.difficulty <= 10)
+
+    for (let i = 0; i < 20; i++) state = nextFsrsState(state, 'easy', state.stability)
+    assert.ok(state.difficulty >= 1)
+  })
+
+  test('SM-2 history seeds the memory state', () => {
+    assert.equal(seedFsrsState(2.5, 0, 0), null)
+    assert.deepEqual(seedFsrsState(3.0, 20, 4), { stability: 20, difficulty: 1 })
+    assert.equal(seedFsrsState(1.3, 20, 4)?.difficulty, 10)
+  })
+})
+
+describe('FsrsScheduler', () => {
+  const now = new Date('2026-03-01T12:00:00Z')
+  const reviewCard: SchedulingCard = {
+    id: 'card-1',
+    easeFactor: 2.5,
+    interval: 10,
+    repetitions: 3,
+    nextReview: now,
+    lastSeen: new Date(now.getTime() - 10 * DAY_MS),
+    state: 'review',
+    learningStep: 0,
+    stability: 10,
+    memoryDifficulty: 5
+  }
+
+  test('schedules review cards for the requested retention', () => {
+    const result = new FsrsScheduler().schedule(reviewCard, 'good', undefined, now)
+    assert.equal(result.state, 'review')
+    assert.ok(result.stability! > 10)
+    assert.equal(result.interval, Math.round(intervalForStability(result.stability!, 0.9)))
+    assert.equal(result.nextReview.getTime(), now.getTime() + result.interval * DAY_MS)
+    assert.equal(result.repetitions, 4)
+  })
+
+  test('keeps the SM-2 ease so switching back resumes where it stopped', () => {
+    const result = new FsrsScheduler().schedule(reviewCard, 'easy', undefined, now)
+    assert.equal(result.easeFactor, reviewCard.easeFactor)
+  })
+
+  test('seeds cards that only have SM-2 history', () => {
+    const sm2Card = { ...reviewCard, stability: undefined, memoryDifficulty: undefined }
+    const result = new FsrsScheduler().schedule(sm2Card, 'good', undefined, now)
+    assert.ok(result.stability! > reviewCard.interval)
+    assert.equal(typeof result.memoryDifficulty, 'number')
+  })
+
+  test('createScheduler picks the algorithm', () => {
+    assert.equal(createScheduler('fsrs').algorithm, 'fsrs')
+    assert.equal(createScheduler('sm2').algorithm, 'sm2')
+  })
+})
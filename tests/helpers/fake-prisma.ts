@@ -0,0 +1,130 @@
+/**
+ * Fake Prisma - an in-memory stand-in for the Prisma client in unit tests
+ * Installed as the shared client (see src/lib/prisma.ts), so import this
+ * before any service. Supports only the queries the services make: equality,
+ * `in`, `not`, `gt` and `lt` filters, compound unique keys, single-field
+ * ordering, and including the user a row points to.
+ */
+
+type Row = Record<string, unknown>
+type Where = Record<string, unknown>
+type OrderBy = Record<string, 'asc' | 'desc'>
+
+const OPERATORS = ['in', 'not', 'gt', 'lt']
+
+// Schema defaults the tests rely on; ids and timestamps are added to every row
+const DEFAULTS: Record<string, Row> = {
+  user: { role: 'student', email: null, lastSyncAt: null },
+  flashcard: { status: 'published', tags: '[]', type: 'definition' },
+  flashcardRevision: { changedFields: '[]', resetScheduling: false },
+  flashcardReview: { comment: null },
+  userProgress: {},
+  studySession: {}
+}
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !(value instanceof Date) && !Array.isArray(value)
+
+const comparable = (value: unknown) => value instanceof Date ? value.getTime() : value
+
+function compare(value: unknown, operator: string, operand: unknown): boolean {
+  switch (operator) {
+    case 'in':
+      return (operand as unknown[]).some(item => comparable(item) === comparable(value))
+    case 'not':
+      return comparable(operand) !== comparable(value)
+    case 'gt':
+      return (comparable(value) as number) > (comparable(operand) as number)
+    default:
+      return (comparable(value) as number) < (comparable(operand) as number)
+  }
+}
+
+function matches(row: Row, where: Where = {}): boolean {
+  return Object.entries(where).every(([key, condition]) => {
+    if (condition === undefined) return true
+    if (!isPlainObject(condition)) return comparable(row[key]) === comparable(condition)
+
+    const operators = Object.keys(condition)
+    return operators.every(operator => OPERATORS.includes(operator))
+      ? operators.every(operator => compare(row[key], operator, condition[operator]))
+      : matches(row, condition) // Compound unique key such as userId_flashcardId
+  })
+}
+
+const defined = (data: Row): Row => Object.fromEntries(Object.entries(data).filter(([, value]) => value !== undefined))
+
+let nextId = 1
+
+function createTable(model: string, tables: Record<string, Row[]>) {
+  const rows = () => tables[model]
+
+  const withIncludes = (row: Row, include?: Record<string, unknown>): Row => {
+    const result = { ...row }
+    for (const relation of Object.keys(include ?? {})) {
+      result[relation] = tables.user.find(user => user.id === row[`${relation}Id`]) ?? null
+    }
+    return result
+  }
+
+  const findMany = async ({ where, orderBy, include }: { where?: Where; orderBy?: OrderBy; include?: Record<string, unknown> } = {}) => {
+    const found = rows().filter(row => matches(row, where))
+    const [field, direction] = Object.entries(orderBy ?? {})[0] ?? []
+    if (field) {
+      found.sort((a, b) => {
+        const order = (comparable(a[field]) as number) < (comparable(b[field]) as number) ? -1 : 1
+        return direction === 'desc' ? -order : order
+      })
+    }
+    return found.map(row => withIncludes(row, include))
+  }
+
+  const create = async ({ data }: { data: Row }) => {
+    const now = new Date()
+    const row = { id: `${model}-${nextId++}`, createdAt: now, updatedAt: now, ...DEFAULTS[model], ...defined(data) }
+    rows().push(row)
+    return { ...row }
+  }
+
+  // Like @updatedAt, an update stamps the row unless the data sets updatedAt itself
+  const update = async ({ where, data }: { where: Where; data: Row }) => {
+    const row = rows().find(candidate => matches(candidate, where))
+    if (!row) throw new Error(`No ${model} matches ${JSON.stringify(where)}`)
+    Object.assign(row, { updatedAt: new Date() }, defined(data))
+    return { ...row }
+  }
+
+  return {
+    findMany,
+    findFirst: async (args: { where?: Where; orderBy?: OrderBy; include?: Record<string, unknown> }) =>
+      (await findMany(args))[0] ?? null,
+    findUnique: async (args: { where: Where; include?: Record<string, unknown> }) =>
+      (await findMany(args))[0] ?? null,
+    count: async ({ where }: { where?: Where } = {}) => rows().filter(row => matches(row, where)).length,
+    create,
+    update,
+    upsert: async ({ where, update: changes, create: data }: { where: Where; update: Row; create: Row }) =>
+      rows().some(row => matches(row, where)) ? update({ where, data: changes }) : create({ data })
+  }
+}
+
+function createFakePrisma() {
+  const tables: Record<string, Row[]> = Object.fromEntries(Object.keys(DEFAULTS).map(model => [model, []]))
+  const models = Object.fromEntries(Object.keys(DEFAULTS).map(model => [model, createTable(model, tables)]))
+
+  const client = {
+    ...models,
+    tables,
+    // Writes are applied as they are made, so a transaction only waits for them
+    $transaction: async (work: Promise<unknown>[] | ((tx: unknown) => Promise<unknown>)) =>
+      Array.isArray(work) ? Promise.all(work) : work(client),
+    reset() {
+      Object.values(tables).forEach(rows => rows.splice(0))
+    }
+  }
+  return client as typeof client & Record<keyof typeof DEFAULTS, ReturnType<typeof createTable>>
+}
+
+export const db = createFakePrisma()
+
+;(globalThis as { prisma?: unknown }).prisma = db
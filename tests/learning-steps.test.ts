@@ -0,0 +1,94 @@
+import { describe, test } from 'node:test'
+import assert from 'node:assert/strict'
+import { Sm2Scheduler, type SchedulingCard } from '@/lib/scheduler'
+import { DEFAULT_SCHEDULER_CONFIG } from '@/lib/scheduler-config'
+
+const MINUTE_MS = 60 * 1000
+const DAY_MS = 24 * 60 * MINUTE_MS
+const now = new Date('2026-03-01T12:00:00Z')
+const scheduler = new Sm2Scheduler()
+
+function card(overrides: Partial<SchedulingCard> = {}): SchedulingCard {
+  return {
+    id: 'card-1',
+    easeFactor: 2.5,
+    interval: 0,
+    repetitions: 0,
+    nextReview: now,
+    lastSeen: now,
+    state: 'new',
+    learningStep: 0,
+    ...overrides
+  }
+}
+
+const minutesFromNow = (date: Date) => (date.getTime() - now.getTime()) / MINUTE_MS
+const daysFromNow = (date: Date) => (date.getTime() - now.getTime()) / DAY_MS
+
+describe('learning steps', () => {
+  test('good moves a new card to the next step', () => {
+    const result = scheduler.schedule(card(), 'good', undefined, now)
+    assert.equal(result.state, 'learning')
+    assert.equal(result.learningStep, 1)
+    assert.equal(minutesFromNow(result.nextReview), DEFAULT_SCHEDULER_CONFIG.learningSteps[1])
+  })
+
+  test('again restarts the steps and hard repeats the current one', () => {
+    const learning = card({ state: 'learning', learningStep: 1 })
+    const again = scheduler.schedule(learning, 'again', undefined, now)
+    const hard = scheduler.schedule(learning, 'hard', undefined, now)
+    assert.equal(again.learningStep, 0)
+    assert.equal(minutesFromNow(again.nextReview), DEFAULT_SCHEDULER_CONFIG.learningSteps[0])
+    assert.equal(hard.learningStep, 1)
+    assert.equal(minutesFromNow(hard.nextReview), DEFAULT_SCHEDULER_CONFIG.learningSteps[1])
+  })
+
+  test('good on the last step graduates to day-based review', () => {
+    const result = scheduler.schedule(card({ state: 'learning', learningStep: 1 }), 'good', undefined, now)
+    assert.equal(result.state, 'review')
+    assert.equal(result.repetitions, 1)
+    assert.equal(result.interval, DEFAULT_SCHEDULER_CONFIG.initialInterval)
+    assert.equal(daysFromNow(result.nextReview), result.interval)
+  })
+
+  test('easy graduates a new card straight away', () => {
+    const result = scheduler.schedule(card(), 'easy', undefined, now)
+    assert.equal(result.state, 'review')
+    assert.equal(result.learningStep, 0)
+  })
+})
+
+describe('relearning steps', () => {
+  const reviewCard = card({ state: 'review', interval: 20, repetitions: 4 })
+
+  test('a lapse starts relearning with the reset interval waiting', () => {
+    const result = scheduler.schedule(reviewCard, 'again', undefined, now)
+    assert.equal(result.state, 'relearning')
+    assert.equal(result.learningStep, 0)
+    assert.equal(result.repetitions, 0)
+    assert.equal(result.interval, DEFAULT_SCHEDULER_CONFIG.initialInterval)
+    assert.ok(result.easeFactor < reviewCard.easeFactor)
+    assert.equal(minutesFromNow(result.nextReview), DEFAULT_SCHEDULER_CONFIG.relearningSteps[0])
+  })
+
+  test('finishing relearning returns the card to review at its interval', () => {
+    const relearning = { ...card(), ...scheduler.schedule(reviewCard, 'again', undefined, now) }
+    const result = scheduler.schedule(relearning, 'good', undefined, now)
+    assert.equal(result.state, 'review')
+    assert.equal(daysFromNow(result.nextReview), relearning.interval)
+    assert.equal(result.easeFactor, relearning.easeFactor)
+  })
+
+  test('again during relearning stays on the first step', () => {
+    const result = scheduler.schedule(card({ state: 'relearning', interval: 1 }), 'again', undefined, now)
+    assert.equal(result.state, 'relearning')
+    assert.equal(result.learningStep, 0)
+  })
+
+  test('without relearning steps a lapse goes straight back to review', () => {
+    const noRelearning = new Sm2Scheduler({ ...DEFAULT_SCHEDULER_CONFIG, relearningSteps: [] })
+    const result = noRelearning.schedule(reviewCard, 'again', undefined, now)
+    assert.equal(result.state, 'review')
+    assert.equal(daysFromNow(result.nextReview), DEFAULT_SCHEDULER_CONFIG.initialInterval)
+  })
+})
@@ -0,0 +1,182 @@
+import { db } from './helpers/fake-prisma'
+import { beforeEach, describe, test } from 'node:test'
+import assert from 'node:assert/strict'
+import ProgressSyncService, { parseProgressSnapshot } from '@/lib/progress-sync-service'
+import { lastModified, type CardProgress, type StudySession } from '@/lib/progress-storage'
+
+const HOUR_MS = 60 * 60 * 1000
+const now = Date.now()
+
+function cardProgress(cardId: string, updatedAt: number, overrides: Partial<CardProgress> = {}): CardProgress {
+  return {
+    cardId,
+    timesStudied: 3,
+    timesCorrect: 2,
+    timesIncorrect: 1,
+    lastStudied: updatedAt,
+    nextReview: updatedAt + 24 * HOUR_MS,
+    difficulty: 'medium',
+    masteryLevel: 40,
+    easeFactor: 2.5,
+    interval: 1,
+    repetitions: 1,
+    state: 'review',
+    updatedAt,
+    ...overrides
+  }
+}
+
+function session(id: string, overrides: Partial<StudySession> = {}): StudySession {
+  return {
+    id,
+    timestamp: now - HOUR_MS,
+    duration: 300,
+    cardsStudied: 10,
+    correctAnswers: 8,
+    incorrectAnswers: 2,
+    mode: 'quick-drill',
+    chapters: ['1'],
+    categories: ['airway'],
+    ...overrides
+  }
+}
+
+describe('parseProgressSnapshot', () => {
+  test('accepts well-formed records', () => {
+    const body = { cards: [cardProgress('ch1-001', now)], sessions: [session('s1')] }
+    assert.deepEqual(parseProgressSnapshot(body), { snapshot: body })
+  })
+
+  test('rejects a body without card and session lists', () => {
+    assert.deepEqual(parseProgressSnapshot({ cards: [] }), { error: 'Expected { cards: [], sessions: [] }' })
+    assert.deepEqual(parseProgressSnapshot(null), { error: 'Expected { cards: [], sessions: [] }' })
+  })
+
+  test('names the card record and fields that are invalid', () => {
+    const body = {
+      cards: [cardProgress('ch1-001', now), { ...cardProgress('ch1-002', now), lastStudied: undefined, nextReview: 'tomorrow', state: 'done' }],
+      sessions: []
+    }
+    assert.deepEqual(parseProgressSnapshot(body), { error: 'cards[1]: invalid lastStudied, nextReview, state' })
+  })
+
+  test('rejects fractional counts and out of range times', () => {
+    const fractional = { cards: [cardProgress('ch1-001', now, { interval: 1.5 })], sessions: [] }
+    const farFuture = { cards: [cardProgress('ch1-001', now, { updatedAt: 1e20 })], sessions: [] }
+    assert.deepEqual(parseProgressSnapshot(fractional), { error: 'cards[0]: invalid interval' })
+    assert.deepEqual(parseProgressSnapshot(farFuture), { error: 'cards[0]: invalid updatedAt' })
+  })
+
+  test('names the session record that is invalid', () => {
+    const body = { cards: [], sessions: [session('s1'), session('', { duration: -1 })] }
+    assert.deepEqual(parseProgressSnapshot(body), { error: 'sessions[1]: missing id' })
+  })
+})
+
+describe('ProgressSyncService.syncProgress', () => {
+  let userId: string
+
+  beforeEach(async () => {
+    db.reset()
+    userId = String((await db.user.create({ data: { licenseKey: 'EMT-TEST' } })).id)
+    for (const id of ['ch1-001', 'ch1-002', 'ch1-003']) {
+      await db.flashcard.create({ data: { id, question: `Question ${id}`, answer: 'Answer' } })
+    }
+  })
+
+  const serverCard = async (cardId: string) => (await ProgressSyncService.getProgress(userId)).cards
+    .find(card => card.cardId === cardId)
+
+  test('stores new records and skips cards the server does not know', async () => {
+    const result = await ProgressSyncService.syncProgress(userId, {
+      cards: [cardProgress('ch1-001', now), cardProgress('unknown-card', now)],
+      sessions: [session('s1')]
+    })
+
+    assert.equal(result.applied, 1)
+    assert.deepEqual(result.skipped, ['unknown-card'])
+    assert.deepEqual(result.cards, [])
+    assert.deepEqual(result.sessions, [])
+    assert.equal((await serverCard('ch1-001'))?.updatedAt, now)
+    assert.equal(db.tables.studySession.length, 1)
+  })
+
+  test('the most recent change wins', async () => {
+    await ProgressSyncService.syncProgress(userId, {
+      cards: [cardProgress('ch1-001', now - HOUR_MS), cardProgress('ch1-002', now)],
+      sessions: []
+    })
+
+    const result = await ProgressSyncService.syncProgress(userId, {
+      cards: [
+        cardProgress('ch1-001', now, { masteryLevel: 80 }),
+        cardProgress('ch1-002', now - HOUR_MS, { masteryLevel: 10 })
+      ],
+      sessions: []
+    })
+
+    assert.equal(result.applied, 1)
+    assert.equal((await serverCard('ch1-001'))?.masteryLevel, 80)
+    assert.deepEqual(result.cards.map(card => card.cardId), ['ch1-002'])
+    assert.equal(result.cards[0].masteryLevel, 40)
+  })
+
+  test('a tie keeps the server copy so repeated syncs are no-ops', async () => {
+    const local = { cards: [cardProgress('ch1-001', now)], sessions: [session('s1')] }
+    await ProgressSyncService.syncProgress(userId, local)
+    const again = await ProgressSyncService.syncProgress(userId, local)
+
+    assert.equal(again.applied, 0)
+    assert.deepEqual(again.cards, [])
+    assert.equal(db.tables.studySession.length, 1)
+  })
+
+  test('an action on a studied card wins over an older review', async () => {
+    await ProgressSyncService.syncProgress(userId, { cards: [cardProgress('ch1-001', now - HOUR_MS)], sessions: [] })
+
+    // Suspending changes the record without a new review
+    const suspended = cardProgress('ch1-001', now, { lastStudied: now - 2 * HOUR_MS, suspended: true })
+    await ProgressSyncService.syncProgress(userId, { cards: [suspended], sessions: [] })
+
+    const stored = await serverCard('ch1-001')
+    assert.equal(stored?.suspended, true)
+    assert.equal(lastModified(stored!), now)
+  })
+
+  test('records without a change time fall back to when they were studied', async () => {
+    const legacy = cardProgress('ch1-001', now, { updatedAt: undefined })
+    await ProgressSyncService.syncProgress(userId, { cards: [legacy], sessions: [] })
+    assert.equal((await serverCard('ch1-001'))?.updatedAt, now)
+  })
+
+  test('repeated records in one payload are written once', async () => {
+    const result = await ProgressSyncService.syncProgress(userId, {
+      cards: [cardProgress('ch1-001', now, { masteryLevel: 90 }), cardProgress('ch1-001', now - HOUR_MS)],
+      sessions: [session('s1'), session('s1'), session('s2')]
+    })
+
+    assert.equal(result.applied, 1)
+    assert.equal((await serverCard('ch1-001'))?.masteryLevel, 90)
+    assert.deepEqual(db.tables.studySession.map(row => row.clientId), ['s1', 's2'])
+  })
+
+  test('returns sessions recorded on other devices', async () => {
+    await ProgressSyncService.syncProgress(userId, { cards: [], sessions: [session('phone')] })
+    const result = await ProgressSyncService.syncProgress(userId, { cards: [], sessions: [session('laptop')] })
+
+    assert.deepEqual(result.sessions.map(({ id }) => id), ['phone'])
+    assert.deepEqual(result.sessions[0], session('phone'))
+  })
+
+  test('incremental pulls include sessions uploaded after they started', async () => {
+    await ProgressSyncService.syncProgress(userId, { cards: [], sessions: [session('phone')] })
+    const since = Date.now()
+    await new Promise(resolve => setTimeout(resolve, 5))
+
+    // Recorded offline two days ago, uploaded only now
+    await ProgressSyncService.syncProgress(userId, { cards: [], sessions: [session('tablet', { timestamp: now - 48 * HOUR_MS })] })
+
+    const pulled = await ProgressSyncService.getProgress(userId, since)
+    assert.deepEqual(pulled.sessions.map(({ id }) => id), ['tablet'])
+  })
+})
@@ -0,0 +1,48 @@
+import { describe, test } from 'node:test'
+import assert from 'node:assert/strict'
+import { schedulingRating } from '@/lib/review-queue'
+import { Sm2Scheduler, type SchedulingCard } from '@/lib/scheduler'
+import { gradeTypedAnswer } from '@/lib/answer-matching'
+
+const now = new Date('2026-03-01T12:00:00Z')
+const scheduler = new Sm2Scheduler()
+
+const reviewCard: SchedulingCard = {
+  id: 'card-1',
+  easeFactor: 2.5,
+  interval: 10,
+  repetitions: 3,
+  nextReview: now,
+  lastSeen: now,
+  state: 'review',
+  learningStep: 0
+}
+
+describe('schedulingRating', () => {
+  test('a wrong option cannot advance the schedule', () => {
+    for (const rated of ['hard', 'good', 'easy'] as const) {
+      const rating = schedulingRating(rated, { isCorrect: false, graded: true, answerShown: true })
+      assert.equal(rating, 'again')
+
+      const next = scheduler.schedule(reviewCard, rating, undefined, now)
+      assert.equal(next.state, 'relearning')
+      assert.ok(next.nextReview.getTime() - now.getTime() < 24 * 60 * 60 * 1000)
+    }
+  })
+
+  test('an incorrect typed answer is scheduled as again', () => {
+    const { isCorrect } = gradeTypedAnswer('epinephrine', 'Nitroglycerin')
+    assert.equal(schedulingRating('easy', { isCorrect, graded: true, answerShown: true }), 'again')
+  })
+
+  test('ratings given before seeing the answer are not scheduled', () => {
+    assert.equal(schedulingRating('again', { isCorrect: true, graded: true, answerShown: false }), 'good')
+    assert.equal(schedulingRating('easy', { isCorrect: false, graded: true, answerShown: false }), 'again')
+    assert.equal(schedulingRating('easy', { isCorrect: true, graded: false, answerShown: false }), null)
+  })
+
+  test('keeps the rating of correct or self-assessed answers', () => {
+    assert.equal(schedulingRating('easy', { isCorrect: true, graded: true, answerShown: true }), 'easy')
+    assert.equal(schedulingRating('good', { isCorrect: false, graded: false, answerShown: true }), 'good')
+  })
+})
@@ -0,0 +1,172 @@
+import { db } from './helpers/fake-prisma'
+import { beforeEach, describe, test } from 'node:test'
+import assert from 'node:assert/strict'
+import ReviewService, { type ReviewResult, type ReviewState } from '@/lib/review-service'
+import RevisionService from '@/lib/revision-service'
+import { canAuthor, canResetScheduling, canSignOff, requiredApprovals } from '@/lib/content-review'
+import type { Flashcard } from '@prisma/client'
+
+describe('content review rules', () => {
+  test('protocol, medication and scenario cards need a second reviewer', () => {
+    assert.equal(requiredApprovals({ tags: ['airway'], type: 'definition' }), 1)
+    assert.equal(requiredApprovals({ tags: ['Medication'], type: 'definition' }), 2)
+    assert.equal(requiredApprovals({ tags: [], type: 'scenario' }), 2)
+  })
+
+  test('only reviewers and instructors can sign off', () => {
+    assert.equal(canSignOff('reviewer'), true)
+    assert.equal(canSignOff('instructor'), true)
+    assert.equal(canSignOff('student'), false)
+    assert.equal(canSignOff(''), false)
+  })
+
+  test('only instructors can write cards', () => {
+    assert.equal(canAuthor('instructor'), true)
+    assert.equal(canAuthor('reviewer'), false)
+    assert.equal(canAuthor('student'), false)
+  })
+
+  test('only instructors can reset learner scheduling', () => {
+    assert.equal(canResetScheduling('instructor'), true)
+    assert.equal(canResetScheduling('reviewer'), false)
+    assert.equal(canResetScheduling('student'), false)
+  })
+})
+
+describe('ReviewService.applyAction', () => {
+  let author: string
+  let reviewer: string
+  let instructor: string
+
+  const addUser = async (email: string, role: string) =>
+    String((await db.user.create({ data: { licenseKey: email, email, role } })).id)
+
+  // A draft written by the author, with its creation on record
+  const addDraft = async (tags: string[] = ['airway']) => {
+    const card = await db.flashcard.create({
+      data: {
+        question: 'What does the "A" in ABC stand for?',
+        answer: 'Airway',
+        difficulty: 'Basic',
+        chapterNumber: 8,
+        categoryId: 'category-1',
+        tags: JSON.stringify(tags),
+        status: 'draft'
+      }
+    })
+    await RevisionService.recordRevision(card as unknown as Flashcard, 'created', author, false)
+    return String(card.id)
+  }
+
+  const stateOf = (result: ReviewResult): ReviewState => {
+    assert.ok('state' in result, 'error' in result ? result.error : '')
+    return result.state
+  }
+
+  beforeEach(async () => {
+    db.reset()
+    author = await addUser('author@example.com', 'student')
+    reviewer = await addUser('reviewer@example.com', 'reviewer')
+    instructor = await addUser('instructor@example.com', 'instructor')
+  })
+
+  test('submitting a draft puts its latest revision up for review', async () => {
+    const cardId = await addDraft()
+    const state = stateOf(await ReviewService.applyAction(cardId, 'submit', author))
+
+    assert.equal(state.status, 'in_review')
+    assert.equal(state.revision, 2)
+    assert.equal(state.requiredApprovals, 1)
+    assert.deepEqual(await ReviewService.applyAction(cardId, 'submit', author), {
+      error: 'Cannot submit a card that is in_review',
+      status: 409
+    })
+  })
+
+  test('one approval publishes an ordinary card', async () => {
+    const cardId = await addDraft()
+    await ReviewService.applyAction(cardId, 'submit', author)
+    const state = stateOf(await ReviewService.applyAction(cardId, 'approve', reviewer))
+
+    assert.equal(state.status, 'published')
+    assert.deepEqual(state.reviews.map(review => [review.reviewer, review.decision]), [['r•••@example.com', 'approved']])
+  })
+
+  test('sensitive cards need two different reviewers', async () => {
+    const cardId = await addDraft(['medication'])
+    await ReviewService.applyAction(cardId, 'submit', author)
+
+    const first = stateOf(await ReviewService.applyAction(cardId, 'approve', reviewer))
+    assert.equal(first.status, 'in_review')
+    assert.equal(first.approvals.length, 1)
+
+    assert.deepEqual(await ReviewService.applyAction(cardId, 'approve', reviewer), {
+      error: 'You have already approved this revision; it needs another reviewer',
+      status: 409
+    })
+
+    const second = stateOf(await ReviewService.applyAction(cardId, 'approve', instructor))
+    assert.equal(second.status, 'published')
+  })
+
+  test('a license without a reviewer role cannot sign off', async () => {
+    const cardId = await addDraft()
+    await ReviewService.applyAction(cardId, 'submit', author)
+    const student = await addUser('student@example.com', 'student')
+
+    assert.deepEqual(await ReviewService.applyAction(cardId, 'approve', student), {
+      error: 'Only reviewers and instructors can sign off on cards',
+      status: 403
+    })
+  })
+
+  test('reviewers cannot sign off on changes they made', async () => {
+    const cardId = await addDraft()
+    await ReviewService.applyAction(cardId, 'submit', reviewer)
+
+    assert.deepEqual(await ReviewService.applyAction(cardId, 'approve', reviewer), {
+      error: 'Reviewers cannot sign off on changes they made or submitted',
+      status: 403
+    })
+    assert.equal(stateOf(await ReviewService.applyAction(cardId, 'approve', instructor)).status, 'published')
+  })
+
+  test('requesting changes needs a comment and returns the card to draft', async () => {
+    const cardId = await addDraft()
+    await ReviewService.applyAction(cardId, 'submit', author)
+
+    assert.deepEqual(await ReviewService.applyAction(cardId, 'request_changes', reviewer), {
+      error: 'Say what needs to change when requesting changes',
+      status: 400
+    })
+
+    const state = stateOf(await ReviewService.applyAction(cardId, 'request_changes', reviewer, 'Cite the protocol'))
+    assert.equal(state.status, 'draft')
+    assert.equal(state.reviews[0].comment, 'Cite the protocol')
+    assert.deepEqual(state.approvals, [])
+  })
+
+  test('only cards in review can be signed off', async () => {
+    const cardId = await addDraft()
+    assert.deepEqual(await ReviewService.applyAction(cardId, 'approve', reviewer), {
+      error: 'Only cards in review can be signed off',
+      status: 409
+    })
+  })
+
+  test('withdraw and reopen return a card to draft', async () => {
+    const cardId = await addDraft()
+    await ReviewService.applyAction(cardId, 'submit', author)
+    assert.equal(stateOf(await ReviewService.applyAction(cardId, 'withdraw', author)).status, 'draft')
+
+    await db.flashcard.update({ where: { id: cardId }, data: { status: 'retired' } })
+    assert.equal(stateOf(await ReviewService.applyAction(cardId, 'reopen', instructor)).status, 'draft')
+  })
+
+  test('unknown cards are not found', async () => {
+    assert.deepEqual(await ReviewService.applyAction('missing', 'submit', author), {
+      error: 'Flashcard not found: missing',
+      status: 404
+    })
+  })
+})
@@ -0,0 +1,98 @@
+import { describe, test } from 'node:test'
+import assert from 'node:assert/strict'
+import { AnswerQuality, SpacedRepetitionEngine, type SpacedRepetitionCard } from '@/lib/spaced-repetition'
+import {
+  DEFAULT_SCHEDULER_CONFIG,
+  SCHEDULER_PRESETS,
+  createSchedulerConfig,
+  validateSchedulerConfig
+} from '@/lib/scheduler-config'
+
+function card(overrides: Partial<SpacedRepetitionCard> = {}): SpacedRepetitionCard {
+  return {
+    id: 'card-1',
+    easeFactor: 2.5,
+    interval: 10,
+    repetitions: 2,
+    nextReview: new Date(),
+    lastSeen: new Date(),
+    ...overrides
+  }
+}
+
+describe('SpacedRepetitionEngine.calculateNextReview', () => {
+  test('good multiplies the interval by the updated ease', () => {
+    const next = SpacedRepetitionEngine.calculateNextReview(card(), AnswerQuality.GOOD)
+    assert.equal(next.easeFactor, 2.36)
+    assert.equal(next.interval, 24)
+    assert.equal(next.repetitions, 3)
+  })
+
+  test('the first two successful reviews use the initial and graduating intervals', () => {
+    const first = SpacedRepetitionEngine.calculateNextReview(card({ repetitions: 0 }), AnswerQuality.GOOD)
+    const second = SpacedRepetitionEngine.calculateNextReview(card({ repetitions: 1 }), AnswerQuality.GOOD)
+    assert.equal(first.interval, DEFAULT_SCHEDULER_CONFIG.initialInterval)
+    assert.equal(second.interval, DEFAULT_SCHEDULER_CONFIG.graduatingInterval)
+  })
+
+  test('hard keeps the original x0.8 interval with the default config', () => {
+    const next = SpacedRepetitionEngine.calculateNextReview(card(), AnswerQuality.HARD)
+    assert.equal(next.easeFactor, 2.3)
+    assert.equal(next.interval, Math.round(Math.round(10 * 2.3) * 0.8))
+  })
+
+  test('hardFactor divides the interval', () => {
+    const config = { ...DEFAULT_SCHEDULER_CONFIG, hardFactor: 2 }
+    const next = SpacedRepetitionEngine.calculateNextReview(card(), AnswerQuality.HARD, undefined, config)
+    assert.equal(next.interval, Math.round(23 / 2))
+  })
+
+  test('easy applies the easy bonus', () => {
+    const next = SpacedRepetitionEngine.calculateNextReview(card(), AnswerQuality.EASY)
+    assert.equal(next.interval, Math.round(25 * DEFAULT_SCHEDULER_CONFIG.easyBonus))
+  })
+
+  test('a failed answer resets repetitions and never drops ease below the minimum', () => {
+    const next = SpacedRepetitionEngine.calculateNextReview(card({ easeFactor: 1.3 }), AnswerQuality.INCORRECT)
+    assert.equal(next.repetitions, 0)
+    assert.equal(next.interval, DEFAULT_SCHEDULER_CONFIG.initialInterval)
+    assert.equal(next.easeFactor, DEFAULT_SCHEDULER_CONFIG.minEaseFactor)
+  })
+
+  test('intervals are capped at maxInterval', () => {
+    const next = SpacedRepetitionEngine.calculateNextReview(card({ interval: 300 }), AnswerQuality.EASY)
+    assert.equal(next.interval, DEFAULT_SCHEDULER_CONFIG.maxInterval)
+  })
+
+  test('fast and slow answers nudge ease up and down', () => {
+    const fast = SpacedRepetitionEngine.calculateNextReview(card(), AnswerQuality.GOOD, 1000)
+    const slow = SpacedRepetitionEngine.calculateNextReview(card(), AnswerQuality.GOOD, 20000)
+    assert.equal(fast.easeFactor, Math.round(2.36 * DEFAULT_SCHEDULER_CONFIG.fastResponseBonus * 100) / 100)
+    assert.equal(slow.easeFactor, Math.round(2.36 * DEFAULT_SCHEDULER_CONFIG.slowResponsePenalty * 100) / 100)
+  })
+})
+
+describe('scheduler config', () => {
+  test('every preset is valid', () => {
+    for (const preset of Object.values(SCHEDULER_PRESETS)) {
+      assert.deepEqual(validateSchedulerConfig(preset.config), [], preset.id)
+    }
+  })
+
+  test('rejects a hardFactor that would lengthen Hard intervals', () => {
+    const errors = validateSchedulerConfig({ ...DEFAULT_SCHEDULER_CONFIG, hardFactor: 0.8 })
+    assert.deepEqual(errors, ['hardFactor must be at least 1 so Hard never lengthens an interval'])
+  })
+
+  test('rejects learning steps out of order', () => {
+    const errors = validateSchedulerConfig({ ...DEFAULT_SCHEDULER_CONFIG, learningSteps: [10, 1] })
+    assert.deepEqual(errors, ['learningSteps must be in ascending order'])
+  })
+
+  test('applies overrides on top of a preset', () => {
+    const config = createSchedulerConfig('cram', { easyBonus: 1.2 })
+    assert.equal(config.maxInterval, SCHEDULER_PRESETS.cram.config.maxInterval)
+    assert.equal(config.easyBonus, 1.2)
+    assert.throws(() => createSchedulerConfig('standard', { maxInterval: 0 }))
+  })
+})